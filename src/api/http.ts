@@ -0,0 +1,96 @@
+// HTTP helpers - JSON bodies, responses and validation for the API server
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { z } from 'zod';
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * Error with an HTTP status; anything else thrown by a route becomes a 500
+ */
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/**
+ * Route result that is written as Server-Sent Events instead of a JSON body
+ * Each item becomes one `event: <type>` message with the item as JSON data
+ */
+export class EventStream {
+  constructor(public events: AsyncIterable<{ type: string }>) {}
+}
+
+export function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+  res.end(JSON.stringify(body));
+}
+
+export async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new ApiError(413, 'Request body too large');
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  const raw = Buffer.concat(chunks).toString('utf-8');
+  if (!raw) return {};
+
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new ApiError(400, 'Request body is not valid JSON');
+  }
+}
+
+/**
+ * Validate input against a schema, turning Zod issues into a 400
+ */
+export function parseInput<T extends z.ZodType>(schema: T, input: unknown): z.infer<T> {
+  const result = schema.safeParse(input);
+  if (!result.success) {
+    throw new ApiError(
+      400,
+      'Invalid request',
+      result.error.issues.map((issue) => ({
+        path: issue.path.join('.'),
+        message: issue.message,
+      }))
+    );
+  }
+  return result.data;
+}
+
+/**
+ * Write an event stream until it ends or the client disconnects
+ */
+export async function sendEventStream(res: ServerResponse, stream: EventStream): Promise<void> {
+  res.statusCode = 200;
+  res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.flushHeaders();
+
+  // The turn keeps running if the client goes away; we just stop writing
+  let disconnected = false;
+  res.on('close', () => {
+    disconnected = true;
+  });
+
+  for await (const event of stream.events) {
+    if (disconnected) continue;
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  }
+  res.end();
+}
@@ -0,0 +1,5 @@
+// HTTP API exports
+export { createApiServer } from './server.js';
+export { routes, type Route, type RouteRequest } from './routes.js';
+export { ApiError } from './http.js';
+export * from './schemas.js';
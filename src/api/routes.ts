@@ -0,0 +1,174 @@
+// API Routes - REST endpoints over the pipeline and repositories
+import { z } from 'zod';
+import { pipeline } from '@/core/pipeline.js';
+import { domainRegistry } from '@/core/domains/registries/index.js';
+import { StorageFactory } from '@/core/domains/storage/index.js';
+import { conversationRepository, messageRepository } from '@/database/repositories/index.js';
+import { goalService } from '@/domains/goal/services/goal.service.js';
+import type { PipelineContext } from '@/types/index.js';
+import { ApiError, EventStream, parseInput } from './http.js';
+import {
+  postMessageSchema,
+  listQuerySchema,
+  goalsQuerySchema,
+  domainDataQuerySchema,
+  requestSchemas,
+} from './schemas.js';
+
+export interface RouteRequest {
+  params: Record<string, string>;
+  query: Record<string, string>;
+  body: unknown;
+}
+
+export interface Route {
+  method: 'GET' | 'POST';
+  path: string; // e.g. /api/users/:userId/goals
+  handler: (req: RouteRequest) => Promise<unknown>;
+}
+
+export const routes: Route[] = [
+  {
+    method: 'GET',
+    path: '/health',
+    handler: async () => ({ status: 'ok' }),
+  },
+  {
+    method: 'GET',
+    path: '/api/schemas',
+    handler: async () => getSchemas(),
+  },
+  {
+    method: 'POST',
+    path: '/api/messages',
+    handler: async ({ body }) => {
+      const result = await pipeline.execute(await toPipelineContext(body));
+
+      // Span-level timings stay server side (see the trace command)
+      const { performance: _performance, ...response } = result;
+      return response;
+    },
+  },
+  {
+    method: 'POST',
+    path: '/api/messages/stream',
+    handler: async ({ body }) => {
+      // Validation errors are still plain 400s; once streaming starts, failures are events
+      const context = await toPipelineContext(body);
+      return new EventStream(pipeline.executeEvents(context));
+    },
+  },
+  {
+    method: 'GET',
+    path: '/api/users/:userId/conversations',
+    handler: async ({ params, query }) => {
+      const { limit } = parseInput(listQuerySchema, query);
+      const conversations = await conversationRepository.findByUserId(params.userId, limit);
+      return { conversations };
+    },
+  },
+  {
+    method: 'GET',
+    path: '/api/conversations/:conversationId',
+    handler: async ({ params }) => {
+      const conversation = await conversationRepository.findById(params.conversationId);
+      if (!conversation) {
+        throw new ApiError(404, `Conversation ${params.conversationId} not found`);
+      }
+      return { conversation };
+    },
+  },
+  {
+    method: 'GET',
+    path: '/api/conversations/:conversationId/messages',
+    handler: async ({ params, query }) => {
+      const { limit } = parseInput(listQuerySchema, query);
+      const conversation = await conversationRepository.findById(params.conversationId);
+      if (!conversation) {
+        throw new ApiError(404, `Conversation ${params.conversationId} not found`);
+      }
+
+      // Repository returns newest first; clients read oldest first
+      const messages = await messageRepository.findByConversationId(conversation.id, limit);
+      return { messages: messages.reverse() };
+    },
+  },
+  {
+    method: 'GET',
+    path: '/api/users/:userId/goals',
+    handler: async ({ params, query }) => {
+      const { status } = parseInput(goalsQuerySchema, query);
+      const result = await goalService.getGoals(params.userId, status);
+      if (!result.success) {
+        throw new Error(result.message);
+      }
+      return { goals: result.data?.goals ?? [] };
+    },
+  },
+  {
+    method: 'GET',
+    path: '/api/users/:userId/domains/:domainId/data',
+    handler: async ({ params, query }) => {
+      const { days, limit } = parseInput(domainDataQuerySchema, query);
+      const domain = domainRegistry.getDomain(params.domainId);
+      if (!domain?.config.storageConfig) {
+        throw new ApiError(404, `Domain "${params.domainId}" has no stored data`);
+      }
+
+      const storage = StorageFactory.create(domain.id, domain.config.storageConfig);
+      const entries = await storage.query({
+        userId: params.userId,
+        startDate: days ? new Date(Date.now() - days * 24 * 60 * 60 * 1000) : undefined,
+        limit,
+      });
+      return { domain: domain.id, entries };
+    },
+  },
+];
+
+/**
+ * Validate a message body and check that a given conversation belongs to the user
+ */
+async function toPipelineContext(body: unknown): Promise<PipelineContext> {
+  const input = parseInput(postMessageSchema, body);
+
+  if (input.conversationId) {
+    const conversation = await conversationRepository.findById(input.conversationId);
+    if (!conversation || conversation.userId !== input.userId) {
+      throw new ApiError(404, `Conversation ${input.conversationId} not found`);
+    }
+  }
+
+  return {
+    userId: input.userId,
+    message: input.message,
+    conversationId: input.conversationId,
+    timestamp: new Date(),
+    forceNewConversation: input.newConversation && !input.conversationId,
+  };
+}
+
+/**
+ * JSON schemas for request bodies and each domain's extraction data,
+ * generated from the same Zod schemas the server and extractors use
+ */
+function getSchemas(): Record<string, unknown> {
+  const toJson = (schema: z.ZodType) =>
+    z.toJSONSchema(schema, { io: 'input', unrepresentable: 'any' });
+
+  const requests: Record<string, unknown> = {};
+  for (const [name, schema] of Object.entries(requestSchemas)) {
+    requests[name] = toJson(schema);
+  }
+
+  const domains: Record<string, unknown> = {};
+  for (const domain of domainRegistry.getActiveDomains()) {
+    domains[domain.id] = {
+      name: domain.name,
+      description: domain.description,
+      extraction: toJson(domain.config.extractionSchema),
+    };
+  }
+
+  return { requests, domains };
+}
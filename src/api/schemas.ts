@@ -0,0 +1,41 @@
+/**
+ * API Schemas
+ *
+ * Zod schemas for request bodies and query strings. The same schemas validate
+ * incoming requests and are published as JSON schemas at GET /api/schemas.
+ */
+
+import { z } from 'zod';
+
+export const postMessageSchema = z.object({
+  userId: z.string().min(1),
+  message: z.string().trim().min(1).max(10000),
+  conversationId: z.string().optional().describe('Continue this conversation'),
+  newConversation: z
+    .boolean()
+    .optional()
+    .describe('Start a new conversation instead of continuing the active one'),
+});
+
+export const listQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+});
+
+export const goalsQuerySchema = z.object({
+  status: z.enum(['active', 'completed', 'all']).default('active'),
+});
+
+export const domainDataQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+});
+
+export type PostMessageBody = z.infer<typeof postMessageSchema>;
+
+// Published under requests.* at GET /api/schemas
+export const requestSchemas: Record<string, z.ZodType> = {
+  postMessage: postMessageSchema,
+  listQuery: listQuerySchema,
+  goalsQuery: goalsQuerySchema,
+  domainDataQuery: domainDataQuerySchema,
+};
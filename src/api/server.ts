@@ -0,0 +1,110 @@
+// API Server - node:http server that dispatches to the route table
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { config } from '@/config/index.js';
+import { logger } from '@/core/logger.js';
+import { ApiError, EventStream, readJsonBody, sendEventStream, sendJson } from './http.js';
+import { routes, type Route } from './routes.js';
+
+interface CompiledRoute {
+  route: Route;
+  pattern: RegExp;
+  paramNames: string[];
+}
+
+const compiledRoutes: CompiledRoute[] = routes.map((route) => {
+  const paramNames: string[] = [];
+  const source = route.path.replace(/:(\w+)/g, (_, name: string) => {
+    paramNames.push(name);
+    return '([^/]+)';
+  });
+  return { route, pattern: new RegExp(`^${source}/?$`), paramNames };
+});
+
+export function createApiServer(): Server {
+  return createServer((req, res) => {
+    void handleRequest(req, res);
+  });
+}
+
+async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const startTime = Date.now();
+  const url = new URL(req.url || '/', 'http://localhost');
+
+  if (config.api.corsOrigin) {
+    res.setHeader('Access-Control-Allow-Origin', config.api.corsOrigin);
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  }
+
+  try {
+    if (req.method === 'OPTIONS') {
+      res.statusCode = 204;
+      res.end();
+      return;
+    }
+
+    const match = matchRoute(req.method || 'GET', url.pathname);
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+    const result = await match.route.handler({
+      params: match.params,
+      query: Object.fromEntries(url.searchParams),
+      body,
+    });
+
+    if (result instanceof EventStream) {
+      await sendEventStream(res, result);
+    } else {
+      sendJson(res, 200, result);
+    }
+  } catch (error) {
+    if (error instanceof ApiError) {
+      sendJson(res, error.status, { error: error.message, details: error.details });
+    } else {
+      const err = error as Error;
+      logger.error(
+        { method: req.method, path: url.pathname, error: err.message, stack: err.stack },
+        'API: Request failed'
+      );
+      sendJson(res, 500, { error: 'Internal server error' });
+    }
+  } finally {
+    logger.info(
+      {
+        method: req.method,
+        path: url.pathname,
+        status: res.statusCode,
+        duration: Date.now() - startTime,
+      },
+      'API: Request handled'
+    );
+  }
+}
+
+function matchRoute(
+  method: string,
+  pathname: string
+): { route: Route; params: Record<string, string> } {
+  let pathMatched = false;
+
+  for (const { route, pattern, paramNames } of compiledRoutes) {
+    const match = pattern.exec(pathname);
+    if (!match) continue;
+    pathMatched = true;
+    if (route.method !== method) continue;
+
+    const params: Record<string, string> = {};
+    paramNames.forEach((name, i) => {
+      try {
+        params[name] = decodeURIComponent(match[i + 1]);
+      } catch {
+        throw new ApiError(400, `Malformed ${name} in path: ${match[i + 1]}`);
+      }
+    });
+    return { route, params };
+  }
+
+  if (pathMatched) {
+    throw new ApiError(405, `Method ${method} not allowed on ${pathname}`);
+  }
+  throw new ApiError(404, `No route for ${method} ${pathname}`);
+}
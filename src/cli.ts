@@ -5,8 +5,18 @@
 
 import { Command } from 'commander';
 import { registerChatCommand } from '@/cli/commands/chat.command.js';
+import { registerAskCommand } from '@/cli/commands/ask.command.js';
 import { registerDbCommand } from '@/cli/commands/db.command.js';
 import { registerDomainsCommand } from '@/cli/commands/domains.command.js';
+import { registerUsageCommand } from '@/cli/commands/usage.command.js';
+import { registerTraceCommand } from '@/cli/commands/trace.command.js';
+import { registerServeCommand } from '@/cli/commands/serve.command.js';
+import { registerConversationsCommand } from '@/cli/commands/conversations.command.js';
+import { registerExportCommand } from '@/cli/commands/export.command.js';
+import { registerImportCommand } from '@/cli/commands/import.command.js';
+import { registerSearchCommand } from '@/cli/commands/search.command.js';
+import { registerMemoryCommand } from '@/cli/commands/memory.command.js';
+import { registerDecayCommand } from '@/cli/commands/decay.command.js';
 
 const program = new Command();
 
@@ -17,8 +27,18 @@ program
 
 // Register commands
 registerChatCommand(program);
+registerAskCommand(program);
 registerDbCommand(program);
 registerDomainsCommand(program);
+registerUsageCommand(program);
+registerTraceCommand(program);
+registerServeCommand(program);
+registerConversationsCommand(program);
+registerExportCommand(program);
+registerImportCommand(program);
+registerSearchCommand(program);
+registerMemoryCommand(program);
+registerDecayCommand(program);
 
 // Parse arguments
 program.parse(process.argv);
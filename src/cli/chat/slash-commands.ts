@@ -0,0 +1,295 @@
+// Chat Slash Commands - Inspect and control a chat session without calling the pipeline
+import { mkdir, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import chalk from 'chalk';
+import { decayStage } from '@/core/stages/decay.stage.js';
+import { domainConfig } from '@/core/domains/config/DomainConfig.js';
+import { domainRegistry } from '@/core/domains/registries/index.js';
+import {
+  conversationRepository,
+  messageRepository,
+  pipelineTraceRepository,
+  stateRepository,
+} from '@/database/repositories/index.js';
+import { goalService } from '@/domains/goal/services/goal.service.js';
+import { conversationService } from '@/services/conversation.service.js';
+import { conversationExportService } from '@/services/conversation-export.service.js';
+import { printTrace } from '@/cli/commands/trace.command.js';
+import { ConversationMode, MessageRole } from '@/types/index.js';
+
+/**
+ * What the chat loop carries between turns
+ */
+export interface ChatSession {
+  userId: string;
+  conversationId?: string; // Known after the first turn or from --conversation-id
+  forceNew: boolean; // Next turn starts a new conversation
+  forcedMode?: ConversationMode; // Set by /mode; sent as PipelineContext.forceMode
+}
+
+interface SlashCommand {
+  name: string;
+  args?: string;
+  description: string;
+  run(args: string[], session: ChatSession): Promise<void>;
+}
+
+const slashCommands: SlashCommand[] = [
+  {
+    name: 'help',
+    description: 'List chat commands',
+    run: async () => {
+      console.info(chalk.bold('\nChat commands'));
+      for (const command of slashCommands) {
+        const usage = `/${command.name}${command.args ? ` ${command.args}` : ''}`;
+        console.info(`  ${chalk.cyan(usage.padEnd(30))} ${command.description}`);
+      }
+    },
+  },
+  {
+    name: 'goals',
+    args: '[active|completed|all]',
+    description: 'List your goals',
+    run: async (args, session) => {
+      const filter = args[0] ?? 'active';
+      if (filter !== 'active' && filter !== 'completed' && filter !== 'all') {
+        console.info(chalk.yellow('Usage: /goals [active|completed|all]'));
+        return;
+      }
+      const result = await goalService.getGoals(session.userId, filter);
+      console.info(`\n${result.message}`);
+    },
+  },
+  {
+    name: 'mode',
+    args: '[mode|auto]',
+    description: `Force ${Object.values(ConversationMode).join('/')}; auto clears`,
+    run: async (args, session) => {
+      const mode = args[0];
+      if (!mode) {
+        console.info(`Mode: ${session.forcedMode ?? 'auto (chosen per message)'}`);
+        return;
+      }
+      if (mode === 'auto') {
+        session.forcedMode = undefined;
+        console.info(chalk.green('✓ Mode is chosen per message again'));
+        return;
+      }
+      if (!Object.values(ConversationMode).includes(mode as ConversationMode)) {
+        console.info(
+          chalk.yellow(`Unknown mode "${mode}". Use: ${Object.values(ConversationMode).join(', ')}`)
+        );
+        return;
+      }
+      session.forcedMode = mode as ConversationMode;
+      console.info(chalk.green(`✓ Forcing ${mode} mode (safety rules still apply)`));
+    },
+  },
+  {
+    name: 'new',
+    description: 'Start a new conversation',
+    run: async (_args, session) => {
+      session.conversationId = undefined;
+      session.forceNew = true;
+      console.info(chalk.green('✓ Your next message starts a new conversation'));
+    },
+  },
+  {
+    name: 'history',
+    args: '[n]',
+    description: 'Show the last n messages (default 10)',
+    run: async (args, session) => {
+      const conversationId = await requireConversation(session);
+      if (!conversationId) return;
+
+      const messages = await messageRepository.getRecentMessages(
+        conversationId,
+        parseInt(args[0] ?? '10', 10) || 10
+      );
+      console.info('');
+      for (const message of messages) {
+        const speaker =
+          message.role === MessageRole.USER ? chalk.green('You:') : chalk.blue('Assistant:');
+        const time = chalk.gray(message.timestamp.toLocaleTimeString());
+        console.info(`${time} ${speaker} ${truncate(message.content, 300)}`);
+      }
+    },
+  },
+  {
+    name: 'state',
+    description: 'Show context elements with current decay weights and the rolling summary',
+    run: async (_args, session) => {
+      const conversationId = await requireConversation(session);
+      if (!conversationId) return;
+
+      const state = await stateRepository.getLatestByConversationId(conversationId);
+      if (!state) {
+        console.info(chalk.gray('No state saved yet'));
+        return;
+      }
+
+      // What the next turn will see after decay
+      const decayed = decayStage.applyDecay(state);
+
+      console.info(chalk.bold('\nConversation state'));
+      console.info(`  Mode:          ${state.mode}`);
+      console.info(`  Last activity: ${state.lastActivityAt.toLocaleString()}`);
+      if (state.metadata?.activeDomains?.length) {
+        console.info(`  Domains:       ${state.metadata.activeDomains.join(', ')}`);
+      }
+
+      console.info(chalk.bold(`\nContext elements (${state.contextElements.length})`));
+      if (state.contextElements.length === 0) {
+        console.info(chalk.gray('  none'));
+      }
+      for (const element of state.contextElements) {
+        const current = decayed.contextElements.find(
+          (e) => e.key === element.key && e.createdAt.getTime() === element.createdAt.getTime()
+        );
+        const weight = current
+          ? `${element.weight.toFixed(2)} → ${current.weight.toFixed(2)}`
+          : `${element.weight.toFixed(2)} → ${chalk.red('expired')}`;
+        const mentions = element.mentionCount ?? 1;
+        console.info(
+          `  ${element.key} ${chalk.gray(`(${element.contextType ?? 'general'})`)} ` +
+            `weight ${weight}` +
+            (mentions > 1
+              ? chalk.gray(
+                  ` · mentioned ${mentions} times, ` +
+                    `${element.createdAt.toLocaleString()} – ${element.lastAccessedAt.toLocaleString()}`
+                )
+              : '')
+        );
+        console.info(chalk.gray(`    ${truncate(element.value, 200)}`));
+      }
+
+      if (state.goals.length > 0) {
+        console.info(chalk.bold(`\nConversation goals (${state.goals.length})`));
+        for (const goal of state.goals) {
+          console.info(`  [${goal.status}] ${goal.description}`);
+        }
+      }
+
+      const summary = state.metadata?.summary;
+      if (summary) {
+        console.info(chalk.bold(`\nSummary of the first ${summary.messageCount} messages`));
+        console.info(chalk.gray(`  ${summary.text}`));
+        for (const [domain, text] of Object.entries(summary.domains)) {
+          console.info(chalk.gray(`  ${domain}: ${text}`));
+        }
+      }
+    },
+  },
+  {
+    name: 'domains',
+    description: 'List domains and which are active in this conversation',
+    run: async (_args, session) => {
+      const globalConfig = domainConfig.getGlobalConfig();
+      const conversationId = session.forceNew ? undefined : await resolveConversation(session);
+      const state = conversationId
+        ? await stateRepository.getLatestByConversationId(conversationId)
+        : null;
+      const active = state?.metadata?.activeDomains ?? [];
+
+      console.info(chalk.bold('\nDomains'));
+      for (const domain of domainRegistry.getAllDomains()) {
+        const enabled = globalConfig.domains.find((d) => d.domainId === domain.id)?.enabled;
+        const status = enabled ? chalk.green('✓') : chalk.red('✗');
+        const inUse = active.includes(domain.id) ? chalk.cyan(' (active here)') : '';
+        console.info(`  ${status} ${domain.id} - ${chalk.gray(domain.description)}${inUse}`);
+      }
+    },
+  },
+  {
+    name: 'trace',
+    description: 'Explain the last reply',
+    run: async (_args, session) => {
+      const conversationId = await requireConversation(session);
+      if (!conversationId) return;
+
+      const traces = await pipelineTraceRepository.findByConversationId(conversationId);
+      const last = traces[traces.length - 1];
+      if (!last) {
+        console.info(chalk.gray('No pipeline trace for this conversation yet'));
+        return;
+      }
+      const messages = await messageRepository.findByConversationId(conversationId, 20);
+      printTrace(last, messages);
+    },
+  },
+  {
+    name: 'undo',
+    description: 'Remove the last turn (messages, state, extracted data and tool changes)',
+    run: async (_args, session) => {
+      const conversationId = await requireConversation(session);
+      if (!conversationId) return;
+
+      const result = await conversationService.undoLastTurn(conversationId);
+      if (!result) {
+        console.info(chalk.gray('Nothing to undo'));
+        return;
+      }
+      const removed = result.userMessage?.content ?? result.assistantMessage.content;
+      console.info(chalk.green(`✓ Removed: "${truncate(removed, 80)}"`));
+    },
+  },
+  {
+    name: 'export',
+    args: '[file]',
+    description: 'Save this conversation as Markdown',
+    run: async (args, session) => {
+      const conversationId = await requireConversation(session);
+      if (!conversationId) return;
+
+      const file = args[0] ?? `./exports/conversation-${conversationId}.md`;
+      await mkdir(dirname(file), { recursive: true });
+      const bundle = await conversationExportService.export(conversationId);
+      await writeFile(file, conversationExportService.format(bundle, 'md'), 'utf-8');
+      console.info(chalk.green(`✓ Exported to ${file}`));
+    },
+  },
+];
+
+export function isSlashCommand(input: string): boolean {
+  return input.startsWith('/');
+}
+
+/**
+ * Run a slash command line such as "/history 5"
+ */
+export async function runSlashCommand(input: string, session: ChatSession): Promise<void> {
+  const [name, ...args] = input.slice(1).trim().split(/\s+/);
+  const command = slashCommands.find((c) => c.name === name?.toLowerCase());
+
+  if (!command) {
+    console.info(chalk.yellow(`Unknown command /${name}. Type /help for the list.`));
+    return;
+  }
+
+  await command.run(args, session);
+  console.info('');
+}
+
+/**
+ * The conversation the next message would go to, as the pipeline's Load stage picks it
+ */
+async function resolveConversation(session: ChatSession): Promise<string | undefined> {
+  if (!session.conversationId) {
+    const [active] = await conversationRepository.findActiveByUserId(session.userId);
+    session.conversationId = active?.id;
+  }
+  return session.conversationId;
+}
+
+async function requireConversation(session: ChatSession): Promise<string | undefined> {
+  const conversationId = session.forceNew ? undefined : await resolveConversation(session);
+  if (!conversationId) {
+    console.info(chalk.gray('No conversation yet - send a message first'));
+  }
+  return conversationId;
+}
+
+function truncate(text: string, max: number): string {
+  const singleLine = text.replace(/\s+/g, ' ');
+  return singleLine.length > max ? `${singleLine.slice(0, max - 1)}…` : singleLine;
+}
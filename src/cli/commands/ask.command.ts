@@ -0,0 +1,80 @@
+// Ask Command - Single non-interactive turn, for shell scripts and automation
+// Domains and tools are registered when the CLI loads chat.command
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { pipeline } from '@/core/pipeline.js';
+import { logger } from '@/core/logger.js';
+import { traceExporter } from '@/core/telemetry/index.js';
+import { initializeDatabase, closeDatabase } from '@/database/client.js';
+
+interface AskOptions {
+  user?: string;
+  conversationId?: string;
+  new?: boolean;
+  json?: boolean;
+}
+
+export function registerAskCommand(program: Command): void {
+  program
+    .command('ask <message>')
+    .description('Send one message and print the reply')
+    .option('-u, --user <id>', 'User ID', 'cli-user')
+    .option('-i, --conversation-id <id>', 'Continue specific conversation by ID')
+    .option('-n, --new', 'Start a new conversation', false)
+    .option('--json', 'Print the result as JSON', false)
+    .action(async (message: string, options: AskOptions) => {
+      await executeAsk(message, options);
+    });
+}
+
+async function executeAsk(message: string, options: AskOptions): Promise<void> {
+  try {
+    if (!message.trim()) {
+      throw new Error('Message is empty');
+    }
+
+    await initializeDatabase();
+
+    const result = await pipeline.execute({
+      userId: options.user ?? 'cli-user',
+      message: message.trim(),
+      conversationId: options.new ? undefined : options.conversationId,
+      timestamp: new Date(),
+      forceNewConversation: options.new,
+    });
+
+    if (options.json) {
+      console.info(
+        JSON.stringify(
+          {
+            response: result.response,
+            conversationId: result.conversationId,
+            messageId: result.messageId,
+            mode: result.mode,
+            safetyLevel: result.safetyLevel,
+            extractions: result.extractions,
+            processingTime: result.processingTime,
+          },
+          null,
+          2
+        )
+      );
+    } else {
+      console.info(result.response);
+    }
+  } catch (error) {
+    const err = error as Error;
+    logger.error({ error: err.message, stack: err.stack }, 'Ask command failed');
+
+    if (options.json) {
+      console.info(JSON.stringify({ error: err.message }, null, 2));
+    } else {
+      console.error(chalk.red('Error:'), err.message);
+    }
+    process.exitCode = 1;
+  } finally {
+    // Don't drop traces still being exported
+    await traceExporter.flush();
+    closeDatabase();
+  }
+}
@@ -1,4 +1,5 @@
 // Chat Command - Interactive conversation
+import { readFile, writeFile } from 'node:fs/promises';
 import { Command } from 'commander';
 import inquirer from 'inquirer';
 import chalk from 'chalk';
@@ -8,18 +9,27 @@ import { logger } from '@/core/logger.js';
 import { registerHealthDomain } from '@/domains/health/index.js';
 import { registerFinanceDomain } from '@/domains/finance/index.js';
 import { registerGoalDomain } from '@/domains/goal/index.js';
-import type { PipelineContext } from '@/types/index.js';
+import { registerCoreTools } from '@/core/tools/index.js';
+import { traceExporter } from '@/core/telemetry/index.js';
+import { isSlashCommand, runSlashCommand, type ChatSession } from '@/cli/chat/slash-commands.js';
+import { conversationService } from '@/services/conversation.service.js';
+import { initializeDatabase, closeDatabase } from '@/database/client.js';
+import type { PipelineContext, PipelineResult } from '@/types/index.js';
 
 // Initialize domains on module load
 registerHealthDomain();
 registerFinanceDomain();
 registerGoalDomain();
+registerCoreTools();
 
-interface ChatOptions {
+export interface ChatOptions {
   user?: string;
   conversationId?: string;
   new?: boolean;
   debug?: boolean;
+  stream?: boolean;
+  script?: string;
+  output?: string;
 }
 
 export function registerChatCommand(program: Command): void {
@@ -32,14 +42,17 @@ export function registerChatCommand(program: Command): void {
       'Force create new conversation (ignore existing active conversations)',
       false
     )
-    .option('-i, --conversation-id <id>', 'Continue specific conversation by ID')
+    .option('-i, --conversation-id <id>', 'Continue specific conversation by ID or ID prefix')
     .option('-d, --debug', 'Show debug information', false)
+    .option('--no-stream', 'Wait for the full response instead of streaming tokens')
+    .option('-s, --script <file>', 'Send each line of a file as a turn ("-" reads stdin)')
+    .option('-o, --output <file>', 'With --script, write the transcript to a file')
     .action(async (options: ChatOptions) => {
       await executeChat(options);
     });
 }
 
-async function executeChat(options: ChatOptions): Promise<void> {
+export async function executeChat(options: ChatOptions): Promise<void> {
   // Debug: Log received options
   logger.info(
     {
@@ -48,17 +61,43 @@ async function executeChat(options: ChatOptions): Promise<void> {
         new: options.new,
         conversationId: options.conversationId,
         debug: options.debug,
+        stream: options.stream,
+        script: options.script,
       },
     },
     'Chat command: Starting with options'
   );
 
+  try {
+    // Creates tables added since the database was set up
+    await initializeDatabase();
+
+    // Accept the short IDs shown by `conversations list`
+    if (options.conversationId && !options.new) {
+      options.conversationId = (await conversationService.resolve(options.conversationId)).id;
+    }
+  } catch (error) {
+    console.error(chalk.red('Error:'), (error as Error).message);
+    process.exitCode = 1;
+    closeDatabase();
+    return;
+  }
+
+  if (options.script) {
+    await executeScript(options.script, options);
+    closeDatabase();
+    return;
+  }
+
   console.info(chalk.blue('\n🤖 AI Assistant Ready (MVP v3)\n'));
-  console.info(chalk.gray('Type "exit" or "quit" to end the conversation\n'));
+  console.info(chalk.gray('Type "exit" or "quit" to end the conversation, /help for commands\n'));
 
-  const userId = options.user ?? 'cli-user';
   // Force new conversation if --new flag is set, otherwise use provided ID or let pipeline find/create
-  let conversationId = options.new ? undefined : options.conversationId;
+  const session: ChatSession = {
+    userId: options.user ?? 'cli-user',
+    conversationId: options.new ? undefined : options.conversationId,
+    forceNew: !!options.new,
+  };
 
   if (options.new) {
     console.info(chalk.yellow('Creating new conversation...\n'));
@@ -74,7 +113,7 @@ async function executeChat(options: ChatOptions): Promise<void> {
         {
           type: 'input',
           name: 'message',
-          message: chalk.green('You:'),
+          message: chalk.green(session.forcedMode ? `You [${session.forcedMode}]:` : 'You:'),
           prefix: '',
         },
       ]);
@@ -88,54 +127,83 @@ async function executeChat(options: ChatOptions): Promise<void> {
         break;
       }
 
+      // Slash commands never reach the pipeline
+      if (isSlashCommand(message.trim())) {
+        await runSlashCommand(message.trim(), session);
+        continue;
+      }
+
       // Show processing indicator
       const spinner = ora('Thinking...').start();
 
       // Process message through pipeline
-      const forceNew = options.new && !conversationId;
+      const forceNew = session.forceNew && !session.conversationId;
       const context: PipelineContext = {
-        conversationId,
-        userId,
+        conversationId: session.conversationId,
+        userId: session.userId,
         message: message.trim(),
         timestamp: new Date(),
         forceNewConversation: forceNew,
+        forceMode: session.forcedMode,
       };
 
       // Debug log to verify flag
       logger.debug(
         {
           optionsNew: options.new,
-          conversationId,
+          conversationId: session.conversationId,
           forceNewConversation: forceNew,
         },
         'Chat command: Building pipeline context'
       );
 
-      const result = await pipeline.execute(context);
+      let result: PipelineResult;
+
+      if (options.stream === false) {
+        result = await pipeline.execute(context);
+        spinner.succeed(chalk.gray(`(${result.processingTime}ms)`));
+
+        // Display response
+        console.info(chalk.blue('\nAssistant:'), result.response);
+      } else {
+        const stream = pipeline.executeStream(context);
+        let started = false;
+
+        for await (const token of stream) {
+          if (!started) {
+            // Spinner covers classification/enrichment; hand off to the response on first token
+            spinner.stop();
+            process.stdout.write(chalk.blue('\nAssistant: '));
+            started = true;
+          }
+          process.stdout.write(token);
+        }
+
+        result = await stream.result;
+        if (!started) spinner.stop();
+        process.stdout.write('\n');
+        console.info(chalk.gray(`(${result.processingTime}ms)`));
+      }
+      console.info('');
 
       // Capture conversation ID from result for subsequent messages
-      conversationId = result.conversationId;
+      session.conversationId = result.conversationId;
+      session.forceNew = false;
 
       logger.debug(
         {
-          conversationId,
+          conversationId: session.conversationId,
           messageId: result.messageId,
           processingTime: result.processingTime,
         },
         'Message processed successfully'
       );
 
-      spinner.succeed(chalk.gray(`(${result.processingTime}ms)`));
-
-      // Display response
-      console.info(chalk.blue('\nAssistant:'), result.response);
-      console.info('');
-
       // Show debug info if requested
       if (options.debug) {
         console.info(chalk.gray('─'.repeat(60)));
         console.info(chalk.gray('Debug Info:'));
-        console.info(chalk.gray(`  Conversation ID: ${conversationId}`));
+        console.info(chalk.gray(`  Conversation ID: ${session.conversationId}`));
         console.info(chalk.gray(`  Message ID: ${result.messageId}`));
         console.info(chalk.gray(`  Processing Time: ${result.processingTime}ms`));
         console.info(chalk.gray('─'.repeat(60)));
@@ -154,5 +222,102 @@ async function executeChat(options: ChatOptions): Promise<void> {
     }
   }
 
+  // Don't drop traces still being exported
+  await traceExporter.flush();
+  closeDatabase();
+
   console.info(chalk.blue('\n👋 Goodbye!\n'));
 }
+
+/**
+ * Run a scripted conversation and print (or save) the transcript
+ * Blank lines and lines starting with # are skipped; "exit" or "quit" ends the script
+ */
+async function executeScript(scriptPath: string, options: ChatOptions): Promise<void> {
+  const userId = options.user ?? 'cli-user';
+  let conversationId = options.new ? undefined : options.conversationId;
+  const transcript: string[] = [];
+
+  // Without --output the transcript streams to stdout turn by turn
+  const write = (block: string) => {
+    transcript.push(block);
+    if (!options.output) console.info(block);
+  };
+
+  try {
+    const turns = parseScript(await readScript(scriptPath));
+    write(`# Transcript - user ${userId} - ${new Date().toISOString()}\n`);
+
+    for (const message of turns) {
+      const lines = [`User: ${message}`];
+
+      try {
+        const result = await pipeline.execute({
+          conversationId,
+          userId,
+          message,
+          timestamp: new Date(),
+          forceNewConversation: options.new && !conversationId,
+        });
+        conversationId = result.conversationId;
+
+        lines.push(`Assistant: ${result.response}`);
+        lines.push(
+          `  [${result.mode} · safety ${result.safetyLevel} · ${result.processingTime}ms · ` +
+            `message ${result.messageId}]`
+        );
+        if (options.debug) {
+          for (const extraction of result.extractions.filter((e) => e.extracted)) {
+            lines.push(`  [${extraction.domainId}: ${JSON.stringify(extraction.data)}]`);
+          }
+        }
+      } catch (error) {
+        const err = error as Error;
+        logger.error({ error: err.message, stack: err.stack }, 'Chat script: Turn failed');
+        lines.push(`Error: ${err.message}`);
+        process.exitCode = 1;
+      }
+
+      write(lines.join('\n') + '\n');
+    }
+
+    write(`Conversation: ${conversationId ?? '(none)'}`);
+
+    if (options.output) {
+      await writeFile(options.output, transcript.join('\n') + '\n', 'utf-8');
+      console.info(
+        chalk.green(`✓ Transcript of ${turns.length} turns written to ${options.output}`)
+      );
+    }
+  } catch (error) {
+    const err = error as Error;
+    logger.error({ error: err.message, stack: err.stack }, 'Chat script failed');
+    console.error(chalk.red('Error:'), err.message);
+    process.exitCode = 1;
+  } finally {
+    await traceExporter.flush();
+  }
+}
+
+async function readScript(scriptPath: string): Promise<string> {
+  if (scriptPath !== '-') {
+    return readFile(scriptPath, 'utf-8');
+  }
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+function parseScript(content: string): string[] {
+  const turns: string[] = [];
+  for (const line of content.split(/\r?\n/)) {
+    const message = line.trim();
+    if (!message || message.startsWith('#')) continue;
+    if (message.toLowerCase() === 'exit' || message.toLowerCase() === 'quit') break;
+    turns.push(message);
+  }
+  return turns;
+}
@@ -0,0 +1,311 @@
+// Conversations Command - Browse and manage stored conversations
+import { Command } from 'commander';
+import inquirer from 'inquirer';
+import chalk from 'chalk';
+import { initializeDatabase, closeDatabase } from '@/database/client.js';
+import { messageRepository } from '@/database/repositories/index.js';
+import { logger } from '@/core/logger.js';
+import { conversationService, type ConversationSummary } from '@/services/conversation.service.js';
+import { executeChat } from '@/cli/commands/chat.command.js';
+import { ConversationStatus, MessageRole } from '@/types/index.js';
+
+interface ListOptions {
+  user?: string;
+  status?: string;
+  since?: string;
+  until?: string;
+  limit?: string;
+}
+
+interface ShowOptions {
+  messages?: string;
+}
+
+interface DeleteOptions {
+  yes?: boolean;
+}
+
+// Enough characters to stay unique in practice; any unique prefix is accepted
+const SHORT_ID_LENGTH = 8;
+
+export function registerConversationsCommand(program: Command): void {
+  const conversationsCmd = program
+    .command('conversations')
+    .description('List and manage conversations (IDs may be shortened to a unique prefix)');
+
+  conversationsCmd
+    .command('list')
+    .description('List conversations, most recently active first')
+    .option('-u, --user <id>', 'Only conversations of this user')
+    .option(
+      '--status <status>',
+      `Filter by status (${Object.values(ConversationStatus).join('|')})`
+    )
+    .option('--since <date>', 'Active on or after this date (e.g. 2025-01-31)')
+    .option('--until <date>', 'Active on or before this date')
+    .option('-l, --limit <n>', 'Maximum number of conversations', '20')
+    .action(async (options: ListOptions) => {
+      await executeList(options);
+    });
+
+  conversationsCmd
+    .command('show <id>')
+    .description('Show a conversation summary and its latest messages')
+    .option('-m, --messages <n>', 'Number of recent messages to show', '10')
+    .action(async (id: string, options: ShowOptions) => {
+      await executeShow(id, options);
+    });
+
+  conversationsCmd
+    .command('close <id>')
+    .description('Mark a conversation completed so new messages start a fresh one')
+    .action(async (id: string) => {
+      await executeClose(id);
+    });
+
+  conversationsCmd
+    .command('delete <id>')
+    .description('Delete a conversation with its messages, state and extracted data')
+    .option('-y, --yes', 'Skip the confirmation prompt', false)
+    .action(async (id: string, options: DeleteOptions) => {
+      await executeDelete(id, options);
+    });
+
+  conversationsCmd
+    .command('resume <id>')
+    .description('Reopen a conversation and continue chatting in it')
+    .option('-d, --debug', 'Show debug information', false)
+    .option('--no-stream', 'Wait for the full response instead of streaming tokens')
+    .action(async (id: string, options: { debug?: boolean; stream?: boolean }) => {
+      await executeResume(id, options);
+    });
+}
+
+async function executeList(options: ListOptions): Promise<void> {
+  try {
+    const status = options.status as ConversationStatus | undefined;
+    if (status && !Object.values(ConversationStatus).includes(status)) {
+      throw new Error(
+        `Unknown status "${status}". Use: ${Object.values(ConversationStatus).join(', ')}`
+      );
+    }
+
+    await initializeDatabase();
+
+    const summaries = await conversationService.list({
+      userId: options.user,
+      status,
+      since: parseDate(options.since, '--since'),
+      until: parseDate(options.until, '--until', true),
+      limit: parseInt(options.limit ?? '20', 10) || 20,
+    });
+
+    if (summaries.length === 0) {
+      console.info(chalk.gray('No conversations found'));
+      return;
+    }
+
+    console.info(
+      chalk.bold(
+        `\n${'ID'.padEnd(SHORT_ID_LENGTH)}  ${'User'.padEnd(14)} ${'Status'.padEnd(10)} ` +
+          `${'Msgs'.padStart(5)}  ${'Mode'.padEnd(14)} ${'Last activity'.padEnd(17)}  Domains`
+      )
+    );
+    for (const summary of summaries) {
+      printRow(summary);
+    }
+
+    console.info(
+      chalk.gray(
+        `\n${summaries.length} conversation(s). Continue one with ` +
+          '`conversations resume <id>` or `chat -i <id>`.'
+      )
+    );
+  } catch (error) {
+    const err = error as Error;
+    logger.error({ error: err.message, stack: err.stack }, 'Conversations list failed');
+
+    console.error(chalk.red('Error:'), err.message);
+    process.exitCode = 1;
+  } finally {
+    closeDatabase();
+  }
+}
+
+async function executeShow(id: string, options: ShowOptions): Promise<void> {
+  try {
+    await initializeDatabase();
+
+    const conversation = await conversationService.resolve(id);
+    const summary = await conversationService.getSummary(conversation);
+
+    console.info(chalk.blue(`\n💬 Conversation ${conversation.id}`));
+    console.info(`  User:          ${conversation.userId}`);
+    console.info(`  Status:        ${formatStatus(conversation.status)}`);
+    console.info(`  Started:       ${conversation.startedAt.toLocaleString()}`);
+    console.info(`  Last activity: ${conversation.lastActivityAt.toLocaleString()}`);
+    console.info(`  Messages:      ${summary.messageCount}`);
+    console.info(`  Last mode:     ${summary.lastMode ?? '-'}`);
+    console.info(`  Domains:       ${summary.domains.join(', ') || '-'}`);
+
+    const messages = await messageRepository.getRecentMessages(
+      conversation.id,
+      parseInt(options.messages ?? '10', 10) || 10
+    );
+    if (messages.length > 0) {
+      console.info(chalk.bold(`\nLatest messages (${messages.length} of ${summary.messageCount})`));
+      for (const message of messages) {
+        const speaker =
+          message.role === MessageRole.USER ? chalk.green('You:') : chalk.blue('Assistant:');
+        const time = chalk.gray(message.timestamp.toLocaleString());
+        console.info(`${time} ${speaker} ${truncate(message.content, 200)}`);
+      }
+    }
+    console.info('');
+  } catch (error) {
+    const err = error as Error;
+    logger.error({ error: err.message, stack: err.stack }, 'Conversations show failed');
+
+    console.error(chalk.red('Error:'), err.message);
+    process.exitCode = 1;
+  } finally {
+    closeDatabase();
+  }
+}
+
+async function executeClose(id: string): Promise<void> {
+  try {
+    await initializeDatabase();
+
+    const conversation = await conversationService.resolve(id);
+    await conversationService.close(conversation.id);
+
+    console.info(chalk.green(`✓ Closed conversation ${conversation.id}`));
+  } catch (error) {
+    const err = error as Error;
+    logger.error({ error: err.message, stack: err.stack }, 'Conversations close failed');
+
+    console.error(chalk.red('Error:'), err.message);
+    process.exitCode = 1;
+  } finally {
+    closeDatabase();
+  }
+}
+
+async function executeDelete(id: string, options: DeleteOptions): Promise<void> {
+  try {
+    await initializeDatabase();
+
+    const conversation = await conversationService.resolve(id);
+
+    if (!options.yes) {
+      const summary = await conversationService.getSummary(conversation);
+      const { confirmed } = await inquirer.prompt([
+        {
+          type: 'confirm',
+          name: 'confirmed',
+          message:
+            `Delete conversation ${conversation.id} of ${conversation.userId} ` +
+            `(${summary.messageCount} messages)? This cannot be undone.`,
+          default: false,
+        },
+      ]);
+      if (!confirmed) {
+        console.info(chalk.gray('Cancelled'));
+        return;
+      }
+    }
+
+    await conversationService.delete(conversation.id);
+    console.info(chalk.green(`✓ Deleted conversation ${conversation.id}`));
+  } catch (error) {
+    const err = error as Error;
+    logger.error({ error: err.message, stack: err.stack }, 'Conversations delete failed');
+
+    console.error(chalk.red('Error:'), err.message);
+    process.exitCode = 1;
+  } finally {
+    closeDatabase();
+  }
+}
+
+async function executeResume(
+  id: string,
+  options: { debug?: boolean; stream?: boolean }
+): Promise<void> {
+  let conversation;
+  try {
+    await initializeDatabase();
+
+    conversation = await conversationService.resolve(id);
+    if (conversation.status !== ConversationStatus.ACTIVE) {
+      await conversationService.reopen(conversation.id);
+    }
+  } catch (error) {
+    const err = error as Error;
+    logger.error({ error: err.message, stack: err.stack }, 'Conversations resume failed');
+
+    console.error(chalk.red('Error:'), err.message);
+    process.exitCode = 1;
+    closeDatabase();
+    return;
+  }
+
+  // The chat loop runs on the same connection, like the chat command
+  await executeChat({
+    user: conversation.userId,
+    conversationId: conversation.id,
+    debug: options.debug,
+    stream: options.stream,
+  });
+}
+
+function printRow(summary: ConversationSummary): void {
+  const { conversation } = summary;
+  console.info(
+    `${chalk.cyan(conversation.id.slice(0, SHORT_ID_LENGTH))}  ` +
+      `${truncate(conversation.userId, 14).padEnd(14)} ` +
+      `${formatStatus(conversation.status, 10)} ` +
+      `${String(summary.messageCount).padStart(5)}  ` +
+      `${(summary.lastMode ?? '-').padEnd(14)} ` +
+      `${formatDate(conversation.lastActivityAt).padEnd(17)}  ` +
+      `${summary.domains.join(', ') || chalk.gray('-')}`
+  );
+}
+
+function formatStatus(status: ConversationStatus, width = 0): string {
+  const padded = status.padEnd(width);
+  if (status === ConversationStatus.ACTIVE) return chalk.green(padded);
+  if (status === ConversationStatus.COMPLETED) return chalk.gray(padded);
+  return chalk.yellow(padded);
+}
+
+function formatDate(date: Date): string {
+  // YYYY-MM-DD HH:MM in local time
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}`
+  );
+}
+
+/**
+ * Parse a --since/--until value; a bare date used as --until covers that whole day
+ */
+function parseDate(value: string | undefined, flag: string, endOfDay = false): Date | undefined {
+  if (!value) return undefined;
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date for ${flag}: "${value}"`);
+  }
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    date.setUTCHours(23, 59, 59, 999);
+  }
+  return date;
+}
+
+function truncate(text: string, max: number): string {
+  const singleLine = text.replace(/\s+/g, ' ');
+  return singleLine.length > max ? `${singleLine.slice(0, max - 1)}…` : singleLine;
+}
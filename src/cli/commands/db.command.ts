@@ -4,6 +4,7 @@ import chalk from 'chalk';
 import ora from 'ora';
 import { initializeDatabase, closeDatabase } from '@/database/client.js';
 import { logger } from '@/core/logger.js';
+import { llmCacheRepository } from '@/database/repositories/llm-cache.repository.js';
 
 export function registerDbCommand(program: Command): void {
   const dbCmd = program.command('db').description('Database management commands');
@@ -14,6 +15,14 @@ export function registerDbCommand(program: Command): void {
     .action(async () => {
       await executeInit();
     });
+
+  dbCmd
+    .command('clear-cache')
+    .description('Delete cached LLM responses')
+    .option('--expired', 'Only delete expired entries', false)
+    .action(async (options: { expired?: boolean }) => {
+      await executeClearCache(options.expired ?? false);
+    });
 }
 
 async function executeInit(): Promise<void> {
@@ -40,3 +49,24 @@ async function executeInit(): Promise<void> {
     closeDatabase();
   }
 }
+
+async function executeClearCache(expiredOnly: boolean): Promise<void> {
+  try {
+    await initializeDatabase();
+
+    const count = expiredOnly
+      ? await llmCacheRepository.cleanupExpired()
+      : await llmCacheRepository.clear();
+
+    logger.info({ count, expiredOnly }, 'LLM cache cleared');
+    console.info(chalk.green(`Deleted ${count} cached LLM response(s)`));
+  } catch (error) {
+    const err = error as Error;
+    logger.error({ error: err.message, stack: err.stack }, 'LLM cache clear failed');
+
+    console.error(chalk.red('Error:'), err.message);
+    process.exit(1);
+  } finally {
+    closeDatabase();
+  }
+}
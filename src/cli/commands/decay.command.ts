@@ -0,0 +1,123 @@
+// Decay Command - Preview how a conversation's context fades over time
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { initializeDatabase, closeDatabase } from '@/database/client.js';
+import { stateRepository } from '@/database/repositories/index.js';
+import { logger } from '@/core/logger.js';
+import { decayStage } from '@/core/stages/decay.stage.js';
+import { conversationService } from '@/services/conversation.service.js';
+import type { ContextElement } from '@/types/index.js';
+
+interface SimulateOptions {
+  hours: string;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export function registerDecayCommand(program: Command): void {
+  const decayCmd = program.command('decay').description('Inspect context decay policies');
+
+  decayCmd
+    .command('simulate <conversationId>')
+    .description("Show how a conversation's context elements would look after N hours")
+    .requiredOption('--hours <n>', 'Hours from now to simulate')
+    .action(async (conversationId: string, options: SimulateOptions) => {
+      await executeSimulate(conversationId, options);
+    });
+}
+
+async function executeSimulate(idOrPrefix: string, options: SimulateOptions): Promise<void> {
+  try {
+    const hours = Number(options.hours);
+    if (!Number.isFinite(hours) || hours < 0) {
+      throw new Error(`--hours must be a non-negative number, got "${options.hours}"`);
+    }
+
+    await initializeDatabase();
+
+    const conversation = await conversationService.resolve(idOrPrefix);
+    const state = await stateRepository.getLatestByConversationId(conversation.id);
+    if (!state || state.contextElements.length === 0) {
+      console.info(chalk.gray(`No context elements stored for ${conversation.id}`));
+      return;
+    }
+
+    const now = new Date();
+    const later = new Date(now.getTime() + hours * HOUR_MS);
+    const current = decayStage.applyDecay(state, now);
+    const simulated = decayStage.applyDecay(state, later);
+
+    console.info(chalk.blue(`\n⏳ Context of ${conversation.id} in ${hours} hour(s)\n`));
+
+    console.info(chalk.bold('Policies'));
+    const types = [...new Set(state.contextElements.map((e) => e.contextType ?? 'general'))];
+    for (const type of types.sort()) {
+      const policy = decayStage.getPolicy(type);
+      console.info(
+        `  ${chalk.cyan(type.padEnd(12))} half-life ${policy.halfLifeHours}h · ` +
+          `floor ${policy.floorWeight} · reinforcement ×${policy.reinforcement} · ` +
+          `expiry ${policy.expiryHours !== undefined ? `${policy.expiryHours}h` : 'none'}`
+      );
+    }
+
+    console.info(
+      chalk.bold(
+        `\n${'Key'.padEnd(24)} ${'Type'.padEnd(12)} ${'Stored'.padStart(6)} ` +
+          `${'Now'.padStart(6)} ${`+${hours}h`.padStart(8)}`
+      )
+    );
+    for (const element of state.contextElements) {
+      const type = element.contextType ?? 'general';
+      console.info(
+        `${truncate(element.key, 24).padEnd(24)} ${type.padEnd(12)} ` +
+          `${element.weight.toFixed(2).padStart(6)} ` +
+          `${formatWeight(current.contextElements, element, 6, now)} ` +
+          `${formatWeight(simulated.contextElements, element, 8, later)}  ` +
+          chalk.gray(truncate(element.value, 40))
+      );
+    }
+
+    const remaining = simulated.contextElements.length;
+    const expiringGoals = state.goals.length - simulated.goals.length;
+    console.info(
+      chalk.gray(
+        `\n${remaining} of ${state.contextElements.length} element(s) remain after ${hours}h` +
+          (expiringGoals > 0 ? `; ${expiringGoals} goal(s) expire` : '')
+      )
+    );
+  } catch (error) {
+    const err = error as Error;
+    logger.error({ error: err.message, stack: err.stack }, 'Decay simulate failed');
+
+    console.error(chalk.red('Error:'), err.message);
+    process.exitCode = 1;
+  } finally {
+    closeDatabase();
+  }
+}
+
+/**
+ * The element's decayed weight, or why it is gone
+ */
+function formatWeight(
+  decayed: ContextElement[],
+  element: ContextElement,
+  width: number,
+  at: Date
+): string {
+  const match = decayed.find(
+    (e) => e.key === element.key && e.createdAt.getTime() === element.createdAt.getTime()
+  );
+  if (match) return match.weight.toFixed(2).padStart(width);
+
+  const { expiryHours } = decayStage.getPolicy(element.contextType);
+  const expired =
+    expiryHours !== undefined &&
+    at.getTime() - element.createdAt.getTime() >= expiryHours * HOUR_MS;
+  return chalk.red((expired ? 'expired' : 'faded').padStart(width));
+}
+
+function truncate(text: string, max: number): string {
+  const singleLine = text.replace(/\s+/g, ' ');
+  return singleLine.length > max ? `${singleLine.slice(0, max - 1)}…` : singleLine;
+}
@@ -0,0 +1,66 @@
+// Export Command - Write a conversation as Markdown, JSON or fine-tuning JSONL
+import { mkdir, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { initializeDatabase, closeDatabase } from '@/database/client.js';
+import { logger } from '@/core/logger.js';
+import { conversationService } from '@/services/conversation.service.js';
+import {
+  conversationExportService,
+  EXPORT_FORMATS,
+  type ExportFormat,
+} from '@/services/conversation-export.service.js';
+
+interface ExportOptions {
+  format: string;
+  output?: string;
+}
+
+export function registerExportCommand(program: Command): void {
+  program
+    .command('export <conversationId>')
+    .description('Export a conversation with its state, extracted data and goal progress')
+    .option('-f, --format <format>', `Output format (${EXPORT_FORMATS.join('|')})`, 'md')
+    .option('-o, --output <file>', 'Write to a file instead of stdout')
+    .action(async (conversationId: string, options: ExportOptions) => {
+      await executeExport(conversationId, options);
+    });
+}
+
+async function executeExport(conversationId: string, options: ExportOptions): Promise<void> {
+  try {
+    const format = options.format as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) {
+      throw new Error(`Unknown format "${options.format}". Use: ${EXPORT_FORMATS.join(', ')}`);
+    }
+
+    await initializeDatabase();
+
+    const conversation = await conversationService.resolve(conversationId);
+    const bundle = await conversationExportService.export(conversation.id);
+    const output = conversationExportService.format(bundle, format);
+
+    if (!options.output) {
+      process.stdout.write(output);
+      return;
+    }
+
+    await mkdir(dirname(options.output), { recursive: true });
+    await writeFile(options.output, output, 'utf-8');
+    console.info(
+      chalk.green(
+        `✓ Exported conversation ${conversation.id} (${bundle.messages.length} messages) ` +
+          `to ${options.output}`
+      )
+    );
+  } catch (error) {
+    const err = error as Error;
+    logger.error({ error: err.message, stack: err.stack }, 'Export command failed');
+
+    console.error(chalk.red('Error:'), err.message);
+    process.exitCode = 1;
+  } finally {
+    closeDatabase();
+  }
+}
@@ -0,0 +1,66 @@
+// Import Command - Load a JSON conversation export into the configured database
+import { readFile } from 'node:fs/promises';
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { initializeDatabase, closeDatabase } from '@/database/client.js';
+import { logger } from '@/core/logger.js';
+import { conversationExportService } from '@/services/conversation-export.service.js';
+
+interface ImportOptions {
+  user?: string;
+}
+
+export function registerImportCommand(program: Command): void {
+  program
+    .command('import <file>')
+    .description('Import a conversation exported with `export --format json` ("-" reads stdin)')
+    .option('-u, --user <id>', 'Import under this user instead of the original one')
+    .action(async (file: string, options: ImportOptions) => {
+      await executeImport(file, options);
+    });
+}
+
+async function executeImport(file: string, options: ImportOptions): Promise<void> {
+  try {
+    const content = await readInput(file);
+
+    let bundle: unknown;
+    try {
+      bundle = JSON.parse(content);
+    } catch {
+      throw new Error(
+        `${file} is not JSON; import reads files written by \`export --format json\``
+      );
+    }
+
+    await initializeDatabase();
+
+    const result = await conversationExportService.import(bundle, { userId: options.user });
+
+    console.info(chalk.green(`✓ Imported as conversation ${result.conversationId}`));
+    console.info(chalk.gray(`  User: ${result.userId}`));
+    for (const [table, count] of Object.entries(result.counts)) {
+      console.info(chalk.gray(`  ${table}: ${count}`));
+    }
+  } catch (error) {
+    const err = error as Error;
+    logger.error({ error: err.message, stack: err.stack }, 'Import command failed');
+
+    console.error(chalk.red('Error:'), err.message);
+    process.exitCode = 1;
+  } finally {
+    closeDatabase();
+  }
+}
+
+async function readInput(file: string): Promise<string> {
+  if (file !== '-') {
+    return readFile(file, 'utf-8');
+  }
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
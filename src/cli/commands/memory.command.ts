@@ -0,0 +1,143 @@
+// Memory Command - Inspect and forget what is remembered across conversations
+import { Command } from 'commander';
+import inquirer from 'inquirer';
+import chalk from 'chalk';
+import { initializeDatabase, closeDatabase } from '@/database/client.js';
+import { logger } from '@/core/logger.js';
+import { memoryService } from '@/services/memory.service.js';
+import type { MemoryKind } from '@/types/index.js';
+
+interface ListOptions {
+  user?: string;
+}
+
+interface ForgetOptions {
+  user?: string;
+  all?: boolean;
+  yes?: boolean;
+}
+
+const SHORT_ID_LENGTH = 8;
+
+export function registerMemoryCommand(program: Command): void {
+  const memoryCmd = program
+    .command('memory')
+    .description('Manage long-term memories carried into new conversations');
+
+  memoryCmd
+    .command('list')
+    .description('List what is remembered about a user, most recurring first')
+    .option('-u, --user <id>', 'User ID', 'cli-user')
+    .action(async (options: ListOptions) => {
+      await executeList(options);
+    });
+
+  memoryCmd
+    .command('forget [keyOrId]')
+    .description('Forget one memory (by key or ID prefix), or all of them with --all')
+    .option('-u, --user <id>', 'User ID', 'cli-user')
+    .option('--all', 'Forget every memory of the user', false)
+    .option('-y, --yes', 'Skip the confirmation prompt for --all', false)
+    .action(async (keyOrId: string | undefined, options: ForgetOptions) => {
+      await executeForget(keyOrId, options);
+    });
+}
+
+async function executeList(options: ListOptions): Promise<void> {
+  const userId = options.user ?? 'cli-user';
+
+  try {
+    await initializeDatabase();
+
+    const memories = await memoryService.list(userId);
+    if (memories.length === 0) {
+      console.info(chalk.gray(`Nothing remembered about ${userId}`));
+      return;
+    }
+
+    console.info(chalk.blue(`\n🧠 Memories of ${userId}\n`));
+    console.info(
+      chalk.bold(
+        `${'ID'.padEnd(SHORT_ID_LENGTH)}  ${'Kind'.padEnd(10)} ${'Convs'.padStart(5)}  ` +
+          `${'Source'.padEnd(10)} Memory`
+      )
+    );
+    for (const memory of memories) {
+      console.info(
+        `${chalk.cyan(memory.id.slice(0, SHORT_ID_LENGTH))}  ` +
+          `${formatKind(memory.kind, 10)} ` +
+          `${String(memory.conversationCount).padStart(5)}  ` +
+          `${memory.source.padEnd(10)} ` +
+          `${truncate(memory.content, 80)} ${chalk.gray(`(${memory.key})`)}`
+      );
+    }
+
+    console.info(
+      chalk.gray(`\n${memories.length} memory(ies). Remove one with \`memory forget <key|id>\`.`)
+    );
+  } catch (error) {
+    const err = error as Error;
+    logger.error({ error: err.message, stack: err.stack }, 'Memory list failed');
+
+    console.error(chalk.red('Error:'), err.message);
+    process.exitCode = 1;
+  } finally {
+    closeDatabase();
+  }
+}
+
+async function executeForget(keyOrId: string | undefined, options: ForgetOptions): Promise<void> {
+  const userId = options.user ?? 'cli-user';
+
+  try {
+    if (!keyOrId && !options.all) {
+      throw new Error('Give a memory key or ID, or --all');
+    }
+
+    await initializeDatabase();
+
+    if (keyOrId) {
+      const memory = await memoryService.forget(userId, keyOrId);
+      console.info(chalk.green(`✓ Forgot "${truncate(memory.content, 60)}" (${memory.key})`));
+      return;
+    }
+
+    if (!options.yes) {
+      const { confirmed } = await inquirer.prompt([
+        {
+          type: 'confirm',
+          name: 'confirmed',
+          message: `Forget everything remembered about ${userId}? This cannot be undone.`,
+          default: false,
+        },
+      ]);
+      if (!confirmed) {
+        console.info(chalk.gray('Cancelled'));
+        return;
+      }
+    }
+
+    const count = await memoryService.forgetAll(userId);
+    console.info(chalk.green(`✓ Forgot ${count} memory(ies) of ${userId}`));
+  } catch (error) {
+    const err = error as Error;
+    logger.error({ error: err.message, stack: err.stack }, 'Memory forget failed');
+
+    console.error(chalk.red('Error:'), err.message);
+    process.exitCode = 1;
+  } finally {
+    closeDatabase();
+  }
+}
+
+function formatKind(kind: MemoryKind, width = 0): string {
+  const padded = kind.padEnd(width);
+  if (kind === 'concern') return chalk.yellow(padded);
+  if (kind === 'preference') return chalk.magenta(padded);
+  return padded;
+}
+
+function truncate(text: string, max: number): string {
+  const singleLine = text.replace(/\s+/g, ' ');
+  return singleLine.length > max ? `${singleLine.slice(0, max - 1)}…` : singleLine;
+}
@@ -0,0 +1,104 @@
+// Search Command - Full-text search across conversation history
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { initializeDatabase, closeDatabase } from '@/database/client.js';
+import { logger } from '@/core/logger.js';
+import { searchService } from '@/services/search.service.js';
+import type { SearchHit } from '@/database/repositories/index.js';
+
+interface SearchOptions {
+  user?: string;
+  domain?: string;
+  messagesOnly?: boolean;
+  since?: string;
+  until?: string;
+  limit: string;
+  json?: boolean;
+}
+
+export function registerSearchCommand(program: Command): void {
+  program
+    .command('search <query...>')
+    .description('Search messages and extracted domain data (all words must match)')
+    .option('-u, --user <id>', 'Only this user')
+    .option('-d, --domain <id>', 'Only extracted data from this domain')
+    .option('-m, --messages-only', 'Only messages, not extracted data', false)
+    .option('--since <date>', 'On or after this date (e.g. 2025-01-31)')
+    .option('--until <date>', 'On or before this date')
+    .option('-l, --limit <n>', 'Maximum number of results', '20')
+    .option('--json', 'Print results as JSON')
+    .action(async (query: string[], options: SearchOptions) => {
+      await executeSearch(query.join(' '), options);
+    });
+}
+
+async function executeSearch(query: string, options: SearchOptions): Promise<void> {
+  try {
+    if (options.domain && options.messagesOnly) {
+      throw new Error('--domain and --messages-only cannot be combined');
+    }
+
+    await initializeDatabase();
+
+    const hits = await searchService.search(query, {
+      userId: options.user,
+      domainId: options.domain,
+      source: options.domain ? 'domain_data' : options.messagesOnly ? 'message' : undefined,
+      since: parseDate(options.since, '--since'),
+      until: parseDate(options.until, '--until', true),
+      limit: parseInt(options.limit, 10) || 20,
+    });
+
+    if (options.json) {
+      console.info(JSON.stringify(hits, null, 2));
+      return;
+    }
+
+    if (hits.length === 0) {
+      console.info(chalk.gray(`No matches for "${query}"`));
+      return;
+    }
+
+    console.info('');
+    for (const hit of hits) {
+      printHit(hit);
+    }
+    console.info(
+      chalk.gray(`${hits.length} match(es). Open one with \`conversations show <conversation>\`.`)
+    );
+  } catch (error) {
+    const err = error as Error;
+    logger.error({ error: err.message, stack: err.stack }, 'Search command failed');
+
+    console.error(chalk.red('Error:'), err.message);
+    process.exitCode = 1;
+  } finally {
+    closeDatabase();
+  }
+}
+
+function printHit(hit: SearchHit): void {
+  const origin =
+    hit.source === 'message' ? chalk.green(hit.role ?? 'message') : chalk.magenta(hit.domainId);
+  console.info(
+    `${chalk.gray(hit.createdAt.toLocaleString())} ${origin} ` +
+      chalk.gray(`· ${hit.userId} · conversation ${hit.conversationId.slice(0, 8)}`)
+  );
+  console.info(`  ${hit.snippet.replace(/\[([^\]]*)\]/g, (_, term) => chalk.yellow(term))}\n`);
+}
+
+/**
+ * Parse a --since/--until value; a bare date used as --until covers that whole day
+ */
+function parseDate(value: string | undefined, flag: string, endOfDay = false): Date | undefined {
+  if (!value) return undefined;
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date for ${flag}: "${value}"`);
+  }
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    date.setUTCHours(23, 59, 59, 999);
+  }
+  return date;
+}
@@ -0,0 +1,69 @@
+// Serve Command - HTTP API for web and mobile clients
+// Domains and tools are registered when the CLI loads chat.command
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { config } from '@/config/index.js';
+import { initializeDatabase, closeDatabase } from '@/database/client.js';
+import { logger } from '@/core/logger.js';
+import { traceExporter } from '@/core/telemetry/index.js';
+import { createApiServer } from '@/api/index.js';
+
+interface ServeOptions {
+  port?: string;
+  host?: string;
+}
+
+export function registerServeCommand(program: Command): void {
+  program
+    .command('serve')
+    .description('Start the HTTP API server')
+    .option('-p, --port <port>', 'Port to listen on', String(config.api.port))
+    .option('-H, --host <host>', 'Interface to bind', config.api.host)
+    .action(async (options: ServeOptions) => {
+      await executeServe(options);
+    });
+}
+
+async function executeServe(options: ServeOptions): Promise<void> {
+  const port = parseInt(options.port ?? String(config.api.port), 10);
+  const host = options.host ?? config.api.host;
+
+  try {
+    await initializeDatabase();
+  } catch (error) {
+    const err = error as Error;
+    logger.error({ error: err.message, stack: err.stack }, 'Serve command failed');
+    console.error(chalk.red('Error:'), err.message);
+    closeDatabase();
+    process.exitCode = 1;
+    return;
+  }
+
+  const server = createApiServer();
+
+  const shutdown = () => {
+    console.info(chalk.gray('\nShutting down...'));
+    server.close(async () => {
+      await traceExporter.flush();
+      closeDatabase();
+      process.exit(0);
+    });
+    // Idle keep-alive sockets would otherwise hold close() open
+    server.closeIdleConnections();
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+
+  server.on('error', (error) => {
+    logger.error({ error: error.message }, 'API server error');
+    console.error(chalk.red('Error:'), error.message);
+    closeDatabase();
+    process.exit(1);
+  });
+
+  server.listen(port, host, () => {
+    logger.info({ host, port }, 'API server listening');
+    console.info(chalk.blue(`🌐 API server listening on http://${host}:${port}`));
+    console.info(chalk.gray('Endpoint schemas: GET /api/schemas · Press Ctrl+C to stop\n'));
+  });
+}
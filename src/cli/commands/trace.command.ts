@@ -0,0 +1,247 @@
+// Trace Command - Explain a past turn from its persisted pipeline trace
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { initializeDatabase, closeDatabase } from '@/database/client.js';
+import { messageRepository, pipelineTraceRepository } from '@/database/repositories/index.js';
+import { logger } from '@/core/logger.js';
+import type { StageBreakdown } from '@/core/performance-tracker.js';
+import { MessageRole, type Message, type PipelineTrace } from '@/types/index.js';
+
+interface TraceOptions {
+  json?: boolean;
+  last?: string;
+}
+
+export function registerTraceCommand(program: Command): void {
+  program
+    .command('trace <id>')
+    .description('Show how a reply was produced (assistant message ID or conversation ID)')
+    .option('--last <n>', 'For a conversation, only show the last N turns')
+    .option('--json', 'Print the stored traces as JSON')
+    .action(async (id: string, options: TraceOptions) => {
+      await executeTrace(id, options);
+    });
+}
+
+async function executeTrace(id: string, options: TraceOptions): Promise<void> {
+  try {
+    await initializeDatabase();
+
+    // A message ID finds one turn; otherwise treat the ID as a conversation
+    const single = await pipelineTraceRepository.findByMessageId(id);
+    let traces = single ? [single] : await pipelineTraceRepository.findByConversationId(id);
+
+    if (traces.length === 0) {
+      console.error(chalk.red(`No pipeline trace found for ${id}`));
+      console.info(chalk.gray('Traces are saved for turns run with PIPELINE_TRACES_ENABLED=true.'));
+      process.exitCode = 1;
+      return;
+    }
+
+    if (options.last) {
+      traces = traces.slice(-parseInt(options.last, 10));
+    }
+
+    if (options.json) {
+      console.info(JSON.stringify(traces, null, 2));
+      return;
+    }
+
+    const messages = await messageRepository.findByConversationId(traces[0].conversationId, 1000);
+    for (const trace of traces) {
+      printTrace(trace, messages);
+    }
+  } catch (error) {
+    const err = error as Error;
+    logger.error({ error: err.message, stack: err.stack }, 'Trace command failed');
+
+    console.error(chalk.red('Error:'), err.message);
+    process.exitCode = 1;
+  } finally {
+    closeDatabase();
+  }
+}
+
+export function printTrace(trace: PipelineTrace, messages: Message[]): void {
+  // Messages are newest first; both messages of a turn can share a timestamp
+  const reply = messages.find((m) => m.id === trace.messageId);
+  const userMessage = reply
+    ? messages.find((m) => m.role === MessageRole.USER && m.timestamp <= reply.timestamp)
+    : undefined;
+
+  console.info(chalk.blue(`\n🔍 Turn ${trace.messageId}`));
+  console.info(
+    chalk.gray(
+      `Conversation ${trace.conversationId} · user ${trace.userId} · ` +
+        `${trace.createdAt.toISOString()} · trace ${trace.traceId}`
+    )
+  );
+  if (userMessage) console.info(`${chalk.green('User:')} ${truncate(userMessage.content, 200)}`);
+  if (reply) console.info(`${chalk.cyan('Assistant:')} ${truncate(reply.content, 200)}`);
+
+  printClassification(trace);
+  printDecision(trace);
+  printExtractions(trace);
+  printSteering(trace);
+  printRetrieval(trace);
+  printPerformance(trace);
+  console.info('');
+}
+
+function printClassification(trace: PipelineTrace): void {
+  const result = trace.classification;
+  console.info(chalk.bold('\nClassification'));
+  if (!result) {
+    console.info(chalk.gray('  (not recorded)'));
+    return;
+  }
+
+  const signals = result.safety.signals.length ? ` - ${result.safety.signals.join(', ')}` : '';
+  console.info(`  Safety:     ${result.safety.level} (${result.safety.suggestedTone})${signals}`);
+  console.info(
+    `  Intent:     ${result.intent.primary} → ${result.intent.suggestedMode} ` +
+      `(confidence ${result.confidence.toFixed(2)})`
+  );
+  if (result.intent.reasoning) {
+    console.info(chalk.gray(`              ${result.intent.reasoning}`));
+  }
+  if (result.intent.entities.length > 0) {
+    console.info(
+      `  Entities:   ${result.intent.entities.map((e) => `${e.type}=${e.value}`).join(', ')}`
+    );
+  }
+  console.info(`  Domains:    ${result.relevantDomains.join(', ') || 'none'}`);
+  if (result.multiIntent.isMultiIntent) {
+    console.info(
+      `  Multi:      ${result.multiIntent.detectedModes.join(' + ')}` +
+        (result.multiIntent.hasConflictingIntents ? ' (conflicting)' : '')
+    );
+  }
+}
+
+function printDecision(trace: PipelineTrace): void {
+  const decision = trace.decision;
+  console.info(chalk.bold('\nArbiter decision'));
+  if (!decision) {
+    console.info(chalk.gray('  (not recorded)'));
+    return;
+  }
+
+  console.info(
+    `  Mode:       ${decision.finalMode} (intent ${decision.finalIntent}, ` +
+      `confidence ${decision.confidence.toFixed(2)})`
+  );
+  console.info(
+    `  Safety:     ${decision.safetyContext.level}, tone ${decision.safetyContext.tone}` +
+      (decision.safetyContext.isCrisis ? chalk.red(' - CRISIS') : '')
+  );
+  console.info(
+    `  Override:   ${decision.overrideReason ? chalk.yellow(decision.overrideReason) : 'none'}`
+  );
+}
+
+function printExtractions(trace: PipelineTrace): void {
+  console.info(chalk.bold('\nExtractions'));
+  if (trace.extractions.length === 0) {
+    console.info(chalk.gray('  No relevant domains'));
+    return;
+  }
+
+  for (const extraction of trace.extractions) {
+    if (extraction.error) {
+      console.info(`  ${chalk.red('✗')} ${extraction.domainId}: ${chalk.red(extraction.error)}`);
+    } else if (!extraction.extracted) {
+      console.info(`  ${chalk.gray('-')} ${extraction.domainId}: nothing extracted`);
+    } else {
+      const confidence =
+        extraction.confidence !== undefined ? ` (${extraction.confidence.toFixed(2)})` : '';
+      console.info(`  ${chalk.green('✓')} ${extraction.domainId}${confidence}`);
+      console.info(chalk.gray(`      ${truncate(JSON.stringify(extraction.data), 300)}`));
+    }
+  }
+}
+
+function printSteering(trace: PipelineTrace): void {
+  if (trace.steering.length === 0) return;
+
+  console.info(chalk.bold('\nSteering'));
+  for (const steering of trace.steering) {
+    if (steering.error) {
+      console.info(`  ${chalk.red('✗')} ${steering.domainId}: ${chalk.red(steering.error)}`);
+      continue;
+    }
+    console.info(`  ${steering.domainId}:`);
+    for (const suggestion of steering.suggestions) {
+      console.info(chalk.gray(`    - ${suggestion}`));
+    }
+  }
+}
+
+function printRetrieval(trace: PipelineTrace): void {
+  if (trace.retrieval.length === 0) return;
+
+  console.info(chalk.bold('\nRetrieved facts'));
+  for (const fact of trace.retrieval) {
+    const origin = fact.source === 'message' ? 'message' : `${fact.domainId} data`;
+    const date = new Date(fact.createdAt).toISOString().slice(0, 10);
+    console.info(
+      `  ${fact.score.toFixed(2)}  ${origin} ${chalk.gray(`${date} · ${fact.sourceId.slice(0, 8)}`)}`
+    );
+    console.info(chalk.gray(`      ${truncate(fact.content, 200)}`));
+  }
+}
+
+function printPerformance(trace: PipelineTrace): void {
+  const report = trace.performance;
+  console.info(chalk.bold('\nStages'));
+  if (!report || report.totalDuration === 0) {
+    console.info(chalk.gray('  No timings (run with PERF_TRACKING=true to record them)'));
+    return;
+  }
+
+  console.info(`  Total: ${report.totalDuration}ms`);
+  printBreakdown(report.breakdown, '  ');
+
+  if (report.bottlenecks.length > 0) {
+    console.info(chalk.bold('\nBottlenecks'));
+    report.bottlenecks.forEach((b, i) => {
+      console.info(`  ${i + 1}. ${b.name} (${b.duration}ms) - ${b.percentage.toFixed(1)}%`);
+    });
+  }
+
+  const llmSpans = report.spans.filter((span) => span.name.startsWith('llm.'));
+  if (llmSpans.length > 0) {
+    console.info(chalk.bold('\nLLM calls'));
+    for (const span of llmSpans) {
+      const attrs = span.attributes || {};
+      const tokens =
+        attrs.totalTokens !== undefined
+          ? ` ${attrs.promptTokens}→${attrs.completionTokens} tokens`
+          : '';
+      const error = attrs.error ? chalk.red(' error') : '';
+      console.info(
+        `  ${String(attrs.stage ?? 'other').padEnd(12)} ${String(attrs.responseModel ?? attrs.model).padEnd(20)} ` +
+          `${span.duration ?? 0}ms${tokens}${error}`
+      );
+    }
+  }
+}
+
+function printBreakdown(breakdown: StageBreakdown[], indent: string): void {
+  breakdown.forEach((stage, index) => {
+    const isLast = index === breakdown.length - 1;
+    const parallel = stage.isParallel ? ' [parallel]' : '';
+    console.info(
+      `${indent}${isLast ? '└─' : '├─'} ${stage.name}: ${stage.duration}ms ` +
+        `(${stage.percentage.toFixed(1)}%)${parallel}`
+    );
+    if (stage.children?.length) {
+      printBreakdown(stage.children, indent + (isLast ? '   ' : '│  '));
+    }
+  });
+}
+
+function truncate(text: string, max: number): string {
+  const singleLine = text.replace(/\s+/g, ' ');
+  return singleLine.length > max ? `${singleLine.slice(0, max - 1)}…` : singleLine;
+}
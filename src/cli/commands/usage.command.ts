@@ -0,0 +1,98 @@
+// Usage Command - Token usage and estimated cost reports
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { initializeDatabase, closeDatabase } from '@/database/client.js';
+import { logger } from '@/core/logger.js';
+import { usageService, type UsageGroupBy, type UsageReportRow } from '@/services/usage.service.js';
+
+interface UsageOptions {
+  by: string;
+  user?: string;
+  conversation?: string;
+  days?: string;
+}
+
+const GROUP_BY_OPTIONS: UsageGroupBy[] = ['user', 'conversation', 'stage', 'day'];
+
+export function registerUsageCommand(program: Command): void {
+  program
+    .command('usage')
+    .description('Report token usage and estimated cost')
+    .option('-b, --by <dimension>', `Group by: ${GROUP_BY_OPTIONS.join(', ')}`, 'day')
+    .option('-u, --user <id>', 'Only include this user')
+    .option('-c, --conversation <id>', 'Only include this conversation')
+    .option('--days <n>', 'Only include the last N days')
+    .action(async (options: UsageOptions) => {
+      await executeUsage(options);
+    });
+}
+
+async function executeUsage(options: UsageOptions): Promise<void> {
+  const groupBy = options.by as UsageGroupBy;
+  if (!GROUP_BY_OPTIONS.includes(groupBy)) {
+    console.error(chalk.red(`Invalid --by value: ${options.by}`));
+    console.info(chalk.gray(`Expected one of: ${GROUP_BY_OPTIONS.join(', ')}`));
+    process.exit(1);
+  }
+
+  try {
+    await initializeDatabase();
+
+    const report = await usageService.getReport(groupBy, {
+      userId: options.user,
+      conversationId: options.conversation,
+      days: options.days ? parseInt(options.days, 10) : undefined,
+    });
+
+    console.info(chalk.blue(`\n📊 Token Usage by ${groupBy}\n`));
+
+    if (report.rows.length === 0) {
+      console.info(chalk.gray('No usage recorded for the selected filters.\n'));
+      return;
+    }
+
+    printRow(
+      [groupBy.toUpperCase(), 'TURNS', 'CALLS', 'PROMPT', 'COMPLETION', 'TOTAL', 'COST (USD)'],
+      chalk.bold
+    );
+    for (const row of report.rows) {
+      printRow(formatRow(row));
+    }
+    console.info(chalk.gray('─'.repeat(100)));
+    printRow(formatRow(report.totals), chalk.bold);
+
+    if (groupBy === 'stage') {
+      console.info(chalk.gray('\nTurns are counted once per stage that made calls during them.'));
+    }
+    console.info(
+      chalk.gray('Costs are estimates based on the pricing table in src/config/pricing.ts')
+    );
+    console.info('');
+  } catch (error) {
+    const err = error as Error;
+    logger.error({ error: err.message, stack: err.stack }, 'Usage report failed');
+
+    console.error(chalk.red('Error:'), err.message);
+    process.exit(1);
+  } finally {
+    closeDatabase();
+  }
+}
+
+function formatRow(row: UsageReportRow): string[] {
+  return [
+    row.key,
+    String(row.messages),
+    String(row.calls),
+    row.promptTokens.toLocaleString(),
+    row.completionTokens.toLocaleString(),
+    row.totalTokens.toLocaleString(),
+    `$${row.costUsd.toFixed(4)}`,
+  ];
+}
+
+function printRow(cells: string[], style: (text: string) => string = (text) => text): void {
+  const [key, ...values] = cells;
+  const line = [key!.padEnd(38), ...values.map((v) => v.padStart(10))].join(' ');
+  console.info(style(line));
+}
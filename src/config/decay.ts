@@ -0,0 +1,56 @@
+// Decay policies - how fast context elements fade, by context type
+// Defaults live in DEFAULT_DECAY_CONFIG; a JSON file at DECAY_CONFIG_PATH overrides them
+
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+import { DEFAULT_DECAY_CONFIG, type DecayConfig } from '@/types/state.js';
+
+const policySchema = z
+  .object({
+    halfLifeHours: z.number().positive(),
+    floorWeight: z.number().min(0).max(1),
+    reinforcement: z.number().min(1),
+    expiryHours: z.number().positive(),
+  })
+  .strict()
+  .partial();
+
+const decayFileSchema = z
+  .object({
+    policies: z.record(z.string(), policySchema),
+    removeBelowWeight: z.number().min(0).max(1),
+    goalExpiryDays: z.number().positive(),
+    staleThresholdMinutes: z.number().positive(),
+  })
+  .strict()
+  .partial();
+
+/**
+ * Defaults with the file's settings on top; a policy in the file only replaces the fields it sets
+ * @throws Error if the file can't be read or doesn't match the schema
+ */
+export function loadDecayConfig(path?: string): DecayConfig {
+  if (!path) return DEFAULT_DECAY_CONFIG;
+
+  let file: z.infer<typeof decayFileSchema>;
+  try {
+    file = decayFileSchema.parse(JSON.parse(readFileSync(path, 'utf-8')));
+  } catch (error) {
+    const detail =
+      error instanceof z.ZodError
+        ? error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join(', ')
+        : (error as Error).message;
+    throw new Error(`Invalid decay config ${path}: ${detail}`);
+  }
+
+  const policies: DecayConfig['policies'] = { ...DEFAULT_DECAY_CONFIG.policies };
+  for (const [type, policy] of Object.entries(file.policies ?? {})) {
+    policies[type] = { ...policies[type], ...policy };
+  }
+
+  return {
+    ...DEFAULT_DECAY_CONFIG,
+    ...file,
+    policies,
+  };
+}
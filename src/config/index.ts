@@ -4,11 +4,17 @@ import { z } from 'zod';
 import type { AppConfig } from '@/types/index.js';
 
 // Load environment variables
-loadEnv();
+loadEnv({ quiet: true }); // dotenv 17 otherwise prints a banner to stdout
 
 // Environment variable schema
 const envSchema = z.object({
-  OPENAI_API_KEY: z.string().min(1, 'OPENAI_API_KEY is required'),
+  OPENAI_API_KEY: z.string().optional(), // Required for the openai provider (see refinements below)
+  // LLM provider selection: hosted OpenAI, OpenAI-compatible local server, or scripted replies
+  LLM_PROVIDER: z.enum(['openai', 'local', 'scripted']).default('openai'),
+  LLM_BASE_URL: z.string().optional(), // e.g. http://localhost:11434/v1 for Ollama
+  LLM_SCRIPT_PATH: z.string().optional(), // JSON script for the scripted provider
+  LLM_CASSETTE_MODE: z.enum(['off', 'record', 'replay']).default('off'),
+  LLM_CASSETTE_PATH: z.string().default('./cassettes/llm-cassette.json'),
   DATABASE_PATH: z.string().default('./data/assistant.db'),
   NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
   // Separate log levels for console and file
@@ -21,11 +27,32 @@ const envSchema = z.object({
   LLM_MAX_TOKENS: z.string().default('4096'),
   LLM_TEMPERATURE: z.string().default('0.7'),
   LLM_TIMEOUT: z.string().default('30000'),
+  LLM_MAX_RETRIES: z.string().default('2'), // Retries per model for 408/409/429/5xx and network errors
+  LLM_RETRY_BASE_DELAY_MS: z.string().default('500'),
+  LLM_RETRY_MAX_DELAY_MS: z.string().default('8000'),
+  LLM_FALLBACK_MODELS: z.string().optional(), // Comma-separated, tried in order; defaults to LLM_MODEL
+  // Send extractor Zod schemas as strict JSON schemas (disable for endpoints without support)
+  LLM_STRUCTURED_OUTPUTS: z
+    .string()
+    .optional()
+    .default('true')
+    .transform((val) => val === 'true'),
   CONTEXT_MESSAGE_LIMIT: z.string().default('10'),
+  // Prompt token budgets (estimated locally) per call site
+  PROMPT_BUDGET_HANDLER_TOKENS: z.string().default('3000'),
+  PROMPT_BUDGET_CLASSIFIER_TOKENS: z.string().default('800'),
+  PROMPT_BUDGET_EXTRACTOR_TOKENS: z.string().default('1500'),
   LLM_VERBOSE_LOGGING: z
     .string()
     .optional()
     .transform((val) => val === 'true'),
+  // LLM Response Cache (JSON-mode calls only)
+  LLM_CACHE_ENABLED: z
+    .string()
+    .optional()
+    .default('false')
+    .transform((val) => val === 'true'),
+  LLM_CACHE_TTL_SECONDS: z.string().default('86400'), // 24 hours
   // Domain History Configuration
   DOMAIN_HISTORY_ENABLED: z
     .string()
@@ -34,21 +61,101 @@ const envSchema = z.object({
     .transform((val) => val === 'true'),
   DOMAIN_HISTORY_DAYS: z.string().default('7'),
   DOMAIN_HISTORY_LIMIT: z.string().default('10'),
+  // Past messages and domain data pulled into CONSULT prompts (full-text search)
+  SEARCH_RETRIEVAL_ENABLED: z
+    .string()
+    .optional()
+    .default('true')
+    .transform((val) => val === 'true'),
+  SEARCH_RETRIEVAL_LIMIT: z.string().default('3'),
+  // JSON file of decay policies overriding the defaults (see src/config/decay.ts)
+  DECAY_CONFIG_PATH: z.string().optional(),
+  // Local TF-IDF retrieval of past facts for handler prompts
+  SEMANTIC_RETRIEVAL_ENABLED: z
+    .string()
+    .optional()
+    .default('true')
+    .transform((val) => val === 'true'),
+  SEMANTIC_RETRIEVAL_TOP_K: z.string().default('5'),
+  SEMANTIC_RETRIEVAL_MIN_SCORE: z.string().default('0.1'), // Cosine similarity, 0-1
+  // Long-term user memory carried into new conversations
+  MEMORY_ENABLED: z
+    .string()
+    .optional()
+    .default('true')
+    .transform((val) => val === 'true'),
+  MEMORY_PROMOTION_WEIGHT: z.string().default('0.9'), // Context element weight needed to remember
+  MEMORY_RECALL_LIMIT: z.string().default('10'),
+  // Rolling summaries of turns older than CONTEXT_MESSAGE_LIMIT
+  SUMMARY_ENABLED: z
+    .string()
+    .optional()
+    .default('true')
+    .transform((val) => val === 'true'),
+  SUMMARY_BATCH_MESSAGES: z.string().default('6'), // Messages past the window before summarizing
+  SUMMARY_MAX_TOKENS: z.string().default('300'),
+  // Persist classification, decisions, extractions and timings per turn (trace command)
+  PIPELINE_TRACES_ENABLED: z
+    .string()
+    .optional()
+    .default('true')
+    .transform((val) => val === 'true'),
+  // Trace export (OTLP/JSON) for Jaeger and other OpenTelemetry tooling
+  OTEL_TRACES_EXPORTER: z.enum(['none', 'file', 'otlp']).default('none'),
+  OTEL_EXPORTER_OTLP_ENDPOINT: z.string().default('http://localhost:4318'), // /v1/traces is appended
+  OTEL_TRACES_FILE: z.string().default('./logs/traces.jsonl'),
+  OTEL_SERVICE_NAME: z.string().default('ai-assistant'),
+  // HTTP API (serve command)
+  API_PORT: z.string().default('3000'),
+  API_HOST: z.string().default('127.0.0.1'),
+  API_CORS_ORIGIN: z.string().optional(), // e.g. http://localhost:5173 or *
 });
 
+// Provider-specific requirements
+const providerEnvSchema = envSchema
+  .refine(
+    // Replaying a cassette never reaches the provider, so no key is needed
+    (env) =>
+      env.LLM_PROVIDER !== 'openai' || env.LLM_CASSETTE_MODE === 'replay' || !!env.OPENAI_API_KEY,
+    {
+      message: 'OPENAI_API_KEY is required when LLM_PROVIDER=openai',
+      path: ['OPENAI_API_KEY'],
+    }
+  )
+  .refine((env) => env.LLM_PROVIDER !== 'local' || !!env.LLM_BASE_URL, {
+    message: 'LLM_BASE_URL is required when LLM_PROVIDER=local',
+    path: ['LLM_BASE_URL'],
+  });
+
 // Parse and validate environment variables
-const env = envSchema.parse(process.env);
+const env = providerEnvSchema.parse(process.env);
 
 // Export typed configuration
 export const config: AppConfig = {
   openai: {
-    apiKey: env.OPENAI_API_KEY,
+    provider: env.LLM_PROVIDER,
+    apiKey: env.OPENAI_API_KEY || '',
+    baseUrl: env.LLM_BASE_URL,
+    scriptPath: env.LLM_SCRIPT_PATH,
+    cassetteMode: env.LLM_CASSETTE_MODE,
+    cassettePath: env.LLM_CASSETTE_PATH,
     model: env.LLM_MODEL,
     classifierModel: env.LLM_CLASSIFIER_MODEL || env.LLM_MODEL, // Falls back to LLM_MODEL if not set
     extractorModel: env.LLM_EXTRACTOR_MODEL || env.LLM_MODEL, // Falls back to LLM_MODEL if not set
     maxTokens: parseInt(env.LLM_MAX_TOKENS, 10),
     temperature: parseFloat(env.LLM_TEMPERATURE),
     timeout: parseInt(env.LLM_TIMEOUT, 10),
+    retry: {
+      maxRetries: parseInt(env.LLM_MAX_RETRIES, 10),
+      baseDelayMs: parseInt(env.LLM_RETRY_BASE_DELAY_MS, 10),
+      maxDelayMs: parseInt(env.LLM_RETRY_MAX_DELAY_MS, 10),
+    },
+    // e.g. classifier model fails → retry the request on LLM_MODEL
+    fallbackModels: (env.LLM_FALLBACK_MODELS ?? env.LLM_MODEL)
+      .split(',')
+      .map((m) => m.trim())
+      .filter(Boolean),
+    structuredOutputs: env.LLM_STRUCTURED_OUTPUTS,
   },
   database: {
     path: env.DATABASE_PATH,
@@ -62,11 +169,56 @@ export const config: AppConfig = {
   context: {
     messageLimit: parseInt(env.CONTEXT_MESSAGE_LIMIT, 10),
   },
+  promptBudget: {
+    handler: parseInt(env.PROMPT_BUDGET_HANDLER_TOKENS, 10),
+    classifier: parseInt(env.PROMPT_BUDGET_CLASSIFIER_TOKENS, 10),
+    extractor: parseInt(env.PROMPT_BUDGET_EXTRACTOR_TOKENS, 10),
+  },
+  llmCache: {
+    enabled: env.LLM_CACHE_ENABLED,
+    ttlSeconds: parseInt(env.LLM_CACHE_TTL_SECONDS, 10),
+  },
   domainHistory: {
     enabled: env.DOMAIN_HISTORY_ENABLED,
     days: parseInt(env.DOMAIN_HISTORY_DAYS, 10),
     limit: parseInt(env.DOMAIN_HISTORY_LIMIT, 10),
   },
+  search: {
+    retrievalEnabled: env.SEARCH_RETRIEVAL_ENABLED,
+    retrievalLimit: parseInt(env.SEARCH_RETRIEVAL_LIMIT, 10),
+  },
+  decay: {
+    configPath: env.DECAY_CONFIG_PATH,
+  },
+  semanticRetrieval: {
+    enabled: env.SEMANTIC_RETRIEVAL_ENABLED,
+    topK: parseInt(env.SEMANTIC_RETRIEVAL_TOP_K, 10),
+    minScore: parseFloat(env.SEMANTIC_RETRIEVAL_MIN_SCORE),
+  },
+  memory: {
+    enabled: env.MEMORY_ENABLED,
+    promotionWeight: parseFloat(env.MEMORY_PROMOTION_WEIGHT),
+    recallLimit: parseInt(env.MEMORY_RECALL_LIMIT, 10),
+  },
+  summary: {
+    enabled: env.SUMMARY_ENABLED,
+    batchMessages: parseInt(env.SUMMARY_BATCH_MESSAGES, 10),
+    maxTokens: parseInt(env.SUMMARY_MAX_TOKENS, 10),
+  },
+  pipelineTraces: {
+    enabled: env.PIPELINE_TRACES_ENABLED,
+  },
+  telemetry: {
+    exporter: env.OTEL_TRACES_EXPORTER,
+    endpoint: env.OTEL_EXPORTER_OTLP_ENDPOINT.replace(/\/+$/, ''),
+    filePath: env.OTEL_TRACES_FILE,
+    serviceName: env.OTEL_SERVICE_NAME,
+  },
+  api: {
+    port: parseInt(env.API_PORT, 10),
+    host: env.API_HOST,
+    corsOrigin: env.API_CORS_ORIGIN,
+  },
 };
 
 export default config;
@@ -0,0 +1,50 @@
+// Model pricing - USD per 1M tokens, used for cost estimates in usage reports
+// Prices change; treat the resulting figures as estimates, not billing data
+
+export interface ModelPricing {
+  inputPer1M: number;
+  outputPer1M: number;
+}
+
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  'gpt-4o': { inputPer1M: 2.5, outputPer1M: 10 },
+  'gpt-4o-mini': { inputPer1M: 0.15, outputPer1M: 0.6 },
+  'gpt-4.1': { inputPer1M: 2, outputPer1M: 8 },
+  'gpt-4.1-mini': { inputPer1M: 0.4, outputPer1M: 1.6 },
+  'gpt-4.1-nano': { inputPer1M: 0.1, outputPer1M: 0.4 },
+  'gpt-4-turbo': { inputPer1M: 10, outputPer1M: 30 },
+  'gpt-3.5-turbo': { inputPer1M: 0.5, outputPer1M: 1.5 },
+  o1: { inputPer1M: 15, outputPer1M: 60 },
+  'o3-mini': { inputPer1M: 1.1, outputPer1M: 4.4 },
+};
+
+/**
+ * Look up pricing for a model, matching dated snapshots to their base model
+ * (e.g. gpt-4o-2024-08-06 → gpt-4o). Longest matching prefix wins.
+ */
+export function getModelPricing(model: string): ModelPricing | undefined {
+  if (MODEL_PRICING[model]) return MODEL_PRICING[model];
+
+  const prefix = Object.keys(MODEL_PRICING)
+    .filter((name) => model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return prefix ? MODEL_PRICING[prefix] : undefined;
+}
+
+/**
+ * Estimated cost in USD; unknown models (local, scripted) cost 0
+ */
+export function estimateCost(
+  model: string,
+  promptTokens: number,
+  completionTokens: number
+): number {
+  const pricing = getModelPricing(model);
+  if (!pricing) return 0;
+
+  return (
+    (promptTokens / 1_000_000) * pricing.inputPer1M +
+    (completionTokens / 1_000_000) * pricing.outputPer1M
+  );
+}
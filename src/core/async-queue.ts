@@ -0,0 +1,71 @@
+// Async Queue - Push-based producer feeding a pull-based async iterator
+// Bridges callback-style token emission into `for await` consumers
+
+export class AsyncQueue<T> implements AsyncIterable<T> {
+  private items: T[] = [];
+  private waiters: Array<{
+    resolve: (result: IteratorResult<T>) => void;
+    reject: (error: Error) => void;
+  }> = [];
+  private closed = false;
+  private error: Error | null = null;
+
+  /**
+   * Enqueue a value, handing it straight to a waiting consumer if there is one
+   */
+  push(item: T): void {
+    if (this.closed) return;
+
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      waiter.resolve({ value: item, done: false });
+    } else {
+      this.items.push(item);
+    }
+  }
+
+  /**
+   * Mark the end of the stream; buffered items are still delivered
+   */
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+
+    for (const waiter of this.waiters.splice(0)) {
+      waiter.resolve({ value: undefined, done: true });
+    }
+  }
+
+  /**
+   * End the stream with an error, surfaced to the consumer after buffered items
+   */
+  fail(error: Error): void {
+    if (this.closed) return;
+    this.error = error;
+    this.closed = true;
+
+    for (const waiter of this.waiters.splice(0)) {
+      waiter.reject(error);
+    }
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<T> {
+    return {
+      next: (): Promise<IteratorResult<T>> => {
+        if (this.items.length > 0) {
+          return Promise.resolve({ value: this.items.shift() as T, done: false });
+        }
+        if (this.error) {
+          return Promise.reject(this.error);
+        }
+        if (this.closed) {
+          return Promise.resolve({ value: undefined, done: true });
+        }
+
+        return new Promise((resolve, reject) => {
+          this.waiters.push({ resolve, reject });
+        });
+      },
+    };
+  }
+}
@@ -11,13 +11,18 @@ export class Arbiter {
    * 1. CRISIS safety → Force CONSULT mode + crisis response
    * 2. CONCERN safety → Force CONSULT mode + empathetic tone
    * 3. SAFE → Use intent classifier's suggested mode
+   *
+   * A forced mode replaces the suggested mode; safety tone and crisis handling still apply
    */
   async arbitrate(input: ArbiterInput): Promise<ArbiterDecision> {
+    const suggestedMode = input.forcedMode ?? input.intentResult.suggestedMode;
+
     logger.debug(
       {
         safetyLevel: input.safetyResult.level,
         safetyConfidence: input.safetyResult.confidence,
         suggestedMode: input.intentResult.suggestedMode,
+        forcedMode: input.forcedMode,
         intentConfidence: input.intentResult.confidence,
       },
       'Arbiter: Starting decision process'
@@ -26,7 +31,7 @@ export class Arbiter {
     // Rule 1: CRISIS safety - highest priority
     if (input.safetyResult.level === SafetyLevel.CRISIS) {
       const decision: ArbiterDecision = {
-        finalMode: input.intentResult.suggestedMode, // Keep suggested mode but flag crisis
+        finalMode: suggestedMode, // Keep suggested mode but flag crisis
         finalIntent: input.intentResult.intent,
         safetyContext: {
           level: SafetyLevel.CRISIS,
@@ -54,7 +59,7 @@ export class Arbiter {
     // Rule 2: CONCERN safety - medium priority
     if (input.safetyResult.level === SafetyLevel.CONCERN) {
       const decision: ArbiterDecision = {
-        finalMode: input.intentResult.suggestedMode, // Keep suggested mode but adjust tone
+        finalMode: suggestedMode, // Keep suggested mode but adjust tone
         finalIntent: input.intentResult.intent,
         safetyContext: {
           level: SafetyLevel.CONCERN,
@@ -80,13 +85,14 @@ export class Arbiter {
 
     // Rule 3: SAFE - use intent classifier result
     const decision: ArbiterDecision = {
-      finalMode: input.intentResult.suggestedMode,
+      finalMode: suggestedMode,
       finalIntent: input.intentResult.intent,
       safetyContext: {
         level: SafetyLevel.SAFE,
         tone: 'normal',
         isCrisis: false,
       },
+      overrideReason: input.forcedMode ? `User forced mode: ${input.forcedMode}` : undefined,
       confidence: input.intentResult.confidence,
       timestamp: new Date(),
     };
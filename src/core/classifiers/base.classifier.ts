@@ -69,10 +69,24 @@ export abstract class BaseClassifier<
         );
       }
 
-      const response = await llmService.generateResponse([], prompt, {
+      // JSON mode keeps output parseable and makes repeated prompts cacheable; only a
+      // reply that parses is cached, and the one that is returned is parsed last
+      let parsedResult: TResult | undefined;
+      const response = await llmService.generateFromMessages([{ role: 'user', content: prompt }], {
+        stage: 'classifier',
         model: options.model ?? config.openai.classifierModel, // Use classifier-specific model
         maxTokens: 500,
         temperature: 0.1,
+        responseFormat: { type: 'json_object' },
+        validate: (reply) => {
+          try {
+            parsedResult = this.parseResponse(reply);
+            return true;
+          } catch {
+            parsedResult = undefined;
+            return false;
+          }
+        },
       });
 
       // Verbose logging of response
@@ -88,7 +102,7 @@ export abstract class BaseClassifier<
         );
       }
 
-      const result = this.parseResponse(response);
+      const result = parsedResult ?? this.parseResponse(response);
       const duration = Date.now() - startTime;
 
       // Verbose logging of parsed result
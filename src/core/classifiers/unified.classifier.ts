@@ -12,6 +12,8 @@
 
 import { BaseClassifier } from './base.classifier.js';
 import { logger } from '@/core/logger.js';
+import { PromptBudget } from '@/core/prompt-budget.js';
+import { config } from '@/config/index.js';
 import { domainRegistry } from '@/core/domains/registries/index.js';
 import { ConversationMode } from '@/types/modes.js';
 import {
@@ -154,15 +156,23 @@ export class UnifiedClassifier extends BaseClassifier<
   }
 
   protected buildPrompt(input: UnifiedClassificationInput): string {
-    // Get last 2 messages only (reduced from 5)
-    const context =
-      input.recentMessages.length > 0
-        ? input.recentMessages
-            .slice(-2)
-            .map((m) => `${m.role}: ${m.content.substring(0, 100)}`)
-            .join(' | ')
-        : '';
+    // Recent messages fill whatever the fixed prompt leaves of the classifier budget,
+    // newest first and each cut short - the classifier only needs the gist
+    const budget = new PromptBudget('classifier.unified', config.promptBudget.classifier);
+    const { sections } = budget.allocate([
+      { name: 'prompt', items: [this.renderPrompt(input, '')], required: true },
+      {
+        name: 'history',
+        items: [...input.recentMessages].reverse().map((m) => `${m.role}: ${m.content}`),
+        maxTokens: 120,
+        itemMaxTokens: 25,
+      },
+    ]);
+
+    return this.renderPrompt(input, (sections.history ?? []).reverse().join(' | '));
+  }
 
+  private renderPrompt(input: UnifiedClassificationInput, context: string): string {
     // Get domain IDs only (not descriptions)
     const domains = domainRegistry.getActiveDomains();
     const domainIds = domains.map((d) => d.id).join('|');
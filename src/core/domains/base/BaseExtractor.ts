@@ -2,8 +2,11 @@
 import { z } from 'zod';
 import { config } from '@/config/index.js';
 import { logger } from '@/core/logger.js';
-import { llmService } from '@/core/llm.service.js';
+import { llmService, type LLMOptions } from '@/core/llm.service.js';
 import { performanceTracker } from '@/core/performance-tracker.js';
+import { PromptBudget } from '@/core/prompt-budget.js';
+import { buildStructuredOutput, type StructuredOutput } from '@/core/structured-output.js';
+import type { LLMMessage } from '@/core/providers/index.js';
 import type { ExtractedData, ExtractionContext } from '../types.js';
 
 /**
@@ -13,6 +16,7 @@ import type { ExtractedData, ExtractionContext } from '../types.js';
 export abstract class BaseExtractor {
   abstract domainId: string;
   abstract schema: z.ZodSchema;
+  private structuredOutput?: StructuredOutput | null;
 
   /**
    * Extract domain-specific data from a message
@@ -20,13 +24,24 @@ export abstract class BaseExtractor {
    * @param context - Additional context for extraction
    * @returns Extracted data or null if nothing relevant found
    */
-  async extract(message: string, context: ExtractionContext): Promise<ExtractedData | null> {
+  async extract(message: string, rawContext: ExtractionContext): Promise<ExtractedData | null> {
     try {
       const startTime = Date.now();
 
       // Start performance tracking for this extractor
       const extractorSpan = performanceTracker.startSpan(`extractor.${this.domainId}`);
 
+      // Size the history against the prompt it will be embedded in
+      const basePrompt = this.buildExtractionPrompt(message, { ...rawContext, recentMessages: [] });
+      const context: ExtractionContext = {
+        ...rawContext,
+        recentMessages: this.fitRecentMessages(
+          `extractor.${this.domainId}`,
+          [basePrompt, message],
+          rawContext.recentMessages
+        ),
+      };
+
       const prompt = this.buildExtractionPrompt(message, context);
 
       // Verbose logging for debugging
@@ -53,26 +68,39 @@ export abstract class BaseExtractor {
         );
       }
 
-      // Use llmService for structured output
-      const content = await llmService.generateFromMessages(
-        [
-          {
-            role: 'system',
-            content:
-              prompt + '\n\nReturn your response as valid JSON matching the expected schema.',
-          },
-          {
-            role: 'user',
-            content: message,
-          },
-        ],
+      // Strict JSON schema from the Zod schema when supported, plain JSON mode otherwise
+      const structured = this.getStructuredOutput();
+      const messages: LLMMessage[] = [
         {
-          model: config.openai.extractorModel, // Use configured extractor model
-          responseFormat: { type: 'json_object' },
-          temperature: 0.1, // Lower temperature for more consistent extraction
-          maxTokens: 1000,
+          role: 'system',
+          content: prompt + '\n\nReturn your response as valid JSON matching the expected schema.',
+        },
+        {
+          role: 'user',
+          content: message,
+        },
+      ];
+      // Each reply is validated once, whether the cache or this method asks first
+      const validations = new Map<string, ReturnType<typeof this.parseAndValidate>>();
+      const validate = (reply: string) => {
+        if (!validations.has(reply)) {
+          validations.set(reply, this.parseAndValidate(reply, structured));
         }
-      );
+        return validations.get(reply)!;
+      };
+
+      const llmOptions: LLMOptions = {
+        stage: 'extractor',
+        model: config.openai.extractorModel, // Use configured extractor model
+        responseFormat: structured?.responseFormat ?? { type: 'json_object' },
+        temperature: 0.1, // Lower temperature for more consistent extraction
+        maxTokens: 1000,
+      };
+
+      const content = await llmService.generateFromMessages(messages, {
+        ...llmOptions,
+        validate: (reply) => validate(reply).success,
+      });
 
       // Verbose logging is handled by llmService, but add domain-specific log
       if (config.logging.llmVerbose) {
@@ -93,49 +121,49 @@ export abstract class BaseExtractor {
           },
           'No data extracted'
         );
+        performanceTracker.endSpan(extractorSpan, { noDataExtracted: true });
         return null;
       }
 
-      // Parse JSON response
-      let parsed: any;
-      try {
-        parsed = JSON.parse(content);
-      } catch (parseError) {
-        logger.error(
-          {
-            domainId: this.domainId,
-            error: parseError instanceof Error ? parseError.message : String(parseError),
-          },
-          'Failed to parse extraction response'
-        );
-        return null;
-      }
-
-      // Verbose logging of parsed JSON
-      if (config.logging.llmVerbose) {
-        logger.info(
-          {
-            type: 'EXTRACTOR_PARSED_JSON',
-            domainId: this.domainId,
-            parsedData: parsed,
-          },
-          `EXTRACTOR VERBOSE [${this.domainId}]: Parsed JSON response`
-        );
-      }
+      let validation = validate(content);
 
-      // Validate with Zod schema
-      const validation = this.schema.safeParse(parsed);
+      // One repair round-trip: show the model its answer and what was wrong with it
       if (!validation.success) {
         logger.warn(
           {
             domainId: this.domainId,
-            errors: validation.error.issues,
+            issues: validation.issues,
           },
-          'Extraction validation failed'
+          'Extraction validation failed, requesting repair'
         );
-        return null;
+
+        const repaired = await llmService.generateFromMessages(
+          [
+            ...messages,
+            { role: 'assistant', content },
+            { role: 'user', content: this.buildRepairPrompt(validation.issues) },
+          ],
+          { ...llmOptions, cache: false } // Repairs follow a one-off invalid reply
+        );
+        validation = validate(repaired);
+
+        if (!validation.success) {
+          logger.warn(
+            {
+              domainId: this.domainId,
+              issues: validation.issues,
+            },
+            'Extraction validation failed after repair'
+          );
+          performanceTracker.endSpan(extractorSpan, { validationFailed: true, repaired: false });
+          return null;
+        }
+
+        performanceTracker.setSpanAttributes(extractorSpan, { repaired: true });
       }
 
+      const parsed = validation.parsed;
+
       // Validate and transform the extracted data
       const extractedData = this.validateAndTransform(validation.data);
 
@@ -216,6 +244,120 @@ export abstract class BaseExtractor {
     }
   }
 
+  /**
+   * Strict response format derived from the Zod schema, built once per extractor
+   * @returns null when structured outputs are disabled or the schema can't be converted
+   */
+  protected getStructuredOutput(): StructuredOutput | null {
+    if (!config.openai.structuredOutputs) return null;
+
+    if (this.structuredOutput === undefined) {
+      try {
+        this.structuredOutput = buildStructuredOutput(`${this.domainId}_extraction`, this.schema);
+      } catch (error) {
+        logger.warn(
+          {
+            domainId: this.domainId,
+            error: error instanceof Error ? error.message : String(error),
+          },
+          'Schema not representable as JSON schema, using JSON mode'
+        );
+        this.structuredOutput = null;
+      }
+    }
+
+    return this.structuredOutput;
+  }
+
+  /**
+   * Parse the raw response and validate it against the Zod schema
+   * @returns The validated data, or readable issues to feed back to the model
+   */
+  private parseAndValidate(
+    content: string,
+    structured: StructuredOutput | null
+  ): { success: true; parsed: unknown; data: unknown } | { success: false; issues: string[] } {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch (parseError) {
+      const error = parseError instanceof Error ? parseError.message : String(parseError);
+      logger.error({ domainId: this.domainId, error }, 'Failed to parse extraction response');
+      return { success: false, issues: [`Response is not valid JSON: ${error}`] };
+    }
+
+    // Strict mode sends optional fields as nullable - drop those nulls again
+    if (structured) {
+      parsed = structured.normalize(parsed);
+    }
+
+    // Verbose logging of parsed JSON
+    if (config.logging.llmVerbose) {
+      logger.info(
+        {
+          type: 'EXTRACTOR_PARSED_JSON',
+          domainId: this.domainId,
+          parsedData: parsed,
+        },
+        `EXTRACTOR VERBOSE [${this.domainId}]: Parsed JSON response`
+      );
+    }
+
+    // Validate with Zod schema
+    const validation = this.schema.safeParse(parsed);
+    if (!validation.success) {
+      return {
+        success: false,
+        issues: validation.error.issues.map(
+          (issue) => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`
+        ),
+      };
+    }
+
+    return { success: true, parsed, data: validation.data };
+  }
+
+  /**
+   * Follow-up message asking the model to fix its previous answer
+   */
+  protected buildRepairPrompt(issues: string[]): string {
+    return `Your previous response did not match the expected schema:
+${issues.map((issue) => `- ${issue}`).join('\n')}
+
+Return the corrected JSON object only, fixing these problems and keeping everything else unchanged.`;
+  }
+
+  /**
+   * Keep the most recent messages that fit the extractor prompt budget
+   * @param label - Call site shown in the budget allocation log
+   * @param reserved - Prompt text that is always sent alongside the history
+   * @param recentMessages - Conversation history, oldest first
+   * @param limits - Optional caps for the whole history and for each message
+   * @returns The kept messages, oldest first, with long ones truncated
+   */
+  protected fitRecentMessages(
+    label: string,
+    reserved: string[],
+    recentMessages: ExtractionContext['recentMessages'],
+    limits: { maxTokens?: number; itemMaxTokens?: number } = {}
+  ): ExtractionContext['recentMessages'] {
+    const newestFirst = [...recentMessages].reverse();
+
+    const { sections } = new PromptBudget(label, config.promptBudget.extractor).allocate([
+      { name: 'prompt', items: reserved, required: true },
+      {
+        name: 'history',
+        items: newestFirst.map((m) => m.content),
+        maxTokens: limits.maxTokens,
+        itemMaxTokens: limits.itemMaxTokens ?? 150,
+      },
+    ]);
+
+    return (sections.history ?? [])
+      .map((content, i) => ({ ...newestFirst[i]!, content }))
+      .reverse();
+  }
+
   /**
    * Build the extraction prompt for the LLM
    * @param message - Current message
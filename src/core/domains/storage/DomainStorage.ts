@@ -40,8 +40,9 @@ export interface DomainStorage<T> {
   /**
    * Store domain data
    * @param data - Data to store (must include userId and conversationId)
+   * @returns ID of the stored record
    */
-  store(data: T & { userId: string; conversationId: string }): Promise<void>;
+  store(data: T & { userId: string; conversationId: string }): Promise<string>;
 
   /**
    * Query stored data with filters
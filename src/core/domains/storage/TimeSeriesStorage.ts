@@ -1,5 +1,6 @@
 // Time Series Storage - Storage implementation for time-series domain data
 import { eq, and, gte, desc, sql } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
 import { getDatabase } from '@/database/client.js';
 import { domainData } from '@/database/schema.js';
 import { logger } from '@/core/logger.js';
@@ -37,13 +38,16 @@ export class TimeSeriesStorage<T> implements DomainStorage<T> {
 
   /**
    * Store domain data with timestamp
+   * @returns ID of the new row
    */
-  async store(data: T & { userId: string; conversationId: string }): Promise<void> {
+  async store(data: T & { userId: string; conversationId: string }): Promise<string> {
     try {
       const db = getDatabase();
       const confidence = (data as any).confidence || 0.8;
+      const id = uuidv4();
 
       await db.insert(domainData).values({
+        id,
         domainId: this.domainId,
         userId: data.userId,
         conversationId: data.conversationId,
@@ -60,6 +64,8 @@ export class TimeSeriesStorage<T> implements DomainStorage<T> {
         },
         'Data stored successfully'
       );
+
+      return id;
     } catch (error) {
       logger.error(
         {
@@ -262,6 +268,10 @@ export class TimeSeriesStorage<T> implements DomainStorage<T> {
         conditions.push(eq(domainData.conversationId, filters.conversationId));
       }
 
+      if (filters.startDate) {
+        conditions.push(gte(domainData.extractedAt, filters.startDate));
+      }
+
       // Execute delete
       await db.delete(domainData).where(and(...conditions));
 
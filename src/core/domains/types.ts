@@ -1,5 +1,7 @@
 // Domain Framework Types
 import { z } from 'zod';
+import type { MemoryCandidate } from '@/types/memory.js';
+import type { ContextElement, DecayPolicy } from '@/types/state.js';
 
 /**
  * Core domain definition that describes a domain's capabilities and configuration
@@ -30,8 +32,17 @@ export interface DomainConfig {
   extractionSchema: z.ZodSchema;
   steeringStrategy: SteeringConfig;
   storageConfig?: StorageConfig; // Optional - some domains use custom repositories
+  memories?: (data: any) => MemoryCandidate[]; // Optional - durable facts worth keeping per user
+  contextTypes?: Record<string, DecayPolicy>; // Optional - context types this domain adds
+  contextElements?: (data: any) => DomainContextElement[]; // Optional - context from extractions
 }
 
+/**
+ * A context element a domain derives from its extraction, usually of one of its own context types
+ * Merged into the conversation like global context: a repeated key is reinforced, not duplicated
+ */
+export type DomainContextElement = Pick<ContextElement, 'key' | 'value' | 'contextType' | 'weight'>;
+
 /**
  * Data extracted from a message for a specific domain
  */
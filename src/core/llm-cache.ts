@@ -0,0 +1,78 @@
+/**
+ * LLM Response Cache
+ *
+ * Content-addressed cache for JSON-mode completions. Classifiers and
+ * extractors send near-identical prompts for short repeated messages
+ * ("hi", "done 2 more"), so their structured answers can be reused.
+ *
+ * Best-effort: any storage failure is logged and treated as a miss.
+ */
+
+import { config } from '@/config/index.js';
+import { logger } from './logger.js';
+import { performanceTracker } from './performance-tracker.js';
+import { hashCompletionRequest, type LLMCompletionRequest } from './providers/index.js';
+import { llmCacheRepository } from '@/database/repositories/llm-cache.repository.js';
+
+export class LLMResponseCache {
+  /**
+   * Only JSON-mode and JSON-schema requests are cached; free-text replies should vary
+   */
+  isCacheable(request: LLMCompletionRequest): boolean {
+    const format = request.responseFormat?.type;
+    return config.llmCache.enabled && (format === 'json_object' || format === 'json_schema');
+  }
+
+  /**
+   * Look up a cached response, recording the hit or miss
+   */
+  async get(request: LLMCompletionRequest): Promise<string | null> {
+    const key = hashCompletionRequest(request);
+
+    try {
+      const entry = await llmCacheRepository.get(key);
+      performanceTracker.recordCacheLookup(!!entry);
+
+      logger.debug(
+        { key: key.substring(0, 12), model: request.model, hit: !!entry },
+        'LLM cache: Lookup'
+      );
+
+      return entry?.response ?? null;
+    } catch (error) {
+      performanceTracker.recordCacheLookup(false);
+      logger.warn(
+        { error: error instanceof Error ? error.message : String(error) },
+        'LLM cache: Lookup failed, calling provider'
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Store a response; responses that are not valid JSON are never cached
+   */
+  async set(request: LLMCompletionRequest, response: string): Promise<void> {
+    try {
+      JSON.parse(response);
+    } catch {
+      return;
+    }
+
+    try {
+      await llmCacheRepository.set(
+        hashCompletionRequest(request),
+        request.model,
+        response,
+        config.llmCache.ttlSeconds
+      );
+    } catch (error) {
+      logger.warn(
+        { error: error instanceof Error ? error.message : String(error) },
+        'LLM cache: Store failed'
+      );
+    }
+  }
+}
+
+export const llmResponseCache = new LLMResponseCache();
@@ -1,72 +1,99 @@
-// LLM Service - OpenAI integration
-import OpenAI from 'openai';
+// LLM Service - Provider-agnostic chat completions (OpenAI, local endpoints, scripted)
+import type OpenAI from 'openai';
 import { config } from '@/config/index.js';
 import { logger } from '@/core/logger.js';
 import { performanceTracker } from './performance-tracker.js';
-import type { Message } from '@/types/index.js';
+import {
+  createLLMProvider,
+  type LLMProvider,
+  type LLMCompletionRequest,
+  type LLMCompletion,
+  type LLMMessage,
+  type LLMResponseFormat,
+  type LLMToolCall,
+  type LLMToolDefinition,
+} from './providers/index.js';
+import {
+  buildModelChain,
+  computeBackoffDelay,
+  getErrorStatus,
+  isModelUnavailableError,
+  isRetryableError,
+  sleep,
+} from './providers/retry.js';
+import { usageTracker } from './usage-tracker.js';
+import { llmResponseCache } from './llm-cache.js';
+import type { LLMStage } from '@/types/index.js';
 
 export interface LLMOptions {
   maxTokens?: number;
   temperature?: number;
   model?: string;
   systemPrompt?: string; // Custom system prompt (overrides default)
-  responseFormat?: { type: 'json_object' | 'text' }; // Response format for structured output
+  responseFormat?: LLMResponseFormat; // Response format for structured output
+  stage?: LLMStage; // Pipeline area making the call, for usage accounting
+  cache?: boolean; // Set false to bypass the JSON-mode response cache
+  validate?: (content: string) => boolean; // Cache only replies this accepts; rejected cached replies are misses
 }
 
+/**
+ * Runs the tool calls a model requests in generateWithTools
+ */
+export interface ToolExecutor {
+  definitions: LLMToolDefinition[];
+  execute(call: LLMToolCall): Promise<string>; // Result content sent back to the model
+}
+
+const DEFAULT_SYSTEM_PROMPT =
+  'You are a helpful AI assistant. Provide clear, accurate, and helpful responses.';
+
+// Tool-call round trips before the model must answer in text
+const DEFAULT_MAX_TOOL_ROUNDS = 3;
+
 export class LLMService {
-  private client: OpenAI;
+  private provider: LLMProvider;
+
+  constructor(provider: LLMProvider = createLLMProvider()) {
+    this.provider = provider;
 
-  constructor() {
-    // Log initialization details
     logger.info(
       {
-        hasApiKey: !!config.openai.apiKey,
-        apiKeyLength: config.openai.apiKey?.length,
-        apiKeyPrefix: config.openai.apiKey?.substring(0, 7) + '...',
+        provider: provider.name,
         defaultModel: config.openai.model,
         timeout: config.openai.timeout,
       },
-      'Initializing OpenAI client'
+      'LLM service initialized'
     );
+  }
 
-    this.client = new OpenAI({
-      apiKey: config.openai.apiKey,
-      timeout: config.openai.timeout,
-    });
+  /**
+   * Swap the underlying provider (e.g. scripted provider in tests)
+   */
+  setProvider(provider: LLMProvider): void {
+    this.provider = provider;
+    logger.info({ provider: provider.name }, 'LLM service provider replaced');
+  }
+
+  getProvider(): LLMProvider {
+    return this.provider;
   }
 
   async generateResponse(
-    messages: Message[],
+    messages: LLMMessage[],
     userMessage: string,
     options?: LLMOptions
   ): Promise<string> {
     try {
       // Use custom system prompt if provided, otherwise use default
-      const systemPrompt =
-        options?.systemPrompt ||
-        'You are a helpful AI assistant. Provide clear, accurate, and helpful responses.';
-
-      // Convert our message format to OpenAI format
-      const openAIMessages: OpenAI.Chat.ChatCompletionMessageParam[] = [
-        {
-          role: 'system',
-          content: systemPrompt,
-        },
-        ...messages.map((msg) => ({
-          role: msg.role as 'user' | 'assistant' | 'system',
-          content: msg.content,
-        })),
-        {
-          role: 'user' as const,
-          content: userMessage,
-        },
-      ];
+      const systemPrompt = options?.systemPrompt || DEFAULT_SYSTEM_PROMPT;
+      const openAIMessages = this.buildChatMessages(messages, userMessage, systemPrompt);
 
       // Verbose logging for debugging
       if (config.logging.llmVerbose) {
         logger.info(
           {
             type: 'LLM_REQUEST',
+            provider: this.provider.name,
             model: options?.model || config.openai.model,
             temperature: options?.temperature ?? config.openai.temperature,
             maxTokens: options?.maxTokens || config.openai.maxTokens,
@@ -85,78 +112,123 @@ export class LLMService {
               0
             ),
           },
-          'LLM VERBOSE: Sending request to OpenAI'
+          'LLM VERBOSE: Sending request'
         );
       } else {
         logger.debug(
           {
+            provider: this.provider.name,
             systemPromptLength: systemPrompt.length,
             systemPromptPreview: systemPrompt.substring(0, 200),
             messageCount: messages.length,
             userMessageLength: userMessage.length,
           },
-          'LLM Service: Calling OpenAI API'
+          'LLM Service: Calling provider'
         );
       }
 
-      // Performance tracking for handler LLM calls
-      const llmSpan = performanceTracker.startSpan('llm.openai_api');
-      performanceTracker.setSpanAttributes(llmSpan, {
-        model: options?.model || config.openai.model,
-        messageCount: openAIMessages.length,
-        maxTokens: options?.maxTokens || config.openai.maxTokens,
-        temperature: options?.temperature ?? config.openai.temperature,
-        method: 'generateResponse',
-      });
+      const completion = await this.complete(
+        {
+          model: options?.model || config.openai.model,
+          messages: openAIMessages,
+          maxTokens: options?.maxTokens || config.openai.maxTokens,
+          temperature: options?.temperature ?? config.openai.temperature,
+        },
+        'generateResponse',
+        options?.stage
+      );
 
-      const apiCallStart = Date.now();
-      const completion = await this.client.chat.completions.create({
-        model: options?.model || config.openai.model,
-        messages: openAIMessages,
-        max_tokens: options?.maxTokens || config.openai.maxTokens,
-        temperature: options?.temperature ?? config.openai.temperature,
-      });
-      const apiDuration = Date.now() - apiCallStart;
+      return completion.content;
+    } catch (error: any) {
+      // Log error details before re-throwing
+      logger.error(
+        {
+          errorType: error?.constructor?.name,
+          errorMessage: error instanceof Error ? error.message : String(error),
+          errorStack: error instanceof Error ? error.stack : undefined,
+          errorCode: error?.code,
+          errorStatus: error?.status,
+        },
+        'LLM Service error in method'
+      );
 
-      performanceTracker.endSpan(llmSpan, {
-        duration: apiDuration,
-        promptTokens: completion.usage?.prompt_tokens,
-        completionTokens: completion.usage?.completion_tokens,
-        totalTokens: completion.usage?.total_tokens,
-      });
+      if (error instanceof Error) {
+        throw new Error(`LLM error: ${error.message}`);
+      }
+      throw new Error('Unknown LLM error');
+    }
+  }
 
-      const response = completion.choices[0]?.message?.content ?? '';
+  /**
+   * Generate a response, letting the model call tools along the way
+   * Requested tool calls are run through the executor and their results fed back until
+   * the model answers in text; after maxToolRounds, tools are withdrawn to force an answer
+   */
+  async generateWithTools(
+    messages: LLMMessage[],
+    userMessage: string,
+    tools: ToolExecutor,
+    options?: LLMOptions & { maxToolRounds?: number }
+  ): Promise<string> {
+    if (tools.definitions.length === 0) {
+      return this.generateResponse(messages, userMessage, options);
+    }
 
-      if (!response) {
-        throw new Error('No response from LLM');
-      }
+    try {
+      const systemPrompt = options?.systemPrompt || DEFAULT_SYSTEM_PROMPT;
+      const conversation = this.buildChatMessages(messages, userMessage, systemPrompt);
+      const maxToolRounds = options?.maxToolRounds ?? DEFAULT_MAX_TOOL_ROUNDS;
 
-      // Verbose logging of response
-      if (config.logging.llmVerbose) {
-        logger.info(
+      for (let round = 0; ; round++) {
+        const finalRound = round >= maxToolRounds;
+        const completion = await this.complete(
           {
-            type: 'LLM_RESPONSE',
-            model: completion.model,
-            usage: completion.usage,
-            responseLength: response.length,
-            // Split multi-line response for readability
-            response: response.includes('\n') ? response.split('\n') : response,
-            finishReason: completion.choices[0]?.finish_reason,
+            model: options?.model || config.openai.model,
+            messages: conversation,
+            maxTokens: options?.maxTokens || config.openai.maxTokens,
+            temperature: options?.temperature ?? config.openai.temperature,
+            tools: tools.definitions,
+            toolChoice: finalRound ? 'none' : 'auto',
           },
-          'LLM VERBOSE: Received response from OpenAI'
+          'generateWithTools',
+          options?.stage
         );
-      }
 
-      return response;
-    } catch (error: any) {
-      // Log error details before re-throwing
+        if (!completion.toolCalls?.length || finalRound) {
+          return completion.content;
+        }
+
+        logger.debug(
+          { round, tools: completion.toolCalls.map((call) => call.name) },
+          'LLM Service: Model requested tool calls'
+        );
+
+        conversation.push({
+          role: 'assistant',
+          content: completion.content || null,
+          tool_calls: completion.toolCalls.map((call) => ({
+            id: call.id,
+            type: 'function' as const,
+            function: { name: call.name, arguments: call.arguments },
+          })),
+        });
+
+        for (const call of completion.toolCalls) {
+          conversation.push({
+            role: 'tool',
+            tool_call_id: call.id,
+            content: await tools.execute(call),
+          });
+        }
+      }
+    } catch (error: unknown) {
       logger.error(
         {
           errorType: error?.constructor?.name,
           errorMessage: error instanceof Error ? error.message : String(error),
           errorStack: error instanceof Error ? error.stack : undefined,
-          errorCode: error?.code,
-          errorStatus: error?.status,
+          errorCode: (error as { code?: unknown } | null)?.code,
+          errorStatus: getErrorStatus(error),
         },
         'LLM Service error in method'
       );
@@ -168,6 +240,111 @@ export class LLMService {
     }
   }
 
+  /**
+   * Stream a response token by token
+   * Same inputs as generateResponse; yields content deltas as the provider produces them
+   */
+  async *generateResponseStream(
+    messages: LLMMessage[],
+    userMessage: string,
+    options?: LLMOptions
+  ): AsyncGenerator<string> {
+    const systemPrompt = options?.systemPrompt || DEFAULT_SYSTEM_PROMPT;
+
+    logger.debug(
+      {
+        provider: this.provider.name,
+        systemPromptLength: systemPrompt.length,
+        messageCount: messages.length,
+        userMessageLength: userMessage.length,
+      },
+      'LLM Service: Streaming from provider'
+    );
+
+    const completion = yield* this.streamCompletion(
+      {
+        model: options?.model || config.openai.model,
+        messages: this.buildChatMessages(messages, userMessage, systemPrompt),
+        maxTokens: options?.maxTokens || config.openai.maxTokens,
+        temperature: options?.temperature ?? config.openai.temperature,
+      },
+      'generateResponseStream',
+      options?.stage
+    );
+
+    if (!completion.content) {
+      throw new Error('LLM error: No response from LLM');
+    }
+  }
+
+  /**
+   * Streaming counterpart of generateWithTools
+   * Every round is streamed, so an answer that needs no tool arrives token by token.
+   * A round that ends in tool calls has them run and their results fed back; any text
+   * the model wrote before calling them has already been yielded as part of the reply.
+   */
+  async *streamWithTools(
+    messages: LLMMessage[],
+    userMessage: string,
+    tools: ToolExecutor,
+    options?: LLMOptions & { maxToolRounds?: number }
+  ): AsyncGenerator<string> {
+    if (tools.definitions.length === 0) {
+      yield* this.generateResponseStream(messages, userMessage, options);
+      return;
+    }
+
+    const systemPrompt = options?.systemPrompt || DEFAULT_SYSTEM_PROMPT;
+    const conversation = this.buildChatMessages(messages, userMessage, systemPrompt);
+    const maxToolRounds = options?.maxToolRounds ?? DEFAULT_MAX_TOOL_ROUNDS;
+
+    for (let round = 0; ; round++) {
+      const finalRound = round >= maxToolRounds;
+      const completion = yield* this.streamCompletion(
+        {
+          model: options?.model || config.openai.model,
+          messages: conversation,
+          maxTokens: options?.maxTokens || config.openai.maxTokens,
+          temperature: options?.temperature ?? config.openai.temperature,
+          tools: tools.definitions,
+          toolChoice: finalRound ? 'none' : 'auto',
+        },
+        'streamWithTools',
+        options?.stage
+      );
+
+      if (!completion.toolCalls?.length || finalRound) {
+        if (!completion.content) {
+          throw new Error('LLM error: No response from LLM');
+        }
+        return;
+      }
+
+      logger.debug(
+        { round, tools: completion.toolCalls.map((call) => call.name) },
+        'LLM Service: Model requested tool calls'
+      );
+
+      conversation.push({
+        role: 'assistant',
+        content: completion.content || null,
+        tool_calls: completion.toolCalls.map((call) => ({
+          id: call.id,
+          type: 'function' as const,
+          function: { name: call.name, arguments: call.arguments },
+        })),
+      });
+
+      for (const call of completion.toolCalls) {
+        conversation.push({
+          role: 'tool',
+          tool_call_id: call.id,
+          content: await tools.execute(call),
+        });
+      }
+    }
+  }
+
   /**
    * Generate response from raw OpenAI message array
    * Useful for extractors and other components that need direct control over messages
@@ -182,6 +359,7 @@ export class LLMService {
         logger.info(
           {
             type: 'LLM_REQUEST',
+            provider: this.provider.name,
             model: options?.model || config.openai.model,
             temperature: options?.temperature ?? config.openai.temperature,
             maxTokens: options?.maxTokens || config.openai.maxTokens,
@@ -200,130 +378,231 @@ export class LLMService {
               0
             ),
           },
-          'LLM VERBOSE: Sending request to OpenAI (raw messages)'
+          'LLM VERBOSE: Sending request (raw messages)'
         );
       } else {
         logger.debug(
           {
+            provider: this.provider.name,
             messageCount: messages.length,
             responseFormat: options?.responseFormat?.type,
           },
-          'LLM Service: Calling OpenAI API with raw messages'
+          'LLM Service: Calling provider with raw messages'
         );
       }
 
-      // Build completion request with optional response format
-      const completionRequest: OpenAI.Chat.ChatCompletionCreateParams = {
+      const request: LLMCompletionRequest = {
         model: options?.model || config.openai.model,
         messages,
-        max_tokens: options?.maxTokens || config.openai.maxTokens,
+        maxTokens: options?.maxTokens || config.openai.maxTokens,
         temperature: options?.temperature ?? config.openai.temperature,
+        responseFormat: options?.responseFormat,
       };
 
-      // Add response format if specified
-      if (options?.responseFormat) {
-        completionRequest.response_format = options.responseFormat;
+      // Repeated JSON-mode prompts (classifiers, extractors) can be served from cache,
+      // but only with replies the caller's validation accepts
+      const cacheable = options?.cache !== false && llmResponseCache.isCacheable(request);
+      const isValid = options?.validate ?? (() => true);
+      if (cacheable) {
+        const cached = await llmResponseCache.get(request);
+        if (cached !== null && isValid(cached)) return cached;
       }
 
-      // Log request details before API call
-      logger.debug(
+      const completion = await this.complete(request, 'generateFromMessages', options?.stage);
+
+      if (cacheable && isValid(completion.content)) {
+        await llmResponseCache.set(request, completion.content);
+      }
+
+      return completion.content;
+    } catch (error: any) {
+      // Log error details before re-throwing
+      logger.error(
         {
-          requestDetails: {
-            model: completionRequest.model,
-            hasResponseFormat: !!completionRequest.response_format,
-            responseFormatType: completionRequest.response_format?.type,
-            messageCount: completionRequest.messages.length,
-            temperature: completionRequest.temperature,
-            maxTokens: completionRequest.max_tokens,
-          },
+          errorType: error?.constructor?.name,
+          errorMessage: error instanceof Error ? error.message : String(error),
+          errorStack: error instanceof Error ? error.stack : undefined,
+          errorCode: error?.code,
+          errorStatus: error?.status,
         },
-        'About to call OpenAI API with raw messages'
+        'LLM Service error in method'
       );
 
-      let completion;
-      try {
-        // Start performance tracking for API call
-        const llmSpan = performanceTracker.startSpan('llm.openai_api');
-        performanceTracker.setSpanAttributes(llmSpan, {
-          model: completionRequest.model,
-          messageCount: completionRequest.messages.length,
-          maxTokens: completionRequest.max_tokens,
-          temperature: completionRequest.temperature,
-          hasResponseFormat: !!completionRequest.response_format,
-          method: 'generateFromMessages', // For performance report identification
-        });
+      if (error instanceof Error) {
+        throw new Error(`LLM error: ${error.message}`);
+      }
+      throw new Error('Unknown LLM error');
+    }
+  }
+
+  /**
+   * Frame the conversation history with the system prompt and the new user turn
+   */
+  private buildChatMessages(
+    messages: LLMMessage[],
+    userMessage: string,
+    systemPrompt: string
+  ): LLMMessage[] {
+    return [
+      {
+        role: 'system',
+        content: systemPrompt,
+      },
+      ...messages,
+      {
+        role: 'user' as const,
+        content: userMessage,
+      },
+    ];
+  }
 
-        const apiCallStart = Date.now();
-        completion = await this.client.chat.completions.create(completionRequest);
-        const apiDuration = Date.now() - apiCallStart;
+  /**
+   * Send a completion request to the provider with performance tracking
+   * Shared by generateResponse and generateFromMessages
+   */
+  private async complete(
+    request: LLMCompletionRequest,
+    method: string,
+    stage: LLMStage = 'other'
+  ): Promise<LLMCompletion> {
+    // Start performance tracking for API call
+    const llmSpan = performanceTracker.startSpan('llm.openai_api');
+    performanceTracker.setSpanAttributes(llmSpan, {
+      provider: this.provider.name,
+      model: request.model,
+      messageCount: request.messages.length,
+      maxTokens: request.maxTokens,
+      temperature: request.temperature,
+      hasResponseFormat: !!request.responseFormat,
+      method, // For performance report identification
+      stage,
+    });
 
-        // End performance span with usage details
-        performanceTracker.endSpan(llmSpan, {
-          duration: apiDuration,
-          promptTokens: completion.usage?.prompt_tokens,
-          completionTokens: completion.usage?.completion_tokens,
-          totalTokens: completion.usage?.total_tokens,
-        });
+    const apiCallStart = Date.now();
+    let completion: LLMCompletion;
 
-        logger.debug(
-          { duration: apiDuration },
-          'OpenAI API call completed successfully'
-        );
-      } catch (apiError: any) {
-        // Comprehensive error logging
-        logger.error(
-          {
-            errorType: apiError?.constructor?.name,
-            errorMessage: apiError?.message || String(apiError),
-            errorCode: apiError?.code,
-            errorStatus: apiError?.status,
-            errorStatusText: apiError?.statusText,
-            errorResponse: apiError?.response?.data,
-            errorHeaders: apiError?.response?.headers,
-            fullError: JSON.stringify(apiError, Object.getOwnPropertyNames(apiError)),
-            requestModel: completionRequest.model,
-            hasResponseFormat: !!completionRequest.response_format,
-            responseFormatType: completionRequest.response_format?.type,
-          },
-          'OpenAI API call failed - detailed error'
-        );
-        throw apiError;
-      }
+    try {
+      completion = await this.callWithRetry(request, llmSpan, (attempt) =>
+        this.provider.createChatCompletion(attempt)
+      );
+    } catch (apiError) {
+      performanceTracker.endSpan(llmSpan, { duration: Date.now() - apiCallStart, error: true });
+      throw apiError;
+    }
 
-      const response = completion.choices[0]?.message?.content ?? '';
+    const apiDuration = Date.now() - apiCallStart;
 
-      if (!response) {
-        throw new Error('No response from LLM');
-      }
+    // End performance span with usage details
+    performanceTracker.endSpan(llmSpan, {
+      duration: apiDuration,
+      promptTokens: completion.usage?.promptTokens,
+      completionTokens: completion.usage?.completionTokens,
+      totalTokens: completion.usage?.totalTokens,
+      toolCalls: completion.toolCalls?.length,
+      responseModel: completion.model,
+      finishReason: completion.finishReason,
+    });
+    usageTracker.record(stage, completion.model || request.model, completion.usage);
 
-      // Verbose logging of response
-      if (config.logging.llmVerbose) {
-        logger.info(
-          {
-            type: 'LLM_RESPONSE',
-            model: completion.model,
-            usage: completion.usage,
-            responseLength: response.length,
-            // Split multi-line response for readability
-            response: response.includes('\n') ? response.split('\n') : response,
-            finishReason: completion.choices[0]?.finish_reason,
-          },
-          'LLM VERBOSE: Received response from OpenAI (raw messages)'
-        );
-      }
+    logger.debug(
+      { provider: this.provider.name, duration: apiDuration },
+      'LLM provider call completed successfully'
+    );
 
-      return response;
-    } catch (error: any) {
-      // Log error details before re-throwing
+    if (!completion.content && !completion.toolCalls?.length) {
+      throw new Error('No response from LLM');
+    }
+
+    // Verbose logging of response
+    if (config.logging.llmVerbose) {
+      logger.info(
+        {
+          type: 'LLM_RESPONSE',
+          provider: this.provider.name,
+          model: completion.model,
+          usage: completion.usage,
+          responseLength: completion.content.length,
+          // Split multi-line response for readability
+          response: completion.content.includes('\n')
+            ? completion.content.split('\n')
+            : completion.content,
+          finishReason: completion.finishReason,
+          toolCalls: completion.toolCalls,
+          method,
+        },
+        'LLM VERBOSE: Received response'
+      );
+    }
+
+    return completion;
+  }
+
+  /**
+   * Stream one completion with performance tracking, yielding content deltas
+   * Returns the assembled completion, including any tool calls the model made
+   */
+  private async *streamCompletion(
+    request: LLMCompletionRequest,
+    method: string,
+    stage: LLMStage = 'other'
+  ): AsyncGenerator<string, LLMCompletion> {
+    const llmSpan = performanceTracker.startSpan('llm.openai_api');
+    performanceTracker.setSpanAttributes(llmSpan, {
+      provider: this.provider.name,
+      model: request.model,
+      messageCount: request.messages.length,
+      maxTokens: request.maxTokens,
+      temperature: request.temperature,
+      method,
+      streaming: true,
+      stage,
+    });
+
+    const apiCallStart = Date.now();
+    let firstTokenMs: number | undefined;
+    let response = '';
+    let usage: LLMCompletion['usage'];
+    let responseModel = request.model;
+    let finishReason: LLMCompletion['finishReason'];
+    let toolCalls: LLMToolCall[] | undefined;
+
+    try {
+      // Retries only cover opening the stream; once tokens flow, a failure is final
+      const { iterator, first } = await this.callWithRetry(request, llmSpan, async (attempt) => {
+        const iterator = this.provider.streamChatCompletion(attempt)[Symbol.asyncIterator]();
+        try {
+          return { iterator, first: await iterator.next() };
+        } catch (error) {
+          // Close the failed stream before the next attempt opens another
+          await iterator.return?.().catch(() => undefined);
+          throw error;
+        }
+      });
+
+      for (let next = first; !next.done; next = await iterator.next()) {
+        const chunk = next.value;
+        if (chunk.usage) usage = chunk.usage;
+        if (chunk.model) responseModel = chunk.model;
+        if (chunk.finishReason) finishReason = chunk.finishReason;
+        if (chunk.toolCalls?.length) toolCalls = chunk.toolCalls;
+        if (!chunk.content) continue;
+
+        if (firstTokenMs === undefined) firstTokenMs = Date.now() - apiCallStart;
+        response += chunk.content;
+        yield chunk.content;
+      }
+    } catch (error: unknown) {
+      performanceTracker.endSpan(llmSpan, { error: true });
       logger.error(
         {
+          provider: this.provider.name,
           errorType: error?.constructor?.name,
           errorMessage: error instanceof Error ? error.message : String(error),
-          errorStack: error instanceof Error ? error.stack : undefined,
-          errorCode: error?.code,
-          errorStatus: error?.status,
+          errorStatus: getErrorStatus(error),
+          requestModel: request.model,
+          partialResponseLength: response.length,
         },
-        'LLM Service error in method'
+        'LLM provider stream failed'
       );
 
       if (error instanceof Error) {
@@ -331,6 +610,157 @@ export class LLMService {
       }
       throw new Error('Unknown LLM error');
     }
+
+    performanceTracker.endSpan(llmSpan, {
+      duration: Date.now() - apiCallStart,
+      timeToFirstToken: firstTokenMs,
+      promptTokens: usage?.promptTokens,
+      completionTokens: usage?.completionTokens,
+      totalTokens: usage?.totalTokens,
+      toolCalls: toolCalls?.length,
+      responseModel,
+    });
+    usageTracker.record(stage, responseModel, usage);
+
+    if (config.logging.llmVerbose) {
+      logger.info(
+        {
+          type: 'LLM_RESPONSE',
+          provider: this.provider.name,
+          usage,
+          responseLength: response.length,
+          response: response.includes('\n') ? response.split('\n') : response,
+          toolCalls,
+          method,
+        },
+        'LLM VERBOSE: Received streamed response'
+      );
+    }
+
+    return { content: response, model: responseModel, usage, finishReason, toolCalls };
+  }
+
+  /**
+   * Run a provider call with retries and model fallback
+   * Retryable errors (408/409/429/5xx, network) back off exponentially with jitter;
+   * once a model's retries are spent - or the model is unavailable - the next
+   * configured fallback model is tried. Attempts and fallback are recorded on the span.
+   */
+  private async callWithRetry<T>(
+    request: LLMCompletionRequest,
+    llmSpan: string,
+    call: (request: LLMCompletionRequest) => Promise<T>
+  ): Promise<T> {
+    const policy = config.openai.retry;
+    const models = buildModelChain(request.model, config.openai.fallbackModels);
+    let attempts = 0;
+    let lastError: unknown;
+
+    for (const [modelIndex, model] of models.entries()) {
+      for (let retry = 0; retry <= policy.maxRetries; retry++) {
+        attempts++;
+        performanceTracker.setSpanAttributes(llmSpan, {
+          attempts,
+          requestedModel: request.model,
+          model,
+          fallbackModel: modelIndex > 0 ? model : undefined,
+        });
+
+        try {
+          return await call({ ...request, model });
+        } catch (error: unknown) {
+          lastError = error;
+          const retryable = isRetryableError(error);
+
+          // Attempts that may still be retried stay out of the error log
+          logger.debug(
+            { ...this.describeError(error, request, model), attempt: attempts, retryable },
+            'LLM provider call failed - detailed error'
+          );
+
+          if (!retryable) {
+            // Only a model-specific failure is worth trying on another model
+            if (!isModelUnavailableError(error)) {
+              this.logFinalFailure(error, request, model, attempts);
+              throw error;
+            }
+            break;
+          }
+
+          if (retry < policy.maxRetries) {
+            const delayMs = computeBackoffDelay(retry, policy);
+            logger.warn(
+              {
+                provider: this.provider.name,
+                model,
+                attempt: attempts,
+                delayMs,
+                errorMessage: error instanceof Error ? error.message : String(error),
+                errorStatus: getErrorStatus(error),
+              },
+              'LLM provider call failed - retrying after backoff'
+            );
+            await sleep(delayMs);
+          }
+        }
+      }
+
+      const nextModel = models[modelIndex + 1];
+      if (nextModel) {
+        logger.warn(
+          { provider: this.provider.name, failedModel: model, fallbackModel: nextModel, attempts },
+          'LLM provider call failed - falling back to next model'
+        );
+      }
+    }
+
+    this.logFinalFailure(lastError, request, models[models.length - 1]!, attempts);
+    throw lastError;
+  }
+
+  /**
+   * Log a provider call that failed for good, with the full error detail
+   */
+  private logFinalFailure(
+    error: unknown,
+    request: LLMCompletionRequest,
+    model: string,
+    attempts: number
+  ): void {
+    logger.error(
+      { ...this.describeError(error, request, model), attempts },
+      'LLM provider call failed - detailed error'
+    );
+  }
+
+  private describeError(
+    error: unknown,
+    request: LLMCompletionRequest,
+    model: string
+  ): Record<string, unknown> {
+    const details = (error ?? {}) as {
+      code?: unknown;
+      statusText?: unknown;
+      response?: { data?: unknown; headers?: unknown };
+    };
+
+    return {
+      provider: this.provider.name,
+      errorType: error?.constructor?.name,
+      errorMessage: error instanceof Error ? error.message : String(error),
+      errorCode: details.code,
+      errorStatus: getErrorStatus(error),
+      errorStatusText: details.statusText,
+      errorResponse: details.response?.data,
+      errorHeaders: details.response?.headers,
+      fullError:
+        error instanceof Object
+          ? JSON.stringify(error, Object.getOwnPropertyNames(error))
+          : String(error),
+      requestModel: model,
+      hasResponseFormat: !!request.responseFormat,
+      responseFormatType: request.responseFormat?.type,
+    };
   }
 }
 
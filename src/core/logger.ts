@@ -18,6 +18,7 @@ const isDevelopment = process.env.NODE_ENV !== 'production';
 const logFilePath = config.logging.filePath;
 
 // Create Pino logger instance with multistream (console + file)
+// Console logs go to stderr so stdout stays clean for command output (ask --json, transcripts)
 export const logger = pino(
   {
     level: 'debug', // Set base level to most verbose (will be filtered by streams)
@@ -37,9 +38,10 @@ export const logger = pino(
               translateTime: 'HH:MM:ss',
               ignore: 'pid,hostname',
               singleLine: false,
+              destination: 2,
             },
           })
-        : process.stdout,
+        : process.stderr,
     },
     // Stream 2: File output (respects fileLevel)
     {
@@ -1,8 +1,19 @@
 // Base Mode Handler - Abstract class for all mode handlers
-import { llmService } from '@/core/llm.service.js';
+import { llmService, type LLMOptions } from '@/core/llm.service.js';
 import { logger } from '@/core/logger.js';
+import { PromptBudget, type BudgetSection } from '@/core/prompt-budget.js';
+import { toolRegistry, type ToolSession } from '@/core/tools/index.js';
+import type { LLMMessage, LLMToolDefinition } from '@/core/providers/index.js';
+import { config } from '@/config/index.js';
 import { ConversationMode } from '@/types/modes.js';
-import type { IModeHandler, HandlerContext, HandlerResult, ContextElement } from '@/types/index.js';
+import type {
+  IModeHandler,
+  HandlerContext,
+  HandlerResult,
+  ContextElement,
+  ConversationState,
+  ToolInvocation,
+} from '@/types/index.js';
 
 /**
  * Response length limits by mode (in tokens)
@@ -15,6 +26,12 @@ const MODE_TOKEN_LIMITS: Record<ConversationMode, number> = {
   [ConversationMode.TRACK_PROGRESS]: 300, // Goal tracking responses
 };
 
+/**
+ * A topic or emotion mentioned at least this often in the window is called out as recurring
+ */
+const RECURRING_MIN_MENTIONS = 3;
+const RECURRING_WINDOW_DAYS = 7;
+
 export abstract class BaseModeHandler implements IModeHandler {
   abstract readonly mode: ConversationMode;
 
@@ -35,13 +52,17 @@ export abstract class BaseModeHandler implements IModeHandler {
       // Build system prompt for this mode
       const systemPrompt = this.buildSystemPrompt(context);
 
-      // Generate response using LLM
-      const response = await this.generateResponse(systemPrompt, context);
+      // Generate response using LLM (with tool calls if this handler offers any)
+      const { response, toolInvocations } = await this.generateResponseWithTools(
+        systemPrompt,
+        context
+      );
 
       // Prepare result
       const result: HandlerResult = {
         response,
         stateUpdates: this.buildStateUpdates(context),
+        ...(toolInvocations.length > 0 ? { toolInvocations } : {}),
       };
 
       logger.debug({ mode: this.mode, responseLength: response.length }, 'Message handled');
@@ -53,11 +74,52 @@ export abstract class BaseModeHandler implements IModeHandler {
     }
   }
 
+  /**
+   * Handle the message in this mode, streaming response tokens as they arrive
+   * Returns the same HandlerResult as handle() once the stream completes
+   */
+  async *handleStream(context: HandlerContext): AsyncGenerator<string, HandlerResult> {
+    logger.debug(
+      { mode: this.mode, conversationId: context.conversationId },
+      'Handling message (streaming)'
+    );
+
+    const systemPrompt = this.buildSystemPrompt(context);
+    const session = this.createToolSession(context);
+
+    let response = '';
+    try {
+      for await (const token of this.generateResponseStream(systemPrompt, context, session)) {
+        response += token;
+        yield token;
+      }
+    } catch (error) {
+      logger.error({ error, mode: this.mode }, 'Handler stream error');
+      throw error;
+    }
+
+    logger.debug({ mode: this.mode, responseLength: response.length }, 'Message handled');
+
+    return {
+      response,
+      stateUpdates: this.buildStateUpdates(context),
+      ...(session.invocations.length > 0 ? { toolInvocations: session.invocations } : {}),
+    };
+  }
+
   /**
    * Build mode-specific system prompt
    */
   protected abstract buildSystemPrompt(context: HandlerContext): string;
 
+  /**
+   * Names of registered tools the model may call in this mode
+   * Default: none - subclasses opt in
+   */
+  protected getTools(_context: HandlerContext): string[] {
+    return [];
+  }
+
   /**
    * Build state updates based on the interaction
    */
@@ -71,8 +133,94 @@ export abstract class BaseModeHandler implements IModeHandler {
    * Generate LLM response with mode-specific system prompt and token limits
    */
   protected async generateResponse(systemPrompt: string, context: HandlerContext): Promise<string> {
-    // Build context section from state
-    const contextSection = this.buildContextSection(context);
+    const { messages, options } = this.prepareLLMCall(systemPrompt, context);
+
+    // Generate response with context in system prompt and token limit
+    const response = await llmService.generateResponse(messages, context.message, options);
+
+    return response;
+  }
+
+  /**
+   * Generate LLM response, letting the model call this handler's tools
+   * Falls back to a plain generateResponse when the handler offers no tools
+   */
+  protected async generateResponseWithTools(
+    systemPrompt: string,
+    context: HandlerContext
+  ): Promise<{ response: string; toolInvocations: ToolInvocation[] }> {
+    const session = this.createToolSession(context);
+
+    if (session.definitions.length === 0) {
+      return { response: await this.generateResponse(systemPrompt, context), toolInvocations: [] };
+    }
+
+    const { messages, options } = this.prepareLLMCall(systemPrompt, context, session.definitions);
+    const response = await llmService.generateWithTools(
+      messages,
+      context.message,
+      session,
+      options
+    );
+
+    return { response, toolInvocations: session.invocations };
+  }
+
+  /**
+   * Streaming counterpart of generateResponseWithTools - same prompt and limits, yields tokens
+   * Tool round-trips happen between tokens; without tools this is a plain stream
+   */
+  protected generateResponseStream(
+    systemPrompt: string,
+    context: HandlerContext,
+    session: ToolSession = this.createToolSession(context)
+  ): AsyncGenerator<string> {
+    const { messages, options } = this.prepareLLMCall(systemPrompt, context, session.definitions);
+    return llmService.streamWithTools(messages, context.message, session, options);
+  }
+
+  /**
+   * Registered tools this handler offers for the turn (unknown names are skipped)
+   */
+  private createToolSession(context: HandlerContext): ToolSession {
+    return toolRegistry.createSession(this.getTools(context), {
+      userId: context.userId,
+      conversationId: context.conversationId,
+    });
+  }
+
+  /**
+   * Fit system prompt, context and history into the handler prompt budget,
+   * then compose the full system prompt (context + mode prompt) and mode token limit
+   */
+  private prepareLLMCall(
+    systemPrompt: string,
+    context: HandlerContext,
+    tools: LLMToolDefinition[] = []
+  ): { messages: LLMMessage[]; options: LLMOptions } {
+    // Newest first, so the oldest turns are the first to go
+    const history = [...context.messages].reverse();
+
+    const { sections } = new PromptBudget(
+      `handler.${this.mode}`,
+      config.promptBudget.handler
+    ).allocate([
+      { name: 'system', items: [systemPrompt], required: true },
+      { name: 'message', items: [context.message], required: true },
+      { name: 'tools', items: tools.map((tool) => JSON.stringify(tool)), required: true },
+      ...this.buildContextSections(context),
+      { name: 'history', items: history.map((m) => m.content), priority: 10 },
+    ]);
+
+    const messages = (sections.history ?? [])
+      .map(
+        (content, i): LLMMessage => ({
+          role: history[i]!.role === 'assistant' ? 'assistant' : 'user',
+          content,
+        })
+      )
+      .reverse();
+    const contextSection = this.renderContextSection(sections);
 
     // Inject context BEFORE mode-specific system prompt
     const fullSystemPrompt = contextSection ? `${contextSection}\n\n${systemPrompt}` : systemPrompt;
@@ -84,73 +232,177 @@ export abstract class BaseModeHandler implements IModeHandler {
       {
         mode: this.mode,
         hasContext: !!contextSection,
-        contextLength: contextSection?.length || 0,
+        contextLength: contextSection.length,
         systemPromptLength: fullSystemPrompt.length,
+        historyMessages: `${messages.length}/${context.messages.length}`,
         maxTokens,
       },
       'Base handler: Generating response with system prompt'
     );
 
-    // Generate response with context in system prompt and token limit
-    const response = await llmService.generateResponse(context.messages as any, context.message, {
-      systemPrompt: fullSystemPrompt,
-      maxTokens, // Performance optimization: limit response length
-    });
-
-    return response;
+    return {
+      messages,
+      options: {
+        systemPrompt: fullSystemPrompt,
+        maxTokens, // Performance optimization: limit response length
+        stage: 'handler',
+      },
+    };
   }
 
   /**
-   * Build COMPACT context section from conversation state
-   * Optimized for token efficiency while preserving key information
+   * Collect COMPACT context from conversation state as budget sections
+   * Higher priority sections survive when the prompt budget runs short
    */
-  protected buildContextSection(context: HandlerContext): string {
+  protected buildContextSections(context: HandlerContext): BudgetSection[] {
     const state = context.state as {
       contextElements?: ContextElement[];
       steeringHints?: any;
       extractions?: any;
+      metadata?: ConversationState['metadata'];
+      retrievedFacts?: ConversationState['retrievedFacts'];
     };
 
-    const parts: string[] = [];
+    const sections: BudgetSection[] = [];
 
-    // 1. Compact memory context (only high-weight items, no verbose guide)
+    // 1. Compact memory context (only high-weight items, strongest first)
     const elements: ContextElement[] = state?.contextElements || [];
-    const strongMemories = elements.filter((el) => el.weight > 0.3);
+    const strongMemories = elements
+      .filter((el) => el.weight > 0.3)
+      .sort((a, b) => b.weight - a.weight);
 
     if (strongMemories.length > 0) {
-      const topics = strongMemories
-        .filter((m) => m.key.startsWith('topic:'))
-        .map((m) => m.value)
-        .slice(0, 3);
+      const topics = strongMemories.filter((m) => m.key.startsWith('topic:')).map((m) => m.value);
       const emotions = strongMemories
         .filter((m) => m.key.startsWith('emotion:'))
-        .map((m) => m.value)
-        .slice(0, 2);
-      const crisis = strongMemories.filter((m) => m.contextType === 'crisis');
+        .map((m) => m.value);
+      const crisis = strongMemories.filter((m) => m.contextType === 'crisis').map((m) => m.value);
+
+      const remembered = strongMemories
+        .filter((m) => m.key.startsWith('memory:'))
+        .map((m) => m.value);
 
-      if (topics.length > 0) parts.push(`Topics: ${topics.join(', ')}`);
-      if (emotions.length > 0) parts.push(`Mood: ${emotions.join(', ')}`);
-      if (crisis.length > 0) parts.push(`⚠️ CRISIS: ${crisis.map((c) => c.value).join(', ')}`);
+      // Crisis context is safety-critical and never trimmed
+      if (crisis.length > 0) sections.push({ name: 'crisis', items: crisis, required: true });
+      if (topics.length > 0) {
+        sections.push({ name: 'topics', items: topics, priority: 60, maxTokens: 40 });
+      }
+      if (emotions.length > 0) {
+        sections.push({ name: 'mood', items: emotions, priority: 60, maxTokens: 20 });
+      }
+      // Long-term memories recalled from the user's earlier conversations
+      if (remembered.length > 0) {
+        sections.push({ name: 'remembered', items: remembered, priority: 55, maxTokens: 60 });
+      }
+    }
+
+    // Topics, emotions and symptoms that keep coming up, so the reply can acknowledge the pattern
+    const recurring = this.describeRecurring(elements);
+    if (recurring.length > 0) {
+      sections.push({ name: 'recurring', items: recurring, priority: 58, maxTokens: 40 });
     }
 
     // 2. Compact extraction summary (just the data, no timestamps)
     if (state?.extractions) {
+      const summaries: string[] = [];
       for (const [domain, extr] of Object.entries(state.extractions as any)) {
         if (Array.isArray(extr) && extr.length > 0) {
           const recent = extr[extr.length - 1];
           if (recent?.data && recent.confidence > 0.5) {
             // Just key facts, no full JSON
             const summary = this.compactDataSummary(domain, recent.data);
-            if (summary) parts.push(`${domain}: ${summary}`);
+            if (summary) summaries.push(`${domain}: ${summary}`);
           }
         }
       }
+      if (summaries.length > 0) {
+        sections.push({ name: 'extractions', items: summaries, priority: 50, itemMaxTokens: 40 });
+      }
+    }
+
+    // 3. Past facts most similar to the message (semantic retrieval)
+    const facts = state?.retrievedFacts ?? [];
+    if (facts.length > 0) {
+      sections.push({
+        name: 'relevant',
+        items: facts.map((fact) => {
+          const date = new Date(fact.createdAt).toISOString().slice(0, 10);
+          const origin = fact.source === 'message' ? 'user said' : `${fact.domainId} data`;
+          return `${date} ${origin}: ${fact.content}`;
+        }),
+        priority: 48,
+        maxTokens: 150,
+        itemMaxTokens: 40,
+      });
     }
 
-    // 3. Minimal steering (just first suggestion if any)
-    if (state?.steeringHints?.suggestions?.[0]) {
-      parts.push(`Consider: ${state.steeringHints.suggestions[0]}`);
+    // 4. Rolling summary of the turns no longer in history
+    const summary = state?.metadata?.summary;
+    if (summary) {
+      sections.push({
+        name: 'summary',
+        items: [
+          `Earlier in this conversation: ${summary.text}`,
+          ...Object.entries(summary.domains).map(([domain, text]) => `${domain} so far: ${text}`),
+        ],
+        priority: 45,
+        maxTokens: config.summary.maxTokens,
+      });
+    }
+
+    // 5. Steering suggestions, in the order the steering strategy ranked them
+    const suggestions: string[] = state?.steeringHints?.suggestions ?? [];
+    if (suggestions.length > 0) {
+      sections.push({
+        name: 'steering',
+        items: suggestions,
+        priority: 30,
+        maxTokens: 60,
+        itemMaxTokens: 40,
+      });
+    }
+
+    return sections;
+  }
+
+  /**
+   * Topics, emotions and symptoms mentioned often lately, most mentioned first
+   * e.g. "stressed (4 times this week)"
+   */
+  private describeRecurring(elements: ContextElement[], now: Date = new Date()): string[] {
+    const since = now.getTime() - RECURRING_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+
+    return elements
+      .filter((el) =>
+        ['topic:', 'emotion:', 'symptom:'].some((prefix) => el.key.startsWith(prefix))
+      )
+      .map((el) => ({
+        value: el.value,
+        count: (el.mentions ?? []).filter((mention) => mention.getTime() >= since).length,
+      }))
+      .filter(({ count }) => count >= RECURRING_MIN_MENTIONS)
+      .sort((a, b) => b.count - a.count)
+      .map(({ value, count }) => `${value} (${count} times this week)`);
+  }
+
+  /**
+   * Render the context sections that survived budgeting as a single compact line
+   */
+  private renderContextSection(sections: Record<string, string[]>): string {
+    const parts: string[] = [];
+
+    if (sections.topics?.length) parts.push(`Topics: ${sections.topics.join(', ')}`);
+    if (sections.mood?.length) parts.push(`Mood: ${sections.mood.join(', ')}`);
+    if (sections.crisis?.length) parts.push(`⚠️ CRISIS: ${sections.crisis.join(', ')}`);
+    if (sections.recurring?.length) parts.push(`Recurring: ${sections.recurring.join(', ')}`);
+    if (sections.remembered?.length) {
+      parts.push(`Remembered: ${sections.remembered.join('; ')}`);
     }
+    parts.push(...(sections.summary ?? []));
+    parts.push(...(sections.relevant ?? []).map((s) => `Relevant: ${s}`));
+    parts.push(...(sections.extractions ?? []));
+    parts.push(...(sections.steering ?? []).map((s) => `Consider: ${s}`));
+    parts.push(...(sections.recalled ?? []).map((s) => `Earlier: ${s}`));
 
     logger.debug(
       { mode: this.mode, contextParts: parts.length },
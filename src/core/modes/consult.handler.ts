@@ -1,8 +1,11 @@
 // Consult Mode Handler - Advice and problem-solving conversations
 import { BaseModeHandler } from './base-handler.js';
+import type { BudgetSection } from '@/core/prompt-budget.js';
+import { searchService } from '@/services/search.service.js';
 import {
   ConversationMode,
   SafetyLevel,
+  type ConversationState,
   type HandlerContext,
   type HandlerResult,
 } from '@/types/index.js';
@@ -18,7 +21,67 @@ export class ConsultModeHandler extends BaseModeHandler {
     }
 
     // Normal consult mode handling
-    return super.handle(context);
+    return super.handle(await this.withRetrievedSnippets(context));
+  }
+
+  async *handleStream(context: HandlerContext): AsyncGenerator<string, HandlerResult> {
+    // Crisis responses are templated - emit them whole
+    if (context.classification?.decision.safetyContext.isCrisis) {
+      const result = await this.handleCrisis(context);
+      yield result.response;
+      return result;
+    }
+
+    return yield* super.handleStream(await this.withRetrievedSnippets(context));
+  }
+
+  /**
+   * Add snippets from the user's other conversations that match the message
+   * Every mode gets the semantic retrieval's facts (state.retrievedFacts), ranked by similarity
+   * over the user's whole history. Consult adds full-text matches from other conversations,
+   * which catch exact words (names, medications) that similarity can rank too low. Both read the
+   * same messages and domain data, so rows already among the facts are skipped here.
+   */
+  private async withRetrievedSnippets(context: HandlerContext): Promise<HandlerContext> {
+    const { retrievedFacts = [] } = context.state as Pick<ConversationState, 'retrievedFacts'>;
+    const retrievedSnippets = await searchService.retrieveSnippets(
+      context.userId,
+      context.message,
+      {
+        excludeConversationId: context.conversationId,
+        excludeSourceIds: retrievedFacts.map((fact) => fact.sourceId),
+      }
+    );
+    if (retrievedSnippets.length === 0) return context;
+
+    return { ...context, retrievedSnippets };
+  }
+
+  /**
+   * Base context plus retrieved snippets, trimmed before extractions but kept over steering
+   */
+  protected buildContextSections(context: HandlerContext): BudgetSection[] {
+    const sections = super.buildContextSections(context);
+
+    const snippets = context.retrievedSnippets ?? [];
+    if (snippets.length > 0) {
+      sections.push({
+        name: 'recalled',
+        items: snippets,
+        priority: 40,
+        maxTokens: 150,
+        itemMaxTokens: 50,
+      });
+    }
+
+    return sections;
+  }
+
+  /**
+   * Advice can draw on what the user has recorded in health, finance, etc.
+   */
+  protected getTools(_context: HandlerContext): string[] {
+    return ['query_domain_data'];
   }
 
   /**
@@ -8,7 +8,12 @@
  */
 
 import { BaseModeHandler } from './base-handler.js';
-import { ConversationMode, type HandlerContext, type HandlerResult } from '@/types/index.js';
+import {
+  ConversationMode,
+  type GoalChange,
+  type HandlerContext,
+  type HandlerResult,
+} from '@/types/index.js';
 import { goalService } from '@/domains/goal/services/index.js';
 import type { ConversationState } from '@/types/state.js';
 import type { GoalData } from '@/domains/goal/schemas/goal.schema.js';
@@ -58,6 +63,13 @@ Guidelines:
 Remember: You're helping users build sustainable habits and achieve meaningful goals.`;
   }
 
+  /**
+   * Without an extracted goal action, the model can work with goals directly
+   */
+  protected getTools(_context: HandlerContext): string[] {
+    return ['list_goals', 'create_goal', 'log_goal_progress', 'query_domain_data'];
+  }
+
   /**
    * Handle the message in Track Progress mode
    * Delegates all operations to GoalService based on domain extraction
@@ -75,8 +87,11 @@ Remember: You're helping users build sustainable habits and achieve meaningful g
       if (!goalExtraction || goalExtraction.action === null) {
         // No goal-related intent detected, use LLM for general conversation
         logger.debug('TrackProgressHandler: No goal extraction or null action found, using LLM');
-        const response = await this.generateResponse(this.buildSystemPrompt(context), context);
-        return { response };
+        const { response, toolInvocations } = await this.generateResponseWithTools(
+          this.buildSystemPrompt(context),
+          context
+        );
+        return toolInvocations.length > 0 ? { response, toolInvocations } : { response };
       }
 
       logger.info(
@@ -86,10 +101,12 @@ Remember: You're helping users build sustainable habits and achieve meaningful g
 
       // Delegate to GoalService based on action
       const result = await this.processGoalAction(goalExtraction, context);
+      const goalChanges = this.getGoalChanges(goalExtraction, result);
 
       return {
         response: result.message,
         stateUpdates: result.data || {},
+        ...(goalChanges.length > 0 ? { goalChanges } : {}),
       };
     } catch (error) {
       logger.error({ error, mode: this.mode }, 'TrackProgressHandler: Error handling message');
@@ -99,13 +116,48 @@ Remember: You're helping users build sustainable habits and achieve meaningful g
     }
   }
 
+  /**
+   * Stream the general-conversation path; goal actions are answered by GoalService
+   * and emitted as a single chunk once processed
+   */
+  async *handleStream(context: HandlerContext): AsyncGenerator<string, HandlerResult> {
+    const goalExtraction = this.getGoalExtraction(context);
+
+    if (!goalExtraction || goalExtraction.action === null) {
+      return yield* super.handleStream(context);
+    }
+
+    const result = await this.handle(context);
+    yield result.response;
+    return result;
+  }
+
+  /**
+   * The goal or progress entry an action created, recorded so undo can revert it
+   */
+  private getGoalChanges(
+    goalData: GoalData,
+    result: { success?: boolean; data?: any }
+  ): GoalChange[] {
+    if (!result.success) return [];
+
+    if (result.data?.progressEntry) {
+      const { id, goalId } = result.data.progressEntry;
+      return [{ type: 'progress', goalId, progressEntryId: id }];
+    }
+    if (goalData.action === 'set_goal' && result.data?.goal) {
+      return [{ type: 'created', goalId: result.data.goal.id }];
+    }
+    return [];
+  }
+
   /**
    * Process goal action using GoalService
    */
   private async processGoalAction(
     goalData: GoalData,
     context: HandlerContext
-  ): Promise<{ message: string; data?: any }> {
+  ): Promise<{ success?: boolean; message: string; data?: any }> {
     const userId = context.userId;
 
     switch (goalData.action) {
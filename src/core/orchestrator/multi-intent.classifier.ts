@@ -83,6 +83,7 @@ export class MultiIntentClassifier {
           },
         ],
         {
+          stage: 'classifier',
           responseFormat: { type: 'json_object' },
           temperature: 0.3, // Lower temperature for consistent classification
           maxTokens: 500,
@@ -231,6 +232,7 @@ Return JSON: { "compatible": true/false, "reasoning": "brief explanation" }`;
       const response = await llmService.generateFromMessages(
         [{ role: 'system', content: prompt }],
         {
+          stage: 'classifier',
           responseFormat: { type: 'json_object' },
           temperature: 0.2,
           maxTokens: 100,
@@ -213,6 +213,7 @@ Generate a transition that fits the specific content and context above.`;
       const response = await llmService.generateFromMessages(
         [{ role: 'system', content: prompt }],
         {
+          stage: 'orchestrator',
           temperature: 0.7, // Higher temperature for variety
           maxTokens: 30,
         }
@@ -295,6 +296,7 @@ Return JSON: { "needsTransition": true/false }`;
         const response = await llmService.generateFromMessages(
           [{ role: 'system', content: prompt }],
           {
+            stage: 'orchestrator',
             responseFormat: { type: 'json_object' },
             temperature: 0.3,
             maxTokens: 50,
@@ -7,10 +7,19 @@
 
 import { ConversationMode } from '@/types/modes.js';
 import { logger } from '@/core/logger.js';
-import type { HandlerContext, IModeHandler } from '@/types/index.js';
+import type { GoalChange, HandlerContext, IModeHandler, ToolInvocation } from '@/types/index.js';
 import type { OrchestratedResponse, MultiIntentResult } from './types.js';
 import { llmService } from '@/core/llm.service.js';
 
+// One handler's contribution to an orchestrated response
+interface ModeResponse {
+  mode: ConversationMode;
+  response: string;
+  stateUpdates?: Record<string, unknown>;
+  toolInvocations?: ToolInvocation[];
+  goalChanges?: GoalChange[];
+}
+
 export class ResponseOrchestrator {
   private readonly config = {
     maxModesPerResponse: 3,
@@ -43,10 +52,12 @@ export class ResponseOrchestrator {
       }
 
       const primaryResult = await primaryHandler.handle(context);
-      const primaryResponse = {
+      const primaryResponse: ModeResponse = {
         mode: multiIntent.primary.mode,
         response: primaryResult.response,
         stateUpdates: primaryResult.stateUpdates,
+        toolInvocations: primaryResult.toolInvocations,
+        goalChanges: primaryResult.goalChanges,
       };
 
       // Step 3: Check if primary response already covers secondary intents
@@ -62,7 +73,8 @@ export class ResponseOrchestrator {
           {
             primaryLength: primaryResponse.response.length,
             secondaryModes,
-            reason: primaryResponse.response.length > 300 ? 'primary_comprehensive' : 'no_secondary',
+            reason:
+              primaryResponse.response.length > 300 ? 'primary_comprehensive' : 'no_secondary',
           },
           'Lazy init: Using primary response only'
         );
@@ -78,12 +90,18 @@ export class ResponseOrchestrator {
             transitionsAdded: false,
           },
           stateUpdates: primaryResult.stateUpdates,
+          toolInvocations: primaryResult.toolInvocations,
+          goalChanges: primaryResult.goalChanges,
         };
       }
 
       // Step 4: Generate secondary responses (only if needed)
       logger.debug({ secondaryModes }, 'Lazy init: Generating secondary responses');
-      const secondaryResponses = await this.generateModeResponses(context, handlers, secondaryModes);
+      const secondaryResponses = await this.generateModeResponses(
+        context,
+        handlers,
+        secondaryModes
+      );
 
       // Step 5: Combine responses
       const allResponses = [primaryResponse, ...secondaryResponses].filter(
@@ -109,6 +127,8 @@ export class ResponseOrchestrator {
           transitionsAdded: false,
         },
         stateUpdates: this.mergeStateUpdates(allResponses),
+        toolInvocations: this.mergeToolInvocations(allResponses),
+        goalChanges: this.mergeGoalChanges(allResponses),
       };
     } catch (error) {
       logger.error({ error }, 'Orchestration failed');
@@ -124,9 +144,7 @@ export class ResponseOrchestrator {
     context: HandlerContext,
     handlers: Map<ConversationMode, IModeHandler>,
     modes: ConversationMode[]
-  ): Promise<
-    Array<{ mode: ConversationMode; response: string; stateUpdates?: Record<string, unknown> }>
-  > {
+  ): Promise<ModeResponse[]> {
     if (this.config.parallelExecution) {
       // Generate responses in parallel with timeout
       const responsePromises = modes.map((mode) =>
@@ -137,16 +155,7 @@ export class ResponseOrchestrator {
 
       return results
         .filter((result) => result.status === 'fulfilled')
-        .map(
-          (result) =>
-            (
-              result as PromiseFulfilledResult<{
-                mode: ConversationMode;
-                response: string;
-                stateUpdates?: Record<string, unknown>;
-              }>
-            ).value
-        );
+        .map((result) => (result as PromiseFulfilledResult<ModeResponse>).value);
     } else {
       // Generate responses sequentially
       const responses = [];
@@ -173,7 +182,7 @@ export class ResponseOrchestrator {
     context: HandlerContext,
     handler: IModeHandler,
     mode: ConversationMode
-  ): Promise<{ mode: ConversationMode; response: string; stateUpdates?: Record<string, unknown> }> {
+  ): Promise<ModeResponse> {
     const timeoutPromise = new Promise<never>((_, reject) =>
       setTimeout(() => reject(new Error('Handler timeout')), this.config.handlerTimeout)
     );
@@ -182,6 +191,8 @@ export class ResponseOrchestrator {
       mode,
       response: result.response,
       stateUpdates: result.stateUpdates,
+      toolInvocations: result.toolInvocations,
+      goalChanges: result.goalChanges,
     }));
 
     return Promise.race([responsePromise, timeoutPromise]);
@@ -223,9 +234,7 @@ export class ResponseOrchestrator {
   /**
    * Detect if responses have conflicting content that requires LLM blending
    */
-  private detectConflicts(
-    responses: Array<{ mode: ConversationMode; response: string }>
-  ): boolean {
+  private detectConflicts(responses: Array<{ mode: ConversationMode; response: string }>): boolean {
     // Simple heuristic: Check for overlapping topics or contradictions
     // For now, check if multiple responses are substantial (might overlap)
     const substantialResponses = responses.filter((r) => r.response.length > 100);
@@ -235,13 +244,14 @@ export class ResponseOrchestrator {
     }
 
     // Check for potential topic overlap by looking at common words
-    const responseWords = responses.map((r) =>
-      new Set(
-        r.response
-          .toLowerCase()
-          .split(/\s+/)
-          .filter((w) => w.length > 4)
-      )
+    const responseWords = responses.map(
+      (r) =>
+        new Set(
+          r.response
+            .toLowerCase()
+            .split(/\s+/)
+            .filter((w) => w.length > 4)
+        )
     );
 
     // If responses share many words, there might be overlap that needs blending
@@ -295,6 +305,7 @@ Generate the combined response:`;
           },
         ],
         {
+          stage: 'orchestrator',
           temperature: 0.3,
           maxTokens: 500, // Reduced for performance
         }
@@ -335,6 +346,8 @@ Generate the combined response:`;
         transitionsAdded: false,
       },
       stateUpdates: result.stateUpdates,
+      toolInvocations: result.toolInvocations,
+      goalChanges: result.goalChanges,
     };
   }
 
@@ -356,6 +369,26 @@ Generate the combined response:`;
 
     return hasUpdates ? merged : undefined;
   }
+
+  /**
+   * Collect tool invocations from all contributing handlers
+   */
+  private mergeToolInvocations(
+    responses: Array<{ toolInvocations?: ToolInvocation[] }>
+  ): ToolInvocation[] | undefined {
+    const merged = responses.flatMap((response) => response.toolInvocations ?? []);
+    return merged.length > 0 ? merged : undefined;
+  }
+
+  /**
+   * Collect goal changes from all contributing handlers
+   */
+  private mergeGoalChanges(
+    responses: Array<{ goalChanges?: GoalChange[] }>
+  ): GoalChange[] | undefined {
+    const merged = responses.flatMap((response) => response.goalChanges ?? []);
+    return merged.length > 0 ? merged : undefined;
+  }
 }
 
 export const responseOrchestrator = new ResponseOrchestrator();
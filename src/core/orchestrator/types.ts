@@ -6,6 +6,7 @@
  */
 
 import { ConversationMode } from '@/types/modes.js';
+import type { GoalChange, ToolInvocation } from '@/types/index.js';
 
 /**
  * Represents a segment of response from a single mode handler
@@ -69,6 +70,12 @@ export interface OrchestratedResponse {
 
   /** Combined state updates from all segments */
   stateUpdates?: Record<string, any>;
+
+  /** Tool calls made by any contributing handler */
+  toolInvocations?: ToolInvocation[];
+
+  /** Goal changes made by any contributing handler without a tool call */
+  goalChanges?: GoalChange[];
 }
 
 /**
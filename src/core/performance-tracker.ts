@@ -6,8 +6,11 @@
  */
 
 import { logger } from './logger.js';
+import { config } from '@/config/index.js';
+import { getRequestContext } from './request-context.js';
 import pino from 'pino';
 import fs from 'fs';
+import { randomBytes } from 'crypto';
 import path from 'path';
 import chalk from 'chalk';
 
@@ -34,11 +37,29 @@ export interface Metric {
 }
 
 export interface PerformanceReport {
+  traceId: string;
   totalDuration: number;
   spans: Span[];
   metrics: Record<string, Metric[]>;
   bottlenecks: BottleneckInfo[];
   breakdown: StageBreakdown[];
+  cache: CacheStats;
+}
+
+/**
+ * Spans and metrics for one request (or the process-wide fallback)
+ */
+export interface TraceData {
+  traceId: string; // 32 hex chars, as in W3C trace context
+  spans: Map<string, Span>;
+  metrics: Map<string, Metric[]>;
+  spanCounter: number;
+  rootSpanId?: string;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
 }
 
 export interface BottleneckInfo {
@@ -56,15 +77,25 @@ export interface StageBreakdown {
   isParallel?: boolean;
 }
 
+/**
+ * Create empty trace data with a fresh trace ID
+ */
+export function createTraceData(): TraceData {
+  return {
+    traceId: randomBytes(16).toString('hex'),
+    spans: new Map(),
+    metrics: new Map(),
+    spanCounter: 0,
+  };
+}
+
 // ============================================================================
 // Performance Tracker Implementation
 // ============================================================================
 
 export class PerformanceTracker {
-  private spans: Map<string, Span> = new Map();
-  private metrics: Map<string, Metric[]> = new Map();
-  private spanCounter = 0;
-  private rootSpanId?: string;
+  // Read when no request context is active; stays empty, as nothing is recorded outside one
+  private fallbackTrace: TraceData = createTraceData();
   private enabled: boolean;
   private perfLogger: pino.Logger;
 
@@ -93,13 +124,21 @@ export class PerformanceTracker {
     });
   }
 
+  /**
+   * Trace of the current request
+   */
+  private get trace(): TraceData {
+    return getRequestContext()?.trace ?? this.fallbackTrace;
+  }
+
   /**
    * Start a new span for tracking an operation
+   * Outside a request context nothing is tracked and the span ID is empty
    */
   startSpan(name: string, parentId?: string): string {
-    if (!this.enabled) return '';
+    if (!this.enabled || !getRequestContext()) return '';
 
-    const spanId = `span_${++this.spanCounter}_${Date.now()}`;
+    const spanId = `span_${++this.trace.spanCounter}_${Date.now()}`;
 
     const span: Span = {
       id: spanId,
@@ -110,16 +149,16 @@ export class PerformanceTracker {
       attributes: {},
     };
 
-    this.spans.set(spanId, span);
+    this.trace.spans.set(spanId, span);
 
     // Track root span
-    if (!parentId && !this.rootSpanId) {
-      this.rootSpanId = spanId;
+    if (!parentId && !this.trace.rootSpanId) {
+      this.trace.rootSpanId = spanId;
     }
 
     // Add to parent's children
     if (parentId) {
-      const parent = this.spans.get(parentId);
+      const parent = this.trace.spans.get(parentId);
       if (parent) {
         parent.children.push(spanId);
       }
@@ -139,7 +178,7 @@ export class PerformanceTracker {
   endSpan(spanId: string, attributes?: Record<string, any>): void {
     if (!this.enabled || !spanId) return;
 
-    const span = this.spans.get(spanId);
+    const span = this.trace.spans.get(spanId);
     if (!span) {
       logger.warn({ spanId }, 'Performance: Attempted to end non-existent span');
       return;
@@ -175,17 +214,17 @@ export class PerformanceTracker {
   setSpanAttributes(spanId: string, attributes: Record<string, any>): void {
     if (!this.enabled || !spanId) return;
 
-    const span = this.spans.get(spanId);
+    const span = this.trace.spans.get(spanId);
     if (span) {
       span.attributes = { ...span.attributes, ...attributes };
     }
   }
 
   /**
-   * Record a metric value
+   * Record a metric value (ignored outside a request context)
    */
   recordMetric(name: string, value: number, tags?: Record<string, any>): void {
-    if (!this.enabled) return;
+    if (!this.enabled || !getRequestContext()) return;
 
     const metric: Metric = {
       name,
@@ -194,11 +233,11 @@ export class PerformanceTracker {
       tags,
     };
 
-    if (!this.metrics.has(name)) {
-      this.metrics.set(name, []);
+    if (!this.trace.metrics.has(name)) {
+      this.trace.metrics.set(name, []);
     }
 
-    this.metrics.get(name)!.push(metric);
+    this.trace.metrics.get(name)!.push(metric);
 
     logger.debug(
       { name, value, tags },
@@ -210,37 +249,60 @@ export class PerformanceTracker {
    * Generate a performance report
    */
   getReport(): PerformanceReport {
-    if (!this.rootSpanId) {
+    if (!this.trace.rootSpanId) {
       return {
+        traceId: this.trace.traceId,
         totalDuration: 0,
         spans: [],
         metrics: {},
         bottlenecks: [],
         breakdown: [],
+        cache: this.getCacheStats(),
       };
     }
 
-    const rootSpan = this.spans.get(this.rootSpanId);
+    const rootSpan = this.trace.spans.get(this.trace.rootSpanId);
     if (!rootSpan || !rootSpan.duration) {
       return {
+        traceId: this.trace.traceId,
         totalDuration: 0,
-        spans: Array.from(this.spans.values()),
-        metrics: Object.fromEntries(this.metrics),
+        spans: Array.from(this.trace.spans.values()),
+        metrics: Object.fromEntries(this.trace.metrics),
         bottlenecks: [],
         breakdown: [],
+        cache: this.getCacheStats(),
       };
     }
 
     const totalDuration = rootSpan.duration;
-    const breakdown = this.buildBreakdown(this.rootSpanId);
+    const breakdown = this.buildBreakdown(this.trace.rootSpanId);
     const bottlenecks = this.identifyBottlenecks(totalDuration);
 
     return {
+      traceId: this.trace.traceId,
       totalDuration,
-      spans: Array.from(this.spans.values()),
-      metrics: Object.fromEntries(this.metrics),
+      spans: Array.from(this.trace.spans.values()),
+      metrics: Object.fromEntries(this.trace.metrics),
       bottlenecks,
       breakdown,
+      cache: this.getCacheStats(),
+    };
+  }
+
+  /**
+   * Record an LLM response cache lookup
+   */
+  recordCacheLookup(hit: boolean): void {
+    this.recordMetric(hit ? 'llm.cache.hit' : 'llm.cache.miss', 1);
+  }
+
+  /**
+   * LLM response cache hits and misses for the current turn
+   */
+  getCacheStats(): CacheStats {
+    return {
+      hits: this.trace.metrics.get('llm.cache.hit')?.length || 0,
+      misses: this.trace.metrics.get('llm.cache.miss')?.length || 0,
     };
   }
 
@@ -248,7 +310,7 @@ export class PerformanceTracker {
    * Build hierarchical breakdown of stages
    */
   private buildBreakdown(spanId: string): StageBreakdown[] {
-    const span = this.spans.get(spanId);
+    const span = this.trace.spans.get(spanId);
     if (!span) return [];
 
     const breakdown: StageBreakdown[] = [];
@@ -259,7 +321,7 @@ export class PerformanceTracker {
     for (const group of childGroups) {
       if (group.length === 1) {
         // Sequential operation
-        const childSpan = this.spans.get(group[0]);
+        const childSpan = this.trace.spans.get(group[0]);
         if (childSpan && childSpan.duration) {
           const childBreakdown = this.buildBreakdown(group[0]);
           breakdown.push({
@@ -272,7 +334,7 @@ export class PerformanceTracker {
       } else {
         // Parallel operations
         const parallelSpans = group
-          .map(id => this.spans.get(id))
+          .map(id => this.trace.spans.get(id))
           .filter(s => s && s.duration) as Span[];
 
         if (parallelSpans.length > 0) {
@@ -304,7 +366,7 @@ export class PerformanceTracker {
     if (spanIds.length === 0) return [];
 
     const spans = spanIds
-      .map(id => ({ id, span: this.spans.get(id) }))
+      .map(id => ({ id, span: this.trace.spans.get(id) }))
       .filter(s => s.span)
       .sort((a, b) => a.span!.startTime - b.span!.startTime);
 
@@ -342,7 +404,7 @@ export class PerformanceTracker {
     const bottlenecks: BottleneckInfo[] = [];
     const threshold = totalDuration * 0.1; // Consider >10% as potential bottleneck
 
-    for (const span of this.spans.values()) {
+    for (const span of this.trace.spans.values()) {
       if (span.duration && span.duration > threshold) {
         bottlenecks.push({
           name: span.name,
@@ -375,8 +437,9 @@ export class PerformanceTracker {
       totalDuration: report.totalDuration,
       bottlenecks: report.bottlenecks,
       breakdown: report.breakdown,
+      cache: report.cache,
       metrics: Object.fromEntries(
-        Array.from(this.metrics.entries()).map(([key, values]) => [
+        Array.from(this.trace.metrics.entries()).map(([key, values]) => [
           key,
           {
             count: values.length,
@@ -438,7 +501,7 @@ export class PerformanceTracker {
 
     // LLM metrics
     // Get LLM spans with their attributes (including token usage)
-    const llmSpans = Array.from(this.spans.values()).filter(
+    const llmSpans = Array.from(this.trace.spans.values()).filter(
       (span) => span.name.includes('llm') || span.name.includes('openai')
     );
 
@@ -476,6 +539,11 @@ export class PerformanceTracker {
       }
     }
 
+    // LLM response cache
+    if (report.cache.hits + report.cache.misses > 0) {
+      output += `LLM Cache: ${report.cache.hits} hits, ${report.cache.misses} misses\n`;
+    }
+
     return output;
   }
 
@@ -507,13 +575,14 @@ export class PerformanceTracker {
   }
 
   /**
-   * Reset all tracking data
+   * Reset tracking data for the current request
    */
   reset(): void {
-    this.spans.clear();
-    this.metrics.clear();
-    this.spanCounter = 0;
-    this.rootSpanId = undefined;
+    this.trace.spans.clear();
+    this.trace.metrics.clear();
+    this.trace.spanCounter = 0;
+    this.trace.rootSpanId = undefined;
+    this.trace.traceId = randomBytes(16).toString('hex');
 
     logger.debug('Performance: Tracker reset');
   }
@@ -538,8 +607,10 @@ export class PerformanceTracker {
 // ============================================================================
 
 // Create singleton instance
-// Enable based on environment variable
-const isEnabled = process.env.PERF_TRACKING === 'true' ||
-                  process.env.NODE_ENV === 'development';
+// Enable based on environment variable, or when traces are exported
+const isEnabled =
+  process.env.PERF_TRACKING === 'true' ||
+  process.env.NODE_ENV === 'development' ||
+  config.telemetry.exporter !== 'none';
 
 export const performanceTracker = new PerformanceTracker(isEnabled);
\ No newline at end of file
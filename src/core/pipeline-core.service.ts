@@ -2,8 +2,10 @@
  * Pipeline Core Service
  * =====================
  * Handles core infrastructure operations for the pipeline:
- * - Loading conversations, messages, and state
+ * - Loading conversations, messages, and state (with rolling summaries of older turns)
  * - Saving messages and state snapshots
+ * - Saving per-turn pipeline traces
+ * - Promoting and recalling long-term user memories
  * - Managing conversation lifecycle
  */
 
@@ -12,10 +14,13 @@ import {
   conversationRepository,
   messageRepository,
   stateRepository,
+  pipelineTraceRepository,
 } from '@/database/repositories/index.js';
 import { logger } from '@/core/logger.js';
 import { config } from '@/config/index.js';
 import { pipelineDomainService } from './pipeline-domain.service.js';
+import { memoryService } from '@/services/memory.service.js';
+import { summaryService } from '@/services/summary.service.js';
 import {
   PipelineError,
   MessageRole,
@@ -25,7 +30,11 @@ import {
   type Conversation,
   type Message,
   type ConversationState,
+  type MessageMetadata,
+  type ContextElement,
 } from '@/types/index.js';
+import type { PerformanceReport } from './performance-tracker.js';
+import type { PipelineTurn } from './pipeline-hooks.js';
 
 export class PipelineCoreService {
   // ═══════════════════════════════════════════════════════════════════════
@@ -87,22 +96,20 @@ export class PipelineCoreService {
         await conversationRepository.updateActivity(conversation.id);
       }
 
-      // Load recent messages for context
-      const messages = await messageRepository.getRecentMessages(
-        conversation.id,
-        config.context.messageLimit
-      );
-
       // Load or initialize conversation state
       let state = await stateRepository.getLatestByConversationId(conversation.id);
+      const isNew = !state;
 
       if (!state) {
+        // New conversations start from what is remembered about the user
+        const memories = config.memory.enabled ? await this.recallMemories(context.userId) : [];
+
         // Initialize new state with SMALLTALK as default mode
         state = await stateRepository.create({
           id: uuidv4(),
           conversationId: conversation.id,
           mode: ConversationMode.SMALLTALK,
-          contextElements: [],
+          contextElements: memories,
           goals: [],
           lastActivityAt: new Date(),
         });
@@ -112,14 +119,28 @@ export class PipelineCoreService {
             conversationId: conversation.id,
             isNew: true,
             initialMode: state.mode,
+            memoriesRecalled: memories.length,
           },
           'Load stage: New conversation initialized'
         );
-      } else {
+      }
+
+      // Older turns are summarized rather than dropped from the history window
+      const { state: summarizedState, historyLimit } = await summaryService.refresh(
+        conversation.id,
+        state
+      );
+      state = summarizedState;
+
+      // Load recent messages for context
+      const messages = await messageRepository.getRecentMessages(conversation.id, historyLimit);
+
+      if (!isNew) {
         logger.info(
           {
             conversationId: conversation.id,
             messagesLoaded: messages.length,
+            summarizedMessages: state.metadata?.summary?.messageCount ?? 0,
             currentMode: state.mode,
             contextElements: state.contextElements.length,
             activeGoals: state.goals.filter((g) => g.status === 'active').length,
@@ -156,7 +177,8 @@ export class PipelineCoreService {
     userMessage: string,
     assistantResponse: string,
     state: ConversationState,
-    newMode: ConversationMode
+    newMode: ConversationMode,
+    assistantMetadata?: MessageMetadata
   ): Promise<string> {
     try {
       const timestamp = new Date();
@@ -177,6 +199,7 @@ export class PipelineCoreService {
         role: MessageRole.ASSISTANT,
         content: assistantResponse,
         timestamp: new Date(),
+        metadata: assistantMetadata, // Token usage and cost for the turn
       });
 
       // Always save state snapshot to persist context elements
@@ -188,6 +211,8 @@ export class PipelineCoreService {
         contextElements: state.contextElements,
         goals: state.goals,
         lastActivityAt: new Date(),
+        // Only the summary outlives the turn; other metadata is rebuilt by the stages
+        metadata: state.metadata?.summary ? { summary: state.metadata.summary } : undefined,
       });
 
       logger.info(
@@ -207,6 +232,87 @@ export class PipelineCoreService {
       throw new PipelineError('save', error as Error);
     }
   }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // TRACE
+  // ═══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Save what the turn's stages decided, keyed by the assistant message
+   * A failed write only loses debugging data, so it is logged rather than thrown
+   */
+  async saveTrace(
+    turn: PipelineTurn,
+    messageId: string,
+    performance: PerformanceReport
+  ): Promise<void> {
+    if (!config.pipelineTraces.enabled) return;
+
+    try {
+      const { metrics: _metrics, ...report } = performance;
+
+      await pipelineTraceRepository.create({
+        id: uuidv4(),
+        messageId,
+        conversationId: turn.conversationId!,
+        userId: turn.context.userId,
+        traceId: performance.traceId,
+        mode: turn.decision!.finalMode,
+        classification: turn.classification ?? null,
+        decision: turn.decision ?? null,
+        extractions: pipelineDomainService.summarizeExtractions(turn.extractions ?? []),
+        steering: (turn.steering ?? [])
+          .filter((result) => result.hints || result.error)
+          .map((result) => ({
+            domainId: result.domainId,
+            suggestions: result.hints?.suggestions ?? [],
+            priority: result.hints?.priority,
+            error: result.error?.message,
+          })),
+        retrieval: turn.retrieval ?? [],
+        performance: report,
+      });
+    } catch (error) {
+      logger.warn({ messageId, error }, 'Trace: Failed to save pipeline trace');
+    }
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // MEMORY
+  // ═══════════════════════════════════════════════════════════════════════
+
+  /**
+   * What is remembered about the user, for a new conversation's first state
+   * A conversation can start without memories, so a failed lookup is logged rather than thrown
+   */
+  private async recallMemories(userId: string): Promise<ContextElement[]> {
+    try {
+      return await memoryService.recall(userId);
+    } catch (error) {
+      logger.warn({ userId, error }, 'Memory: Failed to recall');
+      return [];
+    }
+  }
+
+  /**
+   * Promote what the turn established about the user into long-term memory
+   * Losing a memory update shouldn't fail a reply that was already saved
+   */
+  async saveMemories(turn: PipelineTurn, turnStartedAt: Date): Promise<void> {
+    if (!config.memory.enabled || !turn.state) return;
+
+    try {
+      await memoryService.promote(
+        turn.context.userId,
+        turn.conversationId!,
+        turn.state,
+        turn.extractions ?? [],
+        turnStartedAt
+      );
+    } catch (error) {
+      logger.warn({ conversationId: turn.conversationId, error }, 'Memory: Failed to promote');
+    }
+  }
 }
 
 export const pipelineCoreService = new PipelineCoreService();
@@ -20,14 +20,21 @@ import {
 } from '@/core/domains/registries/index.js';
 import { domainConfig } from '@/core/domains/config/DomainConfig.js';
 import { StorageFactory } from '@/core/domains/storage/index.js';
-import type { ConversationState } from '@/types/index.js';
-import type { ExtractedData, DomainDefinition, SteeringHints } from '@/core/domains/types.js';
+import { globalStage } from '@/core/stages/global.stage.js';
+import type { ConversationState, TraceExtraction } from '@/types/index.js';
+import type {
+  ExtractedData,
+  DomainContextElement,
+  DomainDefinition,
+  SteeringHints,
+} from '@/core/domains/types.js';
 
 // Helper types for domain operations
 export interface DomainExtractionResult {
   domainId: string;
   extracted: boolean;
   data: ExtractedData | null;
+  recordId?: string; // Stored domain_data row, set by storeExtractions
   error?: Error;
 }
 
@@ -61,7 +68,8 @@ export class PipelineDomainService {
       const extractionConfig = domainConfig.getExtractionConfig(domain.id);
 
       const context = {
-        recentMessages: (state.messages || []).slice(-5).map((m) => ({
+        // Trimmed to the extractor prompt budget
+        recentMessages: (state.messages || []).map((m) => ({
           role: m.role as string,
           content: m.content,
         })),
@@ -110,7 +118,7 @@ export class PipelineDomainService {
   }
 
   /**
-   * Merge extraction results into state
+   * Merge extraction results into state, with the context elements domains derive from them
    */
   mergeExtractionResults(
     state: ConversationState,
@@ -118,6 +126,7 @@ export class PipelineDomainService {
   ): ConversationState {
     const extractions: Record<string, ExtractedData[]> = {};
     const activeDomains: string[] = [];
+    const domainElements: DomainContextElement[] = [];
 
     for (const result of results) {
       if (result.extracted && result.data) {
@@ -129,11 +138,14 @@ export class PipelineDomainService {
         // Add extraction to domain array
         extractions[result.domainId].push(result.data);
         activeDomains.push(result.domainId);
+
+        const toElements = domainRegistry.getDomain(result.domainId)?.config.contextElements;
+        domainElements.push(...(toElements?.(result.data.data) ?? []));
       }
     }
 
     return {
-      ...state,
+      ...globalStage.mergeDomainElements(state, domainElements),
       extractions,
       metadata: {
         ...state.metadata,
@@ -144,6 +156,7 @@ export class PipelineDomainService {
 
   /**
    * Store extractions to domain storage
+   * Each stored result gets its recordId, so the turn can be undone by ID
    */
   async storeExtractions(
     results: DomainExtractionResult[],
@@ -165,7 +178,7 @@ export class PipelineDomainService {
               confidence: result.data!.confidence,
             };
 
-            await storage.store(dataWithContext);
+            result.recordId = await storage.store(dataWithContext);
 
             logger.debug({ domainId: result.domainId }, 'Domain data stored successfully');
           }
@@ -375,6 +388,19 @@ export class PipelineDomainService {
   // UTILITY METHODS
   // ═══════════════════════════════════════════════════════════════════════
 
+  /**
+   * Plain-data view of extraction results, for traces, events and API/CLI output
+   */
+  summarizeExtractions(results: DomainExtractionResult[]): TraceExtraction[] {
+    return results.map((result) => ({
+      domainId: result.domainId,
+      extracted: result.extracted,
+      data: result.data?.data,
+      confidence: result.data?.confidence,
+      error: result.error?.message,
+    }));
+  }
+
   /**
    * Helper to count context elements by type
    */
@@ -0,0 +1,125 @@
+/**
+ * Pipeline Events
+ *
+ * Typed progress events for one turn, for UIs that show what the assistant is doing
+ * while it works. Events are produced by per-turn hooks around the built-in stages,
+ * plus the handler's response tokens and the final result.
+ *
+ * Subscribe with pipeline.executeEvents(); the HTTP API forwards them as Server-Sent
+ * Events from POST /api/messages/stream.
+ */
+
+import { pipelineDomainService } from './pipeline-domain.service.js';
+import type { PipelineHooks, PipelineTurn } from './pipeline-hooks.js';
+import type {
+  ConversationMode,
+  IntentType,
+  PipelineResult,
+  SafetyLevel,
+  TraceExtraction,
+} from '@/types/index.js';
+
+export type PipelineEventBody =
+  | { type: 'stage.started'; stage: string }
+  | { type: 'stage.completed'; stage: string; durationMs: number }
+  | { type: 'stage.failed'; stage: string; error: string }
+  | { type: 'conversation.loaded'; conversationId: string; historyLength: number }
+  | {
+      type: 'classification.completed';
+      mode: ConversationMode;
+      intent: IntentType;
+      safetyLevel: SafetyLevel;
+      confidence: number;
+      overrideReason?: string;
+    }
+  | { type: 'domains.detected'; domains: string[] }
+  | { type: 'extraction.completed'; extractions: TraceExtraction[] }
+  | { type: 'token'; token: string }
+  | { type: 'save.completed'; messageId: string; conversationId: string }
+  | {
+      type: 'turn.completed';
+      response: string;
+      messageId: string;
+      conversationId: string;
+      processingTime: number;
+    }
+  | { type: 'turn.failed'; error: string };
+
+export type PipelineEvent = PipelineEventBody & {
+  elapsedMs: number; // Since the turn started
+};
+
+export type PipelineEventType = PipelineEvent['type'];
+
+export type PipelineEventListener = (event: PipelineEvent) => void;
+
+// Iterate for events; the last one is turn.completed or turn.failed
+export interface PipelineEventStream extends AsyncIterable<PipelineEvent> {
+  result: Promise<PipelineResult>;
+}
+
+/**
+ * Hooks that report a turn's stage progress to an emitter
+ */
+export function createEventHooks(emit: (event: PipelineEventBody) => void): PipelineHooks {
+  return {
+    name: 'pipeline-events',
+
+    beforeStage(stage) {
+      emit({ type: 'stage.started', stage });
+    },
+
+    afterStage(stage, turn, durationMs) {
+      emit({ type: 'stage.completed', stage, durationMs });
+      for (const event of describeStage(stage, turn)) {
+        emit(event);
+      }
+    },
+
+    onError(stage, error) {
+      emit({ type: 'stage.failed', stage, error: error.message });
+    },
+  };
+}
+
+/**
+ * What a finished stage added to the turn
+ */
+function describeStage(stage: string, turn: PipelineTurn): PipelineEventBody[] {
+  switch (stage) {
+    case 'load':
+      return [
+        {
+          type: 'conversation.loaded',
+          conversationId: turn.conversationId!,
+          historyLength: turn.messages.length,
+        },
+      ];
+
+    case 'classification': {
+      const decision = turn.decision!;
+      return [
+        {
+          type: 'classification.completed',
+          mode: decision.finalMode,
+          intent: decision.finalIntent,
+          safetyLevel: decision.safetyContext.level,
+          confidence: decision.confidence,
+          overrideReason: decision.overrideReason,
+        },
+        { type: 'domains.detected', domains: turn.classification?.relevantDomains ?? [] },
+      ];
+    }
+
+    case 'enrichment':
+      return [
+        {
+          type: 'extraction.completed',
+          extractions: pipelineDomainService.summarizeExtractions(turn.extractions ?? []),
+        },
+      ];
+
+    default:
+      return [];
+  }
+}
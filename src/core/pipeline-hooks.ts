@@ -0,0 +1,206 @@
+/**
+ * Pipeline Hooks
+ *
+ * Extension points around the pipeline stages. Hooks observe or adjust a turn as it
+ * moves through Load → Decay → Classification → Enrichment → Handler → Save, and
+ * custom stages run after a built-in stage without changing pipeline.ts.
+ *
+ * Hooks and custom stages share one mutable PipelineTurn per message. Anything they
+ * change (the message, state, handler result) is what later stages see.
+ */
+
+import { logger } from '@/core/logger.js';
+import { performanceTracker } from './performance-tracker.js';
+import type { UnifiedClassificationResult } from '@/core/classifiers/index.js';
+import type { DomainExtractionResult, SteeringResult } from './pipeline-domain.service.js';
+import type {
+  ArbiterDecision,
+  ConversationMode,
+  ConversationState,
+  HandlerResult,
+  Message,
+  MessageMetadata,
+  PipelineContext,
+  RetrievedFact,
+} from '@/types/index.js';
+
+export type BuiltinStage = 'load' | 'decay' | 'classification' | 'enrichment' | 'handler' | 'save';
+
+export const BUILTIN_STAGES: readonly BuiltinStage[] = [
+  'load',
+  'decay',
+  'classification',
+  'enrichment',
+  'handler',
+  'save',
+];
+
+/**
+ * One message's progress through the pipeline
+ * Fields are filled in as stages complete; hooks and custom stages may change them
+ */
+export interface PipelineTurn {
+  readonly context: PipelineContext;
+  message: string; // Starts as context.message; classification, handlers and save use this
+  conversationId?: string; // After load
+  messages: Message[]; // History, after load
+  state?: ConversationState; // After load, replaced by decay and enrichment
+  classification?: UnifiedClassificationResult; // After classification
+  decision?: ArbiterDecision; // After classification
+  extractions?: DomainExtractionResult[]; // After enrichment, one per relevant domain
+  steering?: SteeringResult[]; // After enrichment
+  retrieval?: RetrievedFact[]; // After enrichment, past facts given to the handler
+  handlerResult?: HandlerResult; // After handler
+  data: Record<string, unknown>; // Scratch space for hooks and custom stages
+}
+
+/**
+ * What the Save stage is about to persist
+ */
+export interface PendingSave {
+  userMessage: string;
+  response: string;
+  mode: ConversationMode;
+  metadata: MessageMetadata;
+}
+
+export interface PipelineHooks {
+  name?: string; // Shown in logs
+  beforeStage?(stage: string, turn: PipelineTurn): void | Promise<void>;
+  afterStage?(stage: string, turn: PipelineTurn, durationMs: number): void | Promise<void>;
+  onError?(stage: string, error: Error, turn: PipelineTurn): void | Promise<void>;
+  beforeSave?(pending: PendingSave, turn: PipelineTurn): void | Promise<void>;
+}
+
+export interface CustomStage {
+  name: string;
+  after: BuiltinStage; // Stages after the same built-in stage run in registration order
+  run(turn: PipelineTurn): void | Promise<void>;
+}
+
+/**
+ * Holds registered hooks and custom stages and runs stages through them
+ */
+export class PipelineHookRunner {
+  private hooks: PipelineHooks[] = [];
+  private stages: CustomStage[] = [];
+
+  /**
+   * Register hooks
+   * @returns Function that removes them again
+   */
+  use(hooks: PipelineHooks): () => void {
+    this.hooks.push(hooks);
+    logger.info({ hooks: hooks.name }, 'Pipeline hooks registered');
+
+    return () => {
+      this.hooks = this.hooks.filter((h) => h !== hooks);
+    };
+  }
+
+  /**
+   * Register a custom stage
+   * @returns Function that removes it again
+   */
+  registerStage(stage: CustomStage): () => void {
+    if (!BUILTIN_STAGES.includes(stage.after)) {
+      throw new Error(`Unknown pipeline stage: ${stage.after}`);
+    }
+    if (
+      BUILTIN_STAGES.includes(stage.name as BuiltinStage) ||
+      this.stages.some((s) => s.name === stage.name)
+    ) {
+      throw new Error(`Pipeline stage already exists: ${stage.name}`);
+    }
+
+    this.stages.push(stage);
+    logger.info({ stage: stage.name, after: stage.after }, 'Pipeline stage registered');
+
+    return () => {
+      this.stages = this.stages.filter((s) => s !== stage);
+    };
+  }
+
+  /**
+   * Run a built-in stage with hooks, then the custom stages registered after it
+   * turnHooks run after the registered hooks, for this turn only
+   */
+  async runStage<T>(
+    stage: BuiltinStage,
+    turn: PipelineTurn,
+    parentSpan: string,
+    execute: (span: string) => Promise<T>,
+    turnHooks: PipelineHooks[] = []
+  ): Promise<T> {
+    const hooks = [...this.hooks, ...turnHooks];
+    const result = await this.runWithHooks(hooks, stage, turn, parentSpan, execute);
+
+    for (const custom of this.stages.filter((s) => s.after === stage)) {
+      await this.runWithHooks(hooks, custom.name, turn, parentSpan, async () => custom.run(turn));
+    }
+
+    return result;
+  }
+
+  /**
+   * Let beforeSave hooks adjust what is persisted
+   */
+  async beforeSave(pending: PendingSave, turn: PipelineTurn): Promise<void> {
+    for (const hooks of this.hooks) {
+      await hooks.beforeSave?.(pending, turn);
+    }
+  }
+
+  private async runWithHooks<T>(
+    allHooks: PipelineHooks[],
+    stage: string,
+    turn: PipelineTurn,
+    parentSpan: string,
+    execute: (span: string) => Promise<T>
+  ): Promise<T> {
+    const span = performanceTracker.startSpan(`stage.${stage}`, parentSpan);
+    const startTime = Date.now();
+    let spanEnded = false;
+
+    try {
+      for (const hooks of allHooks) {
+        await hooks.beforeStage?.(stage, turn);
+      }
+
+      const result = await execute(span);
+      performanceTracker.endSpan(span);
+      spanEnded = true;
+
+      for (const hooks of allHooks) {
+        await hooks.afterStage?.(stage, turn, Date.now() - startTime);
+      }
+
+      return result;
+    } catch (error) {
+      if (!spanEnded) performanceTracker.endSpan(span, { error: true });
+      await this.notifyError(allHooks, stage, error as Error, turn);
+      throw error;
+    }
+  }
+
+  /**
+   * onError hooks are observers; their own failures are logged, not rethrown
+   */
+  private async notifyError(
+    allHooks: PipelineHooks[],
+    stage: string,
+    error: Error,
+    turn: PipelineTurn
+  ): Promise<void> {
+    for (const hooks of allHooks) {
+      try {
+        await hooks.onError?.(stage, error, turn);
+      } catch (hookError) {
+        logger.error(
+          { hooks: hooks.name, stage, error: hookError },
+          'Pipeline onError hook failed'
+        );
+      }
+    }
+  }
+}
@@ -50,6 +50,7 @@
  * - pipeline.ts: Main orchestration and parallel enrichment coordination
  * - pipeline-domain.service.ts: Domain classification, extraction, steering, and history
  * - pipeline-core.service.ts: Core infrastructure (load/save stages)
+ * - pipeline-hooks.ts: Hook API (beforeStage/afterStage/onError/beforeSave) and custom stages
  */
 
 import { decayStage } from '@/core/stages/decay.stage.js';
@@ -65,24 +66,58 @@ import { metaHandler } from '@/core/modes/meta.handler.js';
 import { trackProgressHandler } from '@/core/modes/track-progress.handler.js'; // MVP v4
 import { logger } from '@/core/logger.js';
 import { responseOrchestrator } from '@/core/orchestrator/index.js'; // MVP v3
-import { pipelineDomainService } from './pipeline-domain.service.js';
+import {
+  pipelineDomainService,
+  type DomainExtractionResult,
+  type SteeringResult,
+} from './pipeline-domain.service.js';
 import { pipelineCoreService } from './pipeline-core.service.js';
+import { retrievalService } from '@/services/retrieval.service.js';
 import { performanceTracker } from './performance-tracker.js';
+import { AsyncQueue } from './async-queue.js';
+import { usageTracker } from './usage-tracker.js';
+import { createRequestContext, runWithRequestContext } from './request-context.js';
+import { traceExporter } from './telemetry/index.js';
+import {
+  createEventHooks,
+  type PipelineEvent,
+  type PipelineEventBody,
+  type PipelineEventListener,
+  type PipelineEventStream,
+} from './pipeline-events.js';
+import {
+  PipelineHookRunner,
+  type BuiltinStage,
+  type CustomStage,
+  type PendingSave,
+  type PipelineHooks,
+  type PipelineTurn,
+} from './pipeline-hooks.js';
 import {
   PipelineError,
   SafetyLevel,
   ConversationMode,
   type PipelineContext,
   type PipelineResult,
+  type StreamingPipelineResult,
   type Message,
   type ConversationState,
   type IModeHandler,
+  type HandlerContext,
+  type HandlerResult,
+  type MessageMetadata,
   type ArbiterDecision,
   type ClassificationContext,
   type SafetyResult,
   type IntentResult,
 } from '@/types/index.js';
 
+interface EnrichmentResult {
+  state: ConversationState;
+  extractionResults: DomainExtractionResult[];
+  steeringResults: SteeringResult[];
+}
+
 /**
  * Main Pipeline Class
  * ===================
@@ -91,6 +126,7 @@ import {
  */
 export class Pipeline {
   private modeHandlers: Map<ConversationMode, IModeHandler>;
+  private hooks = new PipelineHookRunner();
 
   constructor() {
     // Register mode handlers
@@ -110,204 +146,471 @@ export class Pipeline {
    * Stages: Load → Decay → Classification → Parallel Enrichment → Handle → Save
    */
   async execute(context: PipelineContext): Promise<PipelineResult> {
-    const startTime = Date.now();
+    return this.run(context);
+  }
 
-    // Start root performance span
-    performanceTracker.reset(); // Clear any previous tracking
-    const rootSpan = performanceTracker.startSpan('pipeline.execute');
+  /**
+   * Execute the pipeline, streaming response tokens as the handler produces them
+   * Iterate the returned value for tokens; `result` resolves after the Save stage
+   */
+  executeStream(context: PipelineContext): StreamingPipelineResult {
+    const tokens = new AsyncQueue<string>();
+    const result = this.run(context, (token) => tokens.push(token));
 
-    try {
-      // Stage 1: Load conversation, messages, and state
-      const loadSpan = performanceTracker.startSpan('stage.load', rootSpan);
-      const { conversation, messages, state } = await pipelineCoreService.loadStage(context);
-      performanceTracker.endSpan(loadSpan);
+    result.then(
+      () => tokens.close(),
+      (error: Error) => tokens.fail(error)
+    );
 
-      // Stage 2: Apply decay to state
-      const decaySpan = performanceTracker.startSpan('stage.decay', rootSpan);
-      const decayedState = decayStage.applyDecay(state);
-      performanceTracker.endSpan(decaySpan);
+    return {
+      result,
+      [Symbol.asyncIterator]: () => tokens[Symbol.asyncIterator](),
+    };
+  }
 
-      logger.debug(
-        {
-          conversationId: conversation.id,
-          beforeDecay: {
-            contextElements: state.contextElements.length,
-            goals: state.goals.length,
-          },
-          afterDecay: {
-            contextElements: decayedState.contextElements.length,
-            goals: decayedState.goals.length,
-          },
-          elementsRemoved: state.contextElements.length - decayedState.contextElements.length,
-          goalsRemoved: state.goals.length - decayedState.goals.length,
-        },
-        'Decay stage: State decay applied'
-      );
+  /**
+   * Execute the pipeline, reporting progress as typed events
+   * Iterate the returned value for events; the stream ends after turn.completed or turn.failed
+   */
+  executeEvents(context: PipelineContext): PipelineEventStream {
+    const events = new AsyncQueue<PipelineEvent>();
+    const result = this.run(context, undefined, (event) => events.push(event));
+
+    // turn.failed is already queued, so a failed turn still ends the stream normally
+    result.then(
+      () => events.close(),
+      () => events.close()
+    );
 
-      // Stage 3: Unified Classification (Safety + Intent + Domain + MultiIntent in ONE call)
-      const classificationSpan = performanceTracker.startSpan('stage.classification', rootSpan);
-      const { decision, safetyResult, intentResult, unifiedResult } =
-        await this.classificationStage(context, messages, decayedState, classificationSpan);
-      performanceTracker.endSpan(classificationSpan);
+    return {
+      result,
+      [Symbol.asyncIterator]: () => events[Symbol.asyncIterator](),
+    };
+  }
 
-      // Stage 4: Parallel Enrichment (Global + Extraction + Steering)
-      // Domain classification is now done in unified classifier - no separate call needed
-      const enrichmentSpan = performanceTracker.startSpan('stage.enrichment', rootSpan);
-      const enrichedState = await this.parallelEnrichmentStage(
-        context,
-        messages,
-        decayedState,
-        { decision, safetyResult, intentResult },
-        conversation.id,
-        unifiedResult // Pass unified result for domain filtering
-      );
-      performanceTracker.endSpan(enrichmentSpan);
+  /**
+   * Shared entry point for execute(), executeStream() and executeEvents()
+   * Runs the turn inside its own request context
+   */
+  private run(
+    context: PipelineContext,
+    onToken?: (token: string) => void,
+    onEvent?: PipelineEventListener
+  ): Promise<PipelineResult> {
+    // Each turn gets its own spans and usage records, so concurrent turns don't mix
+    return runWithRequestContext(createRequestContext(context.userId), () =>
+      this.runTurn(context, onToken, onEvent)
+    );
+  }
 
-      // Stage 5: Handle message - use multi-intent from unified classification
-      const handlerSpan = performanceTracker.startSpan('stage.handler', rootSpan);
+  /**
+   * Stage sequence for one turn
+   * When onToken is given, handlers that support it stream; others emit their full response once
+   * When onEvent is given, stage progress and tokens are also reported as events
+   */
+  private async runTurn(
+    context: PipelineContext,
+    onToken?: (token: string) => void,
+    onEvent?: PipelineEventListener
+  ): Promise<PipelineResult> {
+    const startTime = Date.now();
+
+    // Start root performance span
+    const rootSpan = performanceTracker.startSpan('pipeline.execute');
 
-      let handlerResult: { response: string; stateUpdates?: any };
+    const turn: PipelineTurn = { context, message: context.message, messages: [], data: {} };
+
+    const emit = (event: PipelineEventBody) =>
+      onEvent?.({ ...event, elapsedMs: Date.now() - startTime });
+    const eventHooks = onEvent ? [createEventHooks(emit)] : [];
+    const runStage = <T>(stage: BuiltinStage, execute: (span: string) => Promise<T>) =>
+      this.hooks.runStage(stage, turn, rootSpan, execute, eventHooks);
+    const handleToken = onEvent
+      ? (token: string) => {
+          onToken?.(token);
+          emit({ type: 'token', token });
+        }
+      : onToken;
 
-      // Use multi-intent detection from unified classifier (no separate LLM call!)
-      const shouldOrchestrate =
-        unifiedResult.multiIntent.isMultiIntent && unifiedResult.multiIntent.detectedModes.length > 1;
+    try {
+      // Stage 1: Load conversation, messages, and state
+      await runStage('load', async () => {
+        const { conversation, messages, state } = await pipelineCoreService.loadStage(context);
+        turn.conversationId = conversation.id;
+        turn.messages = messages;
+        turn.state = state;
+      });
 
-      if (shouldOrchestrate) {
-        // Use orchestrator for multi-mode responses
-        // Build multi-intent result from unified classification
-        const detectedModes = unifiedResult.multiIntent.detectedModes;
-        const primaryMode = detectedModes[0] || decision.finalMode;
-        const secondaryModes = detectedModes.slice(1);
+      // Stage 2: Apply decay to state
+      await runStage('decay', async () => {
+        const state = turn.state!;
+        const decayedState = decayStage.applyDecay(state);
 
-        logger.info(
+        logger.debug(
           {
-            conversationId: conversation.id,
-            primaryMode,
-            secondaryModes,
-            hasConflicts: unifiedResult.multiIntent.hasConflictingIntents,
+            conversationId: turn.conversationId,
+            beforeDecay: {
+              contextElements: state.contextElements.length,
+              goals: state.goals.length,
+            },
+            afterDecay: {
+              contextElements: decayedState.contextElements.length,
+              goals: decayedState.goals.length,
+            },
+            elementsRemoved: state.contextElements.length - decayedState.contextElements.length,
+            goalsRemoved: state.goals.length - decayedState.goals.length,
           },
-          'Handler stage: Multi-intent detected, using orchestrator'
+          'Decay stage: State decay applied'
         );
 
-        const handlerContext = {
-          conversationId: conversation.id,
-          userId: context.userId,
-          message: context.message,
-          messages: messages.map((m) => ({ role: m.role, content: m.content })),
-          currentMode: decision.finalMode,
-          state: enrichedState as any, // ConversationState to Record<string, unknown>
-        };
-
-        // Build a compatible multi-intent result for the orchestrator
-        const multiIntentResult = {
-          primary: { mode: primaryMode, confidence: unifiedResult.confidence },
-          secondary: secondaryModes.map((m) => ({ mode: m, confidence: 0.7 })),
-          requiresOrchestration: true,
-          compositionStrategy: unifiedResult.multiIntent.hasConflictingIntents
-            ? ('blended' as const)
-            : ('sequential' as const),
-        };
+        turn.state = decayedState;
+      });
 
-        const orchestrateSpan = performanceTracker.startSpan('handler.orchestrate', handlerSpan);
-        const orchestratedResponse = await responseOrchestrator.orchestrate(
-          handlerContext,
-          this.modeHandlers,
-          multiIntentResult
+      // Stage 3: Unified Classification (Safety + Intent + Domain + MultiIntent in ONE call)
+      const { safetyResult, intentResult } = await runStage('classification', async (span) => {
+        const result = await this.classificationStage(
+          { ...context, message: turn.message },
+          turn.messages,
+          turn.state!,
+          span
         );
-        performanceTracker.endSpan(orchestrateSpan);
+        turn.decision = result.decision;
+        turn.classification = result.unifiedResult;
+        return result;
+      });
 
-        handlerResult = {
-          response: orchestratedResponse.response,
-          stateUpdates: orchestratedResponse.stateUpdates,
-        };
+      // Stage 4: Parallel Enrichment (Retrieval, then Global + Extraction + Steering)
+      // Domain classification is now done in unified classifier - no separate call needed
+      await runStage('enrichment', async () => {
+        // Before extraction stores this turn's data, so only past facts can match
+        turn.retrieval = await retrievalService.retrieve(turn.context.userId, turn.message, {
+          excludeSourceIds: turn.messages.map((m) => m.id),
+        });
 
-        logger.info(
-          {
-            conversationId: conversation.id,
-            modesUsed: orchestratedResponse.modesUsed,
-            segments: orchestratedResponse.segments.length,
-            compositionTime: orchestratedResponse.metadata.compositionTime,
-          },
-          'Handler stage: Orchestration complete'
+        const enrichment = await this.parallelEnrichmentStage(
+          { ...context, message: turn.message },
+          turn.messages,
+          turn.state!,
+          { decision: turn.decision!, safetyResult, intentResult },
+          turn.conversationId!,
+          turn.classification // Pass unified result for domain filtering
         );
-      } else {
-        // Single intent - use traditional handler
-        const handler = this.modeHandlers.get(decision.finalMode);
-        if (!handler) {
-          throw new Error(`No handler found for mode: ${decision.finalMode}`);
-        }
+        turn.state =
+          turn.retrieval.length > 0
+            ? { ...enrichment.state, retrievedFacts: turn.retrieval }
+            : enrichment.state;
+        turn.extractions = enrichment.extractionResults;
+        turn.steering = enrichment.steeringResults;
+      });
 
-        logger.info(
-          {
-            conversationId: conversation.id,
-            handlerMode: decision.finalMode,
-            safetyLevel: decision.safetyContext.level,
-            isCrisis: decision.safetyContext.isCrisis,
-            contextProvided: {
-              messages: messages.length,
-              contextElements: enrichedState.contextElements.length,
-              activeGoals: enrichedState.goals.filter((g) => g.status === 'active').length,
-              activeDomains: enrichedState.metadata?.activeDomains?.length || 0,
-              steeringHints: enrichedState.steeringHints?.suggestions?.length || 0,
-            },
-          },
-          'Handler stage: Single intent, routing to mode handler'
+      // Stage 5: Handle message - use multi-intent from unified classification
+      await runStage('handler', async (span) => {
+        turn.handlerResult = await this.handlerStage(
+          turn,
+          { safetyResult, intentResult },
+          span,
+          handleToken
         );
-
-        // Build classification context for handler
-        const classificationContext: ClassificationContext = {
-          decision,
-          safetySignals: safetyResult.signals || [],
-          entities: intentResult.entities || [],
-        };
-
-        const singleHandlerSpan = performanceTracker.startSpan('handler.single', handlerSpan);
-        handlerResult = await handler.handle({
-          conversationId: conversation.id,
-          userId: context.userId,
-          message: context.message,
-          messages: messages.map((m) => ({ role: m.role, content: m.content })),
-          currentMode: decision.finalMode,
-          state: enrichedState as any, // Use fully enriched state
-          classification: classificationContext,
-        });
-        performanceTracker.endSpan(singleHandlerSpan);
-      }
-      performanceTracker.endSpan(handlerSpan);
+      });
 
       // Stage 6: Save messages and updated state
-      const saveSpan = performanceTracker.startSpan('stage.save', rootSpan);
-      const messageId = await pipelineCoreService.saveStage(
-        conversation.id,
-        context.message,
-        handlerResult.response,
-        enrichedState,
-        decision.finalMode
-      );
-      performanceTracker.endSpan(saveSpan);
+      const handlerResult = turn.handlerResult!;
+      const messageId = await runStage('save', async () => {
+        const pending: PendingSave = {
+          userMessage: turn.message,
+          response: handlerResult.response,
+          mode: turn.decision!.finalMode,
+          metadata: {
+            ...this.buildUsageMetadata(startTime),
+            // Persisted with the reply so tool side effects can be traced back to the turn
+            ...(handlerResult.toolInvocations?.length
+              ? { toolInvocations: handlerResult.toolInvocations }
+              : {}),
+            ...(handlerResult.goalChanges?.length
+              ? { goalChanges: handlerResult.goalChanges }
+              : {}),
+            ...this.buildDomainRecords(turn.extractions ?? []),
+          },
+        };
+        await this.hooks.beforeSave(pending, turn);
+
+        return pipelineCoreService.saveStage(
+          turn.conversationId!,
+          pending.userMessage,
+          pending.response,
+          turn.state!,
+          pending.mode,
+          pending.metadata
+        );
+      });
+      emit({ type: 'save.completed', messageId, conversationId: turn.conversationId! });
 
       // End root span and get performance report
-      performanceTracker.endSpan(rootSpan);
+      performanceTracker.endSpan(rootSpan, this.buildRootSpanAttributes(turn));
       const processingTime = Date.now() - startTime;
+      const performance = performanceTracker.getReport();
 
       // Log performance report if enabled
       if (performanceTracker.isEnabled()) {
         // Log to dedicated performance.log file and optionally to console
         performanceTracker.logReport();
       }
+      traceExporter.export(performance);
+      await pipelineCoreService.saveTrace(turn, messageId, performance);
+      await pipelineCoreService.saveMemories(turn, new Date(startTime));
+
+      emit({
+        type: 'turn.completed',
+        response: turn.handlerResult!.response,
+        messageId,
+        conversationId: turn.conversationId!,
+        processingTime,
+      });
 
       return {
-        response: handlerResult.response,
+        response: turn.handlerResult!.response,
         processingTime,
         messageId,
-        conversationId: conversation.id,
+        conversationId: turn.conversationId!,
+        mode: turn.decision!.finalMode,
+        safetyLevel: turn.decision!.safetyContext.level,
+        extractions: pipelineDomainService.summarizeExtractions(turn.extractions ?? []),
+        performance,
       };
     } catch (error) {
-      performanceTracker.endSpan(rootSpan);
+      performanceTracker.endSpan(rootSpan, { ...this.buildRootSpanAttributes(turn), error: true });
+      traceExporter.export(performanceTracker.getReport());
+      emit({ type: 'turn.failed', error: (error as Error).message });
       throw new PipelineError('pipeline', error as Error, context);
     }
   }
 
+  // ═══════════════════════════════════════════════════════════════════════
+  // HOOKS AND CUSTOM STAGES
+  // ═══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Register hooks that run around every stage
+   * @returns Function that removes them again
+   */
+  use(hooks: PipelineHooks): () => void {
+    return this.hooks.use(hooks);
+  }
+
+  /**
+   * Register a custom stage to run after one of the built-in stages
+   * @returns Function that removes it again
+   */
+  registerStage(stage: CustomStage): () => void {
+    return this.hooks.registerStage(stage);
+  }
+
+  /**
+   * Identify the turn on its root span, for trace export
+   */
+  private buildRootSpanAttributes(turn: PipelineTurn): Record<string, unknown> {
+    return {
+      userId: turn.context.userId,
+      conversationId: turn.conversationId,
+      mode: turn.decision?.finalMode,
+      safetyLevel: turn.decision?.safetyContext.level,
+    };
+  }
+
+  /**
+   * Summarize this turn's LLM usage for the assistant message metadata
+   */
+  private buildUsageMetadata(startTime: number): MessageMetadata {
+    const usage = usageTracker.getSummary();
+
+    return {
+      tokensUsed: usage.totalTokens,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      costUsd: usage.costUsd,
+      // The model that wrote the reply (orchestrated turns may not have a handler call)
+      model: usageTracker.getLastModel('handler') ?? usageTracker.getLastModel(),
+      processingTimeMs: Date.now() - startTime,
+      usageByStage: usage.byStage,
+    };
+  }
+
+  /**
+   * The domain data rows stored this turn, so undo removes exactly these
+   */
+  private buildDomainRecords(extractions: DomainExtractionResult[]): MessageMetadata {
+    const domainRecords = extractions
+      .filter((result) => result.recordId)
+      .map((result) => ({ domainId: result.domainId, recordId: result.recordId! }));
+
+    return domainRecords.length > 0 ? { domainRecords } : {};
+  }
+
+  /**
+   * Drain a handler stream, forwarding tokens and returning the handler's final result
+   */
+  private async consumeHandlerStream(
+    stream: AsyncGenerator<string, HandlerResult>,
+    onToken: (token: string) => void
+  ): Promise<HandlerResult> {
+    let next = await stream.next();
+    while (!next.done) {
+      onToken(next.value);
+      next = await stream.next();
+    }
+    return next.value;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // HANDLER STAGE
+  // ═══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Handler Stage: Route to a single mode handler, or orchestrate several for multi-intent
+   * When onToken is given, handlers that support it stream; others emit their full response once
+   */
+  private async handlerStage(
+    turn: PipelineTurn,
+    classificationResults: { safetyResult: SafetyResult; intentResult: IntentResult },
+    handlerSpan: string,
+    onToken?: (token: string) => void
+  ): Promise<HandlerResult> {
+    const conversationId = turn.conversationId!;
+    const decision = turn.decision!;
+    const unifiedResult = turn.classification!;
+    const enrichedState = turn.state!;
+    const { messages } = turn;
+    const { safetyResult, intentResult } = classificationResults;
+
+    let handlerResult: HandlerResult;
+
+    // Use multi-intent detection from unified classifier (no separate LLM call!)
+    // A forced mode answers with that one handler only
+    const shouldOrchestrate =
+      !turn.context.forceMode &&
+      unifiedResult.multiIntent.isMultiIntent &&
+      unifiedResult.multiIntent.detectedModes.length > 1;
+
+    if (shouldOrchestrate) {
+      // Use orchestrator for multi-mode responses
+      // Build multi-intent result from unified classification
+      const detectedModes = unifiedResult.multiIntent.detectedModes;
+      const primaryMode = detectedModes[0] || decision.finalMode;
+      const secondaryModes = detectedModes.slice(1);
+
+      logger.info(
+        {
+          conversationId,
+          primaryMode,
+          secondaryModes,
+          hasConflicts: unifiedResult.multiIntent.hasConflictingIntents,
+        },
+        'Handler stage: Multi-intent detected, using orchestrator'
+      );
+
+      const handlerContext = {
+        conversationId,
+        userId: turn.context.userId,
+        message: turn.message,
+        messages: messages.map((m) => ({ role: m.role, content: m.content })),
+        currentMode: decision.finalMode,
+        state: enrichedState as any, // ConversationState to Record<string, unknown>
+      };
+
+      // Build a compatible multi-intent result for the orchestrator
+      const multiIntentResult = {
+        primary: { mode: primaryMode, confidence: unifiedResult.confidence },
+        secondary: secondaryModes.map((m) => ({ mode: m, confidence: 0.7 })),
+        requiresOrchestration: true,
+        compositionStrategy: unifiedResult.multiIntent.hasConflictingIntents
+          ? ('blended' as const)
+          : ('sequential' as const),
+      };
+
+      const orchestrateSpan = performanceTracker.startSpan('handler.orchestrate', handlerSpan);
+      const orchestratedResponse = await responseOrchestrator.orchestrate(
+        handlerContext,
+        this.modeHandlers,
+        multiIntentResult
+      );
+      performanceTracker.endSpan(orchestrateSpan);
+
+      handlerResult = {
+        response: orchestratedResponse.response,
+        stateUpdates: orchestratedResponse.stateUpdates,
+        toolInvocations: orchestratedResponse.toolInvocations,
+        goalChanges: orchestratedResponse.goalChanges,
+      };
+
+      // Composed responses only exist once all segments are done
+      onToken?.(orchestratedResponse.response);
+
+      logger.info(
+        {
+          conversationId,
+          modesUsed: orchestratedResponse.modesUsed,
+          segments: orchestratedResponse.segments.length,
+          compositionTime: orchestratedResponse.metadata.compositionTime,
+        },
+        'Handler stage: Orchestration complete'
+      );
+    } else {
+      // Single intent - use traditional handler
+      const handler = this.modeHandlers.get(decision.finalMode);
+      if (!handler) {
+        throw new Error(`No handler found for mode: ${decision.finalMode}`);
+      }
+
+      logger.info(
+        {
+          conversationId,
+          handlerMode: decision.finalMode,
+          safetyLevel: decision.safetyContext.level,
+          isCrisis: decision.safetyContext.isCrisis,
+          contextProvided: {
+            messages: messages.length,
+            contextElements: enrichedState.contextElements.length,
+            activeGoals: enrichedState.goals.filter((g) => g.status === 'active').length,
+            activeDomains: enrichedState.metadata?.activeDomains?.length || 0,
+            steeringHints: enrichedState.steeringHints?.suggestions?.length || 0,
+          },
+        },
+        'Handler stage: Single intent, routing to mode handler'
+      );
+
+      // Build classification context for handler
+      const classificationContext: ClassificationContext = {
+        decision,
+        safetySignals: safetyResult.signals || [],
+        entities: intentResult.entities || [],
+      };
+
+      const handlerContext: HandlerContext = {
+        conversationId,
+        userId: turn.context.userId,
+        message: turn.message,
+        messages: messages.map((m) => ({ role: m.role, content: m.content })),
+        currentMode: decision.finalMode,
+        state: enrichedState as any, // Use fully enriched state
+        classification: classificationContext,
+      };
+
+      const singleHandlerSpan = performanceTracker.startSpan('handler.single', handlerSpan);
+      if (onToken && handler.handleStream) {
+        handlerResult = await this.consumeHandlerStream(
+          handler.handleStream(handlerContext),
+          onToken
+        );
+      } else {
+        handlerResult = await handler.handle(handlerContext);
+        onToken?.(handlerResult.response);
+      }
+      performanceTracker.endSpan(singleHandlerSpan, { streamed: !!onToken });
+    }
+
+    return handlerResult;
+  }
+
   // ═══════════════════════════════════════════════════════════════════════
   // CLASSIFICATION STAGE
   // ═══════════════════════════════════════════════════════════════════════
@@ -334,7 +637,8 @@ export class Pipeline {
       // UNIFIED CLASSIFICATION: One LLM call for Safety + Intent + Domain + MultiIntent
       const unifiedResult = await unifiedClassifier.classify({
         message: context.message,
-        recentMessages: messages.slice(-5).map((m) => ({
+        // Trimmed to the classifier prompt budget
+        recentMessages: messages.map((m) => ({
           role: m.role,
           content: m.content,
         })),
@@ -364,6 +668,7 @@ export class Pipeline {
         safetyResult,
         intentResult,
         currentMode: state.mode,
+        forcedMode: context.forceMode,
       });
 
       const classificationDuration = Date.now() - classificationStart;
@@ -405,7 +710,7 @@ export class Pipeline {
     },
     conversationId: string,
     unifiedResult?: UnifiedClassificationResult
-  ): Promise<ConversationState> {
+  ): Promise<EnrichmentResult> {
     const parallelStart = Date.now();
 
     // Prepare state with messages for domain operations
@@ -461,7 +766,7 @@ export class Pipeline {
     // If no domains are relevant, return early with just global context
     if (domainClassification.length === 0) {
       logger.debug('No relevant domains found, skipping extraction/steering');
-      return globalResult.state;
+      return { state: globalResult.state, extractionResults: [], steeringResults: [] };
     }
 
     // Use global result state merged with messages for domain operations
@@ -551,7 +856,7 @@ export class Pipeline {
       'Parallel enrichment stage complete'
     );
 
-    return finalState;
+    return { state: finalState, extractionResults, steeringResults };
   }
 }
 
@@ -0,0 +1,159 @@
+/**
+ * Prompt Budget
+ *
+ * Shared token budgeting for prompt assembly. Callers describe the pieces
+ * of a prompt as prioritized sections (system prompt, context elements,
+ * domain extractions, steering hints, message history); the budget keeps
+ * required sections whole, then fills the remaining tokens by priority and
+ * drops or truncates whatever does not fit.
+ *
+ * Token counts are a local estimate (~4 characters per token), good enough
+ * for budgeting without a tokenizer dependency.
+ */
+
+import { logger } from './logger.js';
+
+const CHARS_PER_TOKEN = 4;
+
+export interface BudgetSection {
+  name: string;
+  items: string[]; // Most important first (e.g. newest message first)
+  priority?: number; // Higher priority sections are filled first (default 0)
+  required?: boolean; // Always kept in full and counted before anything else
+  maxTokens?: number; // Cap for this section
+  itemMaxTokens?: number; // Longer items are truncated to this many tokens
+}
+
+export interface SectionAllocation {
+  name: string;
+  requestedTokens: number;
+  allocatedTokens: number;
+  itemsKept: number;
+  itemsDropped: number;
+  itemsTruncated: number;
+}
+
+export interface BudgetAllocation {
+  label: string;
+  budget: number;
+  used: number;
+  sections: SectionAllocation[];
+}
+
+export interface BudgetResult {
+  sections: Record<string, string[]>; // Kept items per section, in the order given
+  allocation: BudgetAllocation;
+}
+
+/**
+ * Estimate the token count of a piece of text
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Cut text down to roughly maxTokens, marking the cut with an ellipsis
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  if (text.length <= maxChars) return text;
+  return `${text.substring(0, Math.max(0, maxChars - 1)).trimEnd()}…`;
+}
+
+export class PromptBudget {
+  /**
+   * @param label Identifies the call site in allocation logs (e.g. 'handler.consult')
+   * @param budget Total tokens available for the sections passed to allocate()
+   */
+  constructor(
+    private label: string,
+    private budget: number
+  ) {}
+
+  /**
+   * Allocate the budget across sections and log the result
+   */
+  allocate(sections: BudgetSection[]): BudgetResult {
+    const kept: Record<string, string[]> = {};
+    const allocations = new Map<string, SectionAllocation>();
+    let remaining = this.budget;
+
+    // Required sections first - they are never trimmed, even over budget
+    for (const section of sections.filter((s) => s.required)) {
+      const tokens = section.items.reduce((sum, item) => sum + estimateTokens(item), 0);
+      kept[section.name] = [...section.items];
+      remaining -= tokens;
+      allocations.set(section.name, {
+        name: section.name,
+        requestedTokens: tokens,
+        allocatedTokens: tokens,
+        itemsKept: section.items.length,
+        itemsDropped: 0,
+        itemsTruncated: 0,
+      });
+    }
+
+    // Then optional sections by priority; stable for equal priorities
+    const optional = sections
+      .filter((s) => !s.required)
+      .sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+
+    for (const section of optional) {
+      let sectionRemaining = Math.min(Math.max(remaining, 0), section.maxTokens ?? Infinity);
+      const allocation: SectionAllocation = {
+        name: section.name,
+        requestedTokens: section.items.reduce((sum, item) => sum + estimateTokens(item), 0),
+        allocatedTokens: 0,
+        itemsKept: 0,
+        itemsDropped: 0,
+        itemsTruncated: 0,
+      };
+      kept[section.name] = [];
+
+      for (const [index, item] of section.items.entries()) {
+        const text = section.itemMaxTokens ? truncateToTokens(item, section.itemMaxTokens) : item;
+        const tokens = estimateTokens(text);
+
+        // Items are in importance order - once one doesn't fit, the rest are dropped
+        if (tokens > sectionRemaining) {
+          allocation.itemsDropped = section.items.length - index;
+          break;
+        }
+
+        kept[section.name]!.push(text);
+        sectionRemaining -= tokens;
+        remaining -= tokens;
+        allocation.allocatedTokens += tokens;
+        allocation.itemsKept += 1;
+        if (text !== item) allocation.itemsTruncated += 1;
+      }
+
+      allocations.set(section.name, allocation);
+    }
+
+    const allocation: BudgetAllocation = {
+      label: this.label,
+      budget: this.budget,
+      used: this.budget - remaining,
+      // Report in the caller's section order
+      sections: sections.map((s) => allocations.get(s.name)!),
+    };
+
+    logger.debug(
+      {
+        label: allocation.label,
+        budget: allocation.budget,
+        used: allocation.used,
+        sections: allocation.sections.map(
+          (s) =>
+            `${s.name}: ${s.allocatedTokens}/${s.requestedTokens} tokens, ` +
+            `${s.itemsKept} kept, ${s.itemsDropped} dropped, ${s.itemsTruncated} truncated`
+        ),
+      },
+      `Prompt budget: Allocation for ${this.label}`
+    );
+
+    return { sections: kept, allocation };
+  }
+}
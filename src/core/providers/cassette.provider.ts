@@ -0,0 +1,199 @@
+// Cassette Provider - Record/replay layer around any LLM provider
+// Record mode captures every request/response pair to disk; replay mode serves them back
+// without touching the network, so pipeline runs are byte-for-byte reproducible
+import fs from 'fs';
+import path from 'path';
+import { logger } from '@/core/logger.js';
+import { hashCompletionRequest } from './request-hash.js';
+import type {
+  LLMProvider,
+  LLMCompletionRequest,
+  LLMCompletion,
+  LLMMessage,
+  LLMStreamChunk,
+} from './types.js';
+
+export type CassetteMode = 'record' | 'replay';
+
+/**
+ * One recorded interaction. Streamed calls keep their chunks so replays
+ * reproduce the same token boundaries.
+ */
+export interface CassetteEntry {
+  request: {
+    model: string;
+    messages: LLMMessage[];
+    temperature: number;
+    responseFormat: LLMCompletionRequest['responseFormat'] | null;
+    tools?: LLMCompletionRequest['tools'];
+  };
+  completion: LLMCompletion;
+  chunks?: LLMStreamChunk[];
+  recordedAt: string;
+}
+
+export interface CassetteFile {
+  version: 1;
+  // Entries per request key, replayed in recorded order
+  entries: Record<string, CassetteEntry[]>;
+}
+
+export class CassetteMissError extends Error {
+  constructor(
+    public key: string,
+    public cassettePath: string
+  ) {
+    super(`No cassette entry for request ${key.substring(0, 12)} in ${cassettePath}`);
+    this.name = 'CassetteMissError';
+  }
+}
+
+export class CassetteProvider implements LLMProvider {
+  readonly name: string;
+  private cassette?: CassetteFile; // Replay reads it on the first call
+  private cursors = new Map<string, number>();
+
+  /**
+   * @param inner Provider that serves live calls (not needed in replay mode)
+   */
+  constructor(
+    private mode: CassetteMode,
+    private cassettePath: string,
+    private inner?: LLMProvider
+  ) {
+    if (mode === 'record' && !inner) {
+      throw new Error('Cassette record mode requires an underlying provider');
+    }
+
+    this.name = inner ? `${inner.name}+cassette` : 'cassette';
+
+    // Recording always starts a fresh cassette
+    if (mode === 'record') {
+      this.cassette = { version: 1, entries: {} };
+    }
+
+    logger.info({ mode, cassettePath, inner: inner?.name }, 'Cassette provider: Initialized');
+  }
+
+  /**
+   * Replay reads the cassette when first needed, so commands that make no LLM
+   * call (db init, conversations list, ...) run without one
+   * @throws Error if the cassette is missing or not valid JSON
+   */
+  private load(): CassetteFile {
+    if (this.cassette) return this.cassette;
+
+    try {
+      this.cassette = JSON.parse(fs.readFileSync(this.cassettePath, 'utf-8')) as CassetteFile;
+    } catch (error) {
+      throw new Error(
+        `Cannot replay cassette ${this.cassettePath}: ${(error as Error).message}. ` +
+          'Record one with LLM_CASSETTE_MODE=record or point LLM_CASSETTE_PATH at an existing file.'
+      );
+    }
+
+    logger.info(
+      { cassettePath: this.cassettePath, keys: Object.keys(this.cassette.entries).length },
+      'Cassette provider: Cassette loaded'
+    );
+    return this.cassette;
+  }
+
+  async createChatCompletion(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const key = hashCompletionRequest(request);
+
+    if (this.mode === 'replay') {
+      return this.nextEntry(key).completion;
+    }
+
+    const completion = await this.inner!.createChatCompletion(request);
+    this.record(key, request, { completion });
+    return completion;
+  }
+
+  async *streamChatCompletion(request: LLMCompletionRequest): AsyncIterable<LLMStreamChunk> {
+    const key = hashCompletionRequest(request);
+
+    if (this.mode === 'replay') {
+      const entry = this.nextEntry(key);
+
+      if (entry.chunks) {
+        yield* entry.chunks;
+      } else {
+        // Recorded as a plain completion - replay it as a single chunk
+        yield {
+          content: entry.completion.content,
+          model: entry.completion.model,
+          usage: entry.completion.usage,
+          finishReason: entry.completion.finishReason,
+          toolCalls: entry.completion.toolCalls,
+        };
+      }
+      return;
+    }
+
+    const chunks: LLMStreamChunk[] = [];
+    for await (const chunk of this.inner!.streamChatCompletion(request)) {
+      chunks.push(chunk);
+      yield chunk;
+    }
+
+    // Also keep the assembled completion so non-streaming replays can use this entry
+    const completion: LLMCompletion = {
+      content: chunks.map((c) => c.content ?? '').join(''),
+      model: chunks.find((c) => c.model)?.model ?? request.model,
+      usage: chunks.find((c) => c.usage)?.usage,
+      finishReason: chunks.find((c) => c.finishReason)?.finishReason,
+      toolCalls: chunks.find((c) => c.toolCalls)?.toolCalls,
+    };
+    this.record(key, request, { completion, chunks });
+  }
+
+  /**
+   * Serve recorded entries in order; once exhausted, keep serving the last one
+   */
+  private nextEntry(key: string): CassetteEntry {
+    const entries = this.load().entries[key];
+    if (!entries || entries.length === 0) {
+      logger.error({ key, cassettePath: this.cassettePath }, 'Cassette provider: Replay miss');
+      throw new CassetteMissError(key, this.cassettePath);
+    }
+
+    const cursor = this.cursors.get(key) ?? 0;
+    this.cursors.set(key, cursor + 1);
+
+    logger.debug({ key: key.substring(0, 12), cursor }, 'Cassette provider: Replaying entry');
+
+    return entries[Math.min(cursor, entries.length - 1)]!;
+  }
+
+  private record(
+    key: string,
+    request: LLMCompletionRequest,
+    recorded: Pick<CassetteEntry, 'completion' | 'chunks'>
+  ): void {
+    const entry: CassetteEntry = {
+      request: {
+        model: request.model,
+        messages: request.messages,
+        temperature: request.temperature,
+        responseFormat: request.responseFormat ?? null,
+        ...(request.tools ? { tools: request.tools } : {}),
+      },
+      ...recorded,
+      recordedAt: new Date().toISOString(),
+    };
+
+    const cassette = this.load();
+    (cassette.entries[key] ||= []).push(entry);
+
+    // Write through on every call so an interrupted run still leaves a usable cassette
+    fs.mkdirSync(path.dirname(this.cassettePath), { recursive: true });
+    fs.writeFileSync(this.cassettePath, JSON.stringify(cassette, null, 2));
+
+    logger.debug(
+      { key: key.substring(0, 12), cassettePath: this.cassettePath },
+      'Cassette provider: Recorded entry'
+    );
+  }
+}
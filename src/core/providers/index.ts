@@ -0,0 +1,84 @@
+// LLM Provider exports and factory
+import { config } from '@/config/index.js';
+import { OpenAIProvider } from './openai.provider.js';
+import { ScriptedProvider } from './scripted.provider.js';
+import { CassetteProvider } from './cassette.provider.js';
+import type { LLMProvider } from './types.js';
+
+export { OpenAIProvider, type OpenAIProviderOptions } from './openai.provider.js';
+export {
+  ScriptedProvider,
+  type ScriptedRule,
+  type ScriptedProviderScript,
+} from './scripted.provider.js';
+export {
+  CassetteProvider,
+  CassetteMissError,
+  type CassetteMode,
+  type CassetteEntry,
+  type CassetteFile,
+} from './cassette.provider.js';
+export { hashCompletionRequest } from './request-hash.js';
+export type {
+  LLMProvider,
+  LLMProviderType,
+  LLMMessage,
+  LLMCompletionRequest,
+  LLMCompletion,
+  LLMResponseFormat,
+  LLMStreamChunk,
+  LLMToolCall,
+  LLMToolDefinition,
+  LLMUsage,
+} from './types.js';
+
+/**
+ * Create the provider selected by LLM_PROVIDER, wrapped in a cassette when
+ * LLM_CASSETTE_MODE is record or replay
+ */
+export function createLLMProvider(llmConfig = config.openai): LLMProvider {
+  switch (llmConfig.cassetteMode) {
+    case 'record':
+      return new CassetteProvider('record', llmConfig.cassettePath, createBaseProvider(llmConfig));
+
+    case 'replay':
+      // Replay is fully offline - no underlying provider is constructed
+      return new CassetteProvider('replay', llmConfig.cassettePath);
+
+    case 'off':
+    default:
+      return createBaseProvider(llmConfig);
+  }
+}
+
+/**
+ * Create the backend selected by LLM_PROVIDER
+ * - openai: hosted OpenAI API (requires OPENAI_API_KEY)
+ * - local: any OpenAI-compatible server at LLM_BASE_URL (llama.cpp, Ollama, vLLM)
+ * - scripted: deterministic offline replies, optionally driven by LLM_SCRIPT_PATH
+ */
+function createBaseProvider(llmConfig: typeof config.openai): LLMProvider {
+  switch (llmConfig.provider) {
+    case 'local':
+      return new OpenAIProvider({
+        name: 'local',
+        // Most local servers ignore the key, but the SDK refuses to start without one
+        apiKey: llmConfig.apiKey || 'local',
+        baseURL: llmConfig.baseUrl,
+        timeout: llmConfig.timeout,
+      });
+
+    case 'scripted':
+      return llmConfig.scriptPath
+        ? ScriptedProvider.fromFile(llmConfig.scriptPath)
+        : new ScriptedProvider();
+
+    case 'openai':
+    default:
+      return new OpenAIProvider({
+        apiKey: llmConfig.apiKey,
+        baseURL: llmConfig.baseUrl,
+        timeout: llmConfig.timeout,
+      });
+  }
+}
@@ -0,0 +1,147 @@
+// OpenAI Provider - Chat completions via the OpenAI SDK
+// Also serves OpenAI-compatible local endpoints (llama.cpp server, Ollama, vLLM)
+import OpenAI from 'openai';
+import { logger } from '@/core/logger.js';
+import type {
+  LLMProvider,
+  LLMCompletionRequest,
+  LLMCompletion,
+  LLMStreamChunk,
+  LLMToolCall,
+} from './types.js';
+
+export interface OpenAIProviderOptions {
+  name?: string;
+  apiKey: string;
+  baseURL?: string;
+  timeout: number;
+}
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name: string;
+  private client: OpenAI;
+
+  constructor(options: OpenAIProviderOptions) {
+    this.name = options.name ?? 'openai';
+
+    // Log initialization details
+    logger.info(
+      {
+        provider: this.name,
+        hasApiKey: !!options.apiKey,
+        apiKeyLength: options.apiKey?.length,
+        apiKeyPrefix: options.apiKey?.substring(0, 7) + '...',
+        baseURL: options.baseURL,
+        timeout: options.timeout,
+      },
+      'Initializing OpenAI client'
+    );
+
+    this.client = new OpenAI({
+      apiKey: options.apiKey,
+      baseURL: options.baseURL,
+      timeout: options.timeout,
+      maxRetries: 0, // Retries and model fallback are handled by LLMService
+    });
+  }
+
+  async createChatCompletion(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const completionRequest: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming = {
+      model: request.model,
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      ...this.toolParams(request),
+    };
+
+    // Add response format if specified
+    if (request.responseFormat) {
+      completionRequest.response_format = request.responseFormat;
+    }
+
+    const completion = await this.client.chat.completions.create(completionRequest);
+    const toolCalls = (completion.choices[0]?.message?.tool_calls ?? [])
+      .filter((call) => call.type === 'function')
+      .map((call) => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: call.function.arguments,
+      }));
+
+    return {
+      content: completion.choices[0]?.message?.content ?? '',
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      model: completion.model,
+      usage: completion.usage
+        ? {
+            promptTokens: completion.usage.prompt_tokens,
+            completionTokens: completion.usage.completion_tokens,
+            totalTokens: completion.usage.total_tokens,
+          }
+        : undefined,
+      finishReason: completion.choices[0]?.finish_reason,
+    };
+  }
+
+  async *streamChatCompletion(request: LLMCompletionRequest): AsyncIterable<LLMStreamChunk> {
+    const stream = await this.client.chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      ...(request.responseFormat ? { response_format: request.responseFormat } : {}),
+      ...this.toolParams(request),
+      stream: true,
+      stream_options: { include_usage: true }, // Usage arrives on the final chunk
+    });
+
+    // Tool calls arrive in fragments, keyed by their position in the turn
+    const toolCalls = new Map<number, LLMToolCall>();
+
+    for await (const chunk of stream) {
+      const choice = chunk.choices[0];
+
+      for (const fragment of choice?.delta?.tool_calls ?? []) {
+        const call = toolCalls.get(fragment.index) ?? { id: '', name: '', arguments: '' };
+        if (fragment.id) call.id = fragment.id;
+        call.name += fragment.function?.name ?? '';
+        call.arguments += fragment.function?.arguments ?? '';
+        toolCalls.set(fragment.index, call);
+      }
+
+      yield {
+        content: choice?.delta?.content ?? undefined,
+        model: chunk.model,
+        usage: chunk.usage
+          ? {
+              promptTokens: chunk.usage.prompt_tokens,
+              completionTokens: chunk.usage.completion_tokens,
+              totalTokens: chunk.usage.total_tokens,
+            }
+          : undefined,
+        finishReason: choice?.finish_reason,
+        toolCalls:
+          choice?.finish_reason && toolCalls.size > 0 ? [...toolCalls.values()] : undefined,
+      };
+    }
+  }
+
+  private toolParams(
+    request: LLMCompletionRequest
+  ): Pick<OpenAI.Chat.ChatCompletionCreateParams, 'tools' | 'tool_choice'> {
+    if (!request.tools?.length) return {};
+
+    return {
+      tools: request.tools.map((tool) => ({
+        type: 'function',
+        function: {
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters,
+          strict: tool.strict,
+        },
+      })),
+      tool_choice: request.toolChoice ?? 'auto',
+    };
+  }
+}
@@ -0,0 +1,22 @@
+// Request hashing - Stable content address for an LLM request
+import { createHash } from 'crypto';
+import type { LLMCompletionRequest } from './types.js';
+
+/**
+ * sha256 over the inputs that determine the model's output
+ * (max tokens only truncates, so it is deliberately excluded)
+ */
+export function hashCompletionRequest(request: LLMCompletionRequest): string {
+  return createHash('sha256')
+    .update(
+      JSON.stringify({
+        model: request.model,
+        messages: request.messages,
+        temperature: request.temperature,
+        responseFormat: request.responseFormat ?? null,
+        // Only tool-enabled requests carry these, so earlier hashes stay stable
+        ...(request.tools ? { tools: request.tools, toolChoice: request.toolChoice ?? null } : {}),
+      })
+    )
+    .digest('hex');
+}
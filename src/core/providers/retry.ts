@@ -0,0 +1,68 @@
+// Retry helpers - Classify provider errors and compute backoff delays
+import { APIConnectionError, APIError } from 'openai';
+
+export interface RetryPolicy {
+  maxRetries: number; // Retries per model after the first attempt
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+// Request timeout, conflict, rate limit, and server-side failures
+const RETRYABLE_STATUSES = new Set([408, 409, 429, 500, 502, 503, 504]);
+
+// Socket-level failures surfaced without an HTTP status
+const RETRYABLE_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN']);
+
+/**
+ * Whether retrying the same request could plausibly succeed
+ */
+export function isRetryableError(error: unknown): boolean {
+  // Covers APIConnectionTimeoutError too (subclass)
+  if (error instanceof APIConnectionError) return true;
+
+  const status = getErrorStatus(error);
+  if (status !== undefined) {
+    return RETRYABLE_STATUSES.has(status) || status >= 500;
+  }
+
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === 'string' && RETRYABLE_CODES.has(code);
+}
+
+/**
+ * Whether the error is specific to the requested model, so another model may work
+ * (e.g. model not found or not available to this key)
+ */
+export function isModelUnavailableError(error: unknown): boolean {
+  const status = getErrorStatus(error);
+  return status === 404 || (error as { code?: unknown } | null)?.code === 'model_not_found';
+}
+
+export function getErrorStatus(error: unknown): number | undefined {
+  if (error instanceof APIError) return error.status;
+
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === 'number' ? status : undefined;
+}
+
+/**
+ * Exponential backoff with full jitter: random delay in [0, min(max, base * 2^attempt)]
+ * @param attempt Zero-based retry number
+ */
+export function computeBackoffDelay(attempt: number, policy: RetryPolicy): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Ordered list of models to try: the requested one first, then configured fallbacks
+ */
+export function buildModelChain(requestedModel: string, fallbackModels: string[]): string[] {
+  return [requestedModel, ...fallbackModels.filter((m) => m && m !== requestedModel)].filter(
+    (m, i, all) => all.indexOf(m) === i
+  );
+}
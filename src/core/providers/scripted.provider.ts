@@ -0,0 +1,174 @@
+// Scripted Provider - Deterministic, offline completions for CI and local runs
+import fs from 'fs';
+import { logger } from '@/core/logger.js';
+import type {
+  LLMProvider,
+  LLMCompletionRequest,
+  LLMCompletion,
+  LLMMessage,
+  LLMStreamChunk,
+  LLMResponseFormat,
+} from './types.js';
+
+/**
+ * A single scripted reply. The first rule whose conditions all match wins.
+ */
+export interface ScriptedRule {
+  match?: string; // Case-insensitive regex tested against the whole prompt
+  model?: string; // Only match requests for this model
+  responseFormat?: LLMResponseFormat['type']; // Only match requests with this format
+  response?: string;
+  // Tool calls to request instead of answering. Only used when the request offers
+  // these tools and is not already a follow-up carrying tool results.
+  toolCalls?: Array<{ name: string; arguments: Record<string, unknown> }>;
+}
+
+export interface ScriptedProviderScript {
+  default?: string; // Reply for text requests that match no rule
+  defaultJson?: string; // Reply for JSON-mode and JSON-schema requests that match no rule
+  rules?: ScriptedRule[];
+}
+
+const DEFAULT_TEXT_RESPONSE = 'This is a scripted response.';
+const DEFAULT_JSON_RESPONSE = '{}'; // Extraction schemas are all optional, so this extracts nothing
+
+/**
+ * Replies the pipeline's own JSON prompts can parse, tried after a script's rules
+ * Without a script every turn is classified as safe small talk with no domains
+ */
+const DEFAULT_SCRIPT_RULES: ScriptedRule[] = [
+  {
+    match: 'Classify message\\. Return JSON only',
+    response: JSON.stringify({
+      safety: {
+        level: 'safe',
+        signals: [],
+        suggestedTone: 'normal',
+        requiresHumanEscalation: false,
+      },
+      intent: {
+        primary: 'casual_chat',
+        suggestedMode: 'SMALLTALK',
+        entities: [],
+        reasoning: 'scripted default',
+      },
+      relevantDomains: [],
+      multiIntent: { isMultiIntent: false, detectedModes: [], hasConflictingIntents: false },
+      confidence: 0.9,
+    }),
+  },
+  {
+    match: 'Respond with JSON: \\{"summary"',
+    response: JSON.stringify({ summary: 'The user and the assistant talked.', domains: {} }),
+  },
+];
+
+export class ScriptedProvider implements LLMProvider {
+  readonly name = 'scripted';
+  private script: ScriptedProviderScript;
+  private compiledRules: Array<{ rule: ScriptedRule; pattern?: RegExp }>;
+
+  constructor(script: ScriptedProviderScript = {}) {
+    this.script = script;
+    this.compiledRules = [...(script.rules || []), ...DEFAULT_SCRIPT_RULES].map((rule) => ({
+      rule,
+      pattern: rule.match ? new RegExp(rule.match, 'i') : undefined,
+    }));
+  }
+
+  /**
+   * Load a script from a JSON file on disk
+   */
+  static fromFile(scriptPath: string): ScriptedProvider {
+    const script = JSON.parse(fs.readFileSync(scriptPath, 'utf-8')) as ScriptedProviderScript;
+
+    logger.info(
+      { scriptPath, rules: script.rules?.length || 0 },
+      'Scripted provider: Script loaded'
+    );
+
+    return new ScriptedProvider(script);
+  }
+
+  async createChatCompletion(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const prompt = this.flattenMessages(request.messages);
+    const { content, toolCalls } = this.resolveResponse(request, prompt);
+
+    // Rough but stable token estimate so usage-dependent code paths still run
+    const promptTokens = Math.ceil(prompt.length / 4);
+    const completionTokens = Math.ceil(content.length / 4);
+
+    return {
+      content,
+      toolCalls,
+      model: request.model,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+      },
+      finishReason: toolCalls ? 'tool_calls' : 'stop',
+    };
+  }
+
+  async *streamChatCompletion(request: LLMCompletionRequest): AsyncIterable<LLMStreamChunk> {
+    const completion = await this.createChatCompletion(request);
+
+    // Emit word-sized chunks (keeping whitespace) so streaming consumers see increments
+    const pieces = completion.content.match(/\S+\s*|\s+/g) || [];
+    for (const piece of pieces) {
+      yield { content: piece, model: completion.model };
+    }
+
+    yield {
+      model: completion.model,
+      usage: completion.usage,
+      finishReason: completion.finishReason,
+      toolCalls: completion.toolCalls,
+    };
+  }
+
+  private resolveResponse(
+    request: LLMCompletionRequest,
+    prompt: string
+  ): Pick<LLMCompletion, 'content' | 'toolCalls'> {
+    const format = request.responseFormat?.type ?? 'text';
+    const offeredTools = new Set(
+      request.toolChoice === 'none' ? [] : (request.tools ?? []).map((t) => t.name)
+    );
+    const hasToolResults = request.messages.at(-1)?.role === 'tool';
+
+    for (const { rule, pattern } of this.compiledRules) {
+      if (rule.model && rule.model !== request.model) continue;
+      if (rule.responseFormat && rule.responseFormat !== format) continue;
+      if (pattern && !pattern.test(prompt)) continue;
+
+      if (rule.toolCalls) {
+        if (hasToolResults || !rule.toolCalls.every((call) => offeredTools.has(call.name))) {
+          continue;
+        }
+        return {
+          content: rule.response ?? '',
+          toolCalls: rule.toolCalls.map((call, i) => ({
+            id: `call_scripted_${i}`,
+            name: call.name,
+            arguments: JSON.stringify(call.arguments),
+          })),
+        };
+      }
+
+      return { content: rule.response ?? '' };
+    }
+
+    if (format === 'json_object' || format === 'json_schema') {
+      return { content: this.script.defaultJson ?? DEFAULT_JSON_RESPONSE };
+    }
+    return { content: this.script.default ?? DEFAULT_TEXT_RESPONSE };
+  }
+
+  private flattenMessages(messages: LLMMessage[]): string {
+    return messages
+      .map((msg) => (typeof msg.content === 'string' ? msg.content : JSON.stringify(msg.content)))
+      .join('\n');
+  }
+}
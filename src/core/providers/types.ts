@@ -0,0 +1,90 @@
+// LLM Provider types - Contract between LLMService and concrete model backends
+import type OpenAI from 'openai';
+
+/**
+ * Messages use the OpenAI chat format as the lingua franca.
+ * Every provider either speaks it natively or translates it.
+ */
+export type LLMMessage = OpenAI.Chat.ChatCompletionMessageParam;
+
+/**
+ * Output format constraint. `json_schema` follows the OpenAI structured-output shape;
+ * backends without native support may treat it as plain JSON mode.
+ */
+export type LLMResponseFormat =
+  | { type: 'json_object' | 'text' }
+  | {
+      type: 'json_schema';
+      json_schema: {
+        name: string;
+        description?: string;
+        schema: Record<string, unknown>;
+        strict?: boolean;
+      };
+    };
+
+/**
+ * A function the model may call. Parameters are a JSON schema object.
+ */
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+  strict?: boolean;
+}
+
+/**
+ * A tool call requested by the model; arguments are the raw JSON string it produced
+ */
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+export interface LLMCompletionRequest {
+  model: string;
+  messages: LLMMessage[];
+  maxTokens: number;
+  temperature: number;
+  responseFormat?: LLMResponseFormat;
+  tools?: LLMToolDefinition[];
+  toolChoice?: 'auto' | 'none' | 'required';
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMCompletion {
+  content: string;
+  model: string;
+  usage?: LLMUsage;
+  finishReason?: string | null;
+  toolCalls?: LLMToolCall[]; // Present when the model chose to call tools instead of answering
+}
+
+/**
+ * Incremental piece of a streamed completion.
+ * Usage and finish reason typically arrive on the final chunk only.
+ */
+export interface LLMStreamChunk {
+  content?: string;
+  model?: string;
+  usage?: LLMUsage;
+  finishReason?: string | null;
+  toolCalls?: LLMToolCall[]; // Complete calls, on the chunk that finishes the turn
+}
+
+/**
+ * A backend capable of producing chat completions
+ */
+export interface LLMProvider {
+  readonly name: string;
+  createChatCompletion(request: LLMCompletionRequest): Promise<LLMCompletion>;
+  streamChatCompletion(request: LLMCompletionRequest): AsyncIterable<LLMStreamChunk>;
+}
+
+export type LLMProviderType = 'openai' | 'local' | 'scripted';
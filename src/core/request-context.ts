@@ -0,0 +1,48 @@
+/**
+ * Request Context
+ *
+ * Per-request state carried through async calls with AsyncLocalStorage, so
+ * concurrent pipeline turns keep their own spans, metrics and token usage.
+ * Code outside a request (CLI commands, scripts, startup) records nothing, so
+ * the trackers keep no process-wide data that would grow for the process life.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomUUID } from 'node:crypto';
+import { createTraceData, type TraceData } from './performance-tracker.js';
+import type { UsageRecord } from './usage-tracker.js';
+
+export interface RequestContext {
+  requestId: string;
+  userId?: string;
+  trace: TraceData;
+  usage: UsageRecord[];
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Create an empty context for a new request
+ */
+export function createRequestContext(userId?: string): RequestContext {
+  return {
+    requestId: randomUUID(),
+    userId,
+    trace: createTraceData(),
+    usage: [],
+  };
+}
+
+/**
+ * Run fn (and everything it awaits) inside the given request context
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * The context of the request currently executing, if any
+ */
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
@@ -1,17 +1,44 @@
 // Decay Stage - Apply time-based decay to conversation state
+import { config } from '@/config/index.js';
+import { loadDecayConfig } from '@/config/decay.js';
+import { domainRegistry } from '@/core/domains/registries/index.js';
 import { logger } from '@/core/logger.js';
-import {
-  DEFAULT_DECAY_CONFIG,
-  type ConversationState,
-  type ContextElement,
-  type DecayConfig,
-} from '@/types/index.js';
+import type { ConversationState, ContextElement, DecayConfig, DecayPolicy } from '@/types/index.js';
 
 export class DecayStage {
   private config: DecayConfig;
 
-  constructor(config: DecayConfig = DEFAULT_DECAY_CONFIG) {
-    this.config = config;
+  constructor(decayConfig: DecayConfig = loadDecayConfig(config.decay.configPath)) {
+    this.config = decayConfig;
+  }
+
+  /**
+   * Policy for a context type: the configured policy, over the one a domain registered,
+   * over the general policy
+   */
+  getPolicy(contextType: string = 'general'): DecayPolicy {
+    const registered = domainRegistry
+      .getAllDomains()
+      .map((domain) => domain.config.contextTypes?.[contextType])
+      .find(Boolean);
+
+    return {
+      ...this.config.policies.general,
+      ...registered,
+      ...this.config.policies[contextType],
+    };
+  }
+
+  /**
+   * Weight of an element mentioned again, with diminishing returns
+   * The mention restores at least its own fresh weight, then the type's reinforcement boosts it:
+   * fully on the first re-mention, by half the boost on the second, a third on the third, ...
+   */
+  reinforce(element: ContextElement, mentionWeight: number = element.weight): number {
+    const boost = this.getPolicy(element.contextType).reinforcement - 1;
+    const previousMentions = element.mentionCount ?? 1;
+
+    return Math.min(1.0, Math.max(element.weight, mentionWeight) * (1 + boost / previousMentions));
   }
 
   /**
@@ -67,7 +94,7 @@ export class DecayStage {
   }
 
   /**
-   * Apply decay to individual context elements using type-specific half-lives
+   * Apply decay to individual context elements using their type's policy
    */
   private decayContextElements(
     elements: ContextElement[],
@@ -76,22 +103,33 @@ export class DecayStage {
   ): ContextElement[] {
     return elements
       .map((element) => {
+        const policy = this.getPolicy(element.contextType);
+
+        // Hard expiry counts from creation; reinforcement doesn't extend it
+        const hoursSinceCreated =
+          (currentTime.getTime() - element.createdAt.getTime()) / (1000 * 60 * 60);
+        if (policy.expiryHours !== undefined && hoursSinceCreated >= policy.expiryHours) {
+          logger.debug(
+            { key: element.key, contextType: element.contextType || 'general', hoursSinceCreated },
+            'Context element expired'
+          );
+          return null;
+        }
+
         // Calculate hours since this element was last accessed
         const elementAge =
           (currentTime.getTime() - element.lastAccessedAt.getTime()) / (1000 * 60 * 60);
 
-        // Get type-specific half-life
-        const halfLife = this.getHalfLifeForType(element.contextType);
-
-        // Apply exponential decay based on type-specific half-life
-        const decayFactor = Math.pow(0.5, elementAge / halfLife);
-        const newWeight = element.weight * decayFactor;
+        // Apply exponential decay based on type-specific half-life, down to the floor
+        const decayFactor = Math.pow(0.5, elementAge / policy.halfLifeHours);
+        const floor = Math.min(element.weight, policy.floorWeight);
+        const newWeight = Math.max(floor, element.weight * decayFactor);
 
         logger.debug(
           {
             key: element.key,
             contextType: element.contextType || 'general',
-            halfLife,
+            halfLife: policy.halfLifeHours,
             elementAge: elementAge.toFixed(2),
             oldWeight: element.weight.toFixed(3),
             newWeight: newWeight.toFixed(3),
@@ -105,26 +143,10 @@ export class DecayStage {
           weight: newWeight,
         };
       })
-      .filter((element) => element.weight > 0.1); // Remove elements with very low weight
-  }
-
-  /**
-   * Get half-life for specific context type
-   */
-  private getHalfLifeForType(contextType?: string): number {
-    switch (contextType) {
-      case 'crisis':
-        return this.config.crisisHalfLife;
-      case 'emotional':
-        return this.config.emotionalHalfLife;
-      case 'topic':
-        return this.config.topicHalfLife;
-      case 'preference':
-        return this.config.preferenceHalfLife;
-      case 'general':
-      default:
-        return this.config.generalHalfLife;
-    }
+      .filter(
+        (element): element is ContextElement =>
+          element !== null && element.weight > this.config.removeBelowWeight
+      ); // Remove expired and very low weight elements
   }
 
   /**
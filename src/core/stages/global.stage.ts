@@ -1,5 +1,7 @@
 // Global Stage - Extract context elements from messages
 import { logger } from '@/core/logger.js';
+import type { DomainContextElement } from '@/core/domains/types.js';
+import { decayStage } from './decay.stage.js';
 import type {
   ConversationState,
   ContextElement,
@@ -7,6 +9,9 @@ import type {
   IntentResult,
 } from '@/types/index.js';
 
+// Mention times kept per context element; enough to tell how often it came up this week
+const MAX_MENTION_HISTORY = 20;
+
 export interface GlobalStageInput {
   message: string;
   state: ConversationState;
@@ -57,6 +62,23 @@ export class GlobalStage {
     };
   }
 
+  /**
+   * Merge context elements derived from domain extractions (e.g. health symptoms)
+   * An element the state already holds is reinforced, like a topic mentioned again
+   */
+  mergeDomainElements(
+    state: ConversationState,
+    domainElements: DomainContextElement[]
+  ): ConversationState {
+    if (domainElements.length === 0) return state;
+
+    const now = new Date();
+    return this.mergeContextElements(
+      state,
+      domainElements.map((element) => ({ ...element, createdAt: now, lastAccessedAt: now }))
+    );
+  }
+
   /**
    * Extract crisis-level context from safety classification
    */
@@ -210,7 +232,13 @@ export class GlobalStage {
     // Update lastAccessedAt for matching elements, or add new ones
     const merged: ContextElement[] = [...existingElements];
 
+    const mentionedThisTurn = new Set<string>();
+
     for (const newElement of newElements) {
+      // One message mentions a key once, however many signals carry it
+      if (mentionedThisTurn.has(newElement.key)) continue;
+      mentionedThisTurn.add(newElement.key);
+
       // Find if element with same key already exists
       const existingIndex = merged.findIndex((e) => e.key === newElement.key);
 
@@ -219,22 +247,30 @@ export class GlobalStage {
         const existingElement = merged[existingIndex];
         const oldWeight = existingElement.weight;
 
-        // Reinforcement formula: boost by 20% but cap at 1.0
-        // If it was fading (e.g., 0.3), mentioning it again brings it back up (0.36)
+        // Reinforcement formula: back to at least the fresh weight, then boosted by the type's
+        // decay policy (20% by default) with diminishing returns, capped at 1.0
+        // A fading topic (0.3) mentioned again returns to 0.84; the next mention brings 0.92
         // This mimics how human memory works - retrieval strengthens memory
-        const reinforcedWeight = Math.min(1.0, oldWeight * 1.2);
+        const reinforcedWeight = decayStage.reinforce(existingElement, newElement.weight);
+        const mentionCount = (existingElement.mentionCount ?? 1) + 1;
 
         merged[existingIndex] = {
           ...existingElement,
           value: newElement.value, // Update value if changed
           weight: reinforcedWeight, // Reinforce the memory
-          lastAccessedAt: new Date(), // Reset decay timer
+          lastAccessedAt: newElement.lastAccessedAt, // Reset decay timer
+          mentionCount,
+          mentions: [
+            ...(existingElement.mentions ?? [existingElement.createdAt]),
+            newElement.lastAccessedAt,
+          ].slice(-MAX_MENTION_HISTORY),
         };
 
         logger.debug(
           {
             key: newElement.key,
             action: 'reinforced',
+            mentionCount,
             oldWeight: oldWeight.toFixed(3),
             newWeight: reinforcedWeight.toFixed(3),
             boost: ((reinforcedWeight - oldWeight) * 100).toFixed(1) + '%',
@@ -243,7 +279,11 @@ export class GlobalStage {
         );
       } else {
         // Add new element
-        merged.push(newElement);
+        merged.push({
+          ...newElement,
+          mentionCount: 1,
+          mentions: [newElement.createdAt],
+        });
 
         logger.debug(
           {
@@ -0,0 +1,143 @@
+/**
+ * Structured Output
+ *
+ * Turns a Zod schema into a strict JSON-schema response format. Strict mode
+ * requires every property to be listed in `required` and every object to
+ * forbid additional properties, so optional fields are sent as nullable
+ * instead. normalize() removes the nulls the model returns for those fields
+ * again, so the response still validates against the original Zod schema.
+ */
+
+import { z } from 'zod';
+import type { LLMResponseFormat } from './providers/index.js';
+
+type JsonSchema = Record<string, unknown>;
+
+// Keywords strict mode accepts; everything else (default, $schema, ...) is dropped
+const SUPPORTED_KEYWORDS = new Set([
+  'type',
+  'properties',
+  'required',
+  'additionalProperties',
+  'items',
+  'enum',
+  'const',
+  'anyOf',
+  'description',
+  'minimum',
+  'maximum',
+]);
+
+export interface StrictJsonSchema {
+  schema: JsonSchema;
+  normalize(data: unknown): unknown;
+}
+
+export interface StructuredOutput {
+  responseFormat: LLMResponseFormat;
+  normalize(data: unknown): unknown;
+}
+
+/**
+ * Convert a Zod schema to a strict-mode JSON schema (also used for tool parameters)
+ */
+export function toStrictJsonSchema(schema: z.ZodType): StrictJsonSchema {
+  const nullablePaths = new Set<string>();
+  const jsonSchema = toStrictSchema(z.toJSONSchema(schema, { io: 'output' }), '', nullablePaths);
+
+  return {
+    schema: jsonSchema,
+    normalize: (data) => stripAddedNulls(data, '', nullablePaths),
+  };
+}
+
+/**
+ * Build a strict json_schema response format from a Zod schema
+ * @param name - Schema name sent to the provider ([a-zA-Z0-9_-], max 64 chars)
+ * @param schema - Zod schema the response must satisfy
+ */
+export function buildStructuredOutput(name: string, schema: z.ZodType): StructuredOutput {
+  const strict = toStrictJsonSchema(schema);
+
+  return {
+    responseFormat: {
+      type: 'json_schema',
+      json_schema: { name, schema: strict.schema, strict: true },
+    },
+    normalize: strict.normalize,
+  };
+}
+
+/**
+ * Rewrite a JSON schema node for strict mode, recording optional properties made nullable
+ * Paths use dots for properties and [] for array items (e.g. "goals[].deadline")
+ */
+function toStrictSchema(node: JsonSchema, path: string, nullablePaths: Set<string>): JsonSchema {
+  const result: JsonSchema = {};
+
+  for (const [keyword, value] of Object.entries(node)) {
+    if (!SUPPORTED_KEYWORDS.has(keyword)) continue;
+
+    if (keyword === 'properties') {
+      const properties: Record<string, JsonSchema> = {};
+      const required = new Set((node.required as string[] | undefined) ?? []);
+
+      for (const [key, child] of Object.entries(value as Record<string, JsonSchema>)) {
+        const childPath = path ? `${path}.${key}` : key;
+        let strictChild = toStrictSchema(child, childPath, nullablePaths);
+
+        if (!required.has(key) && !isNullable(strictChild)) {
+          const { description, ...rest } = strictChild;
+          strictChild = {
+            ...(description ? { description } : {}),
+            anyOf: [rest, { type: 'null' }],
+          };
+          nullablePaths.add(childPath);
+        }
+
+        properties[key] = strictChild;
+      }
+
+      result.properties = properties;
+      result.required = Object.keys(properties);
+      result.additionalProperties = false;
+    } else if (keyword === 'items') {
+      result.items = toStrictSchema(value as JsonSchema, `${path}[]`, nullablePaths);
+    } else if (keyword === 'anyOf') {
+      result.anyOf = (value as JsonSchema[]).map((branch) =>
+        toStrictSchema(branch, path, nullablePaths)
+      );
+    } else if (keyword !== 'required' && keyword !== 'additionalProperties') {
+      result[keyword] = value;
+    }
+  }
+
+  return result;
+}
+
+function isNullable(node: JsonSchema): boolean {
+  if (node.type === 'null') return true;
+  if (Array.isArray(node.type) && node.type.includes('null')) return true;
+  return Array.isArray(node.anyOf) && (node.anyOf as JsonSchema[]).some(isNullable);
+}
+
+/**
+ * Drop null values at paths that were optional (not nullable) in the Zod schema
+ */
+function stripAddedNulls(value: unknown, path: string, nullablePaths: Set<string>): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => stripAddedNulls(item, `${path}[]`, nullablePaths));
+  }
+
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(value)) {
+      const childPath = path ? `${path}.${key}` : key;
+      if (child === null && nullablePaths.has(childPath)) continue;
+      result[key] = stripAddedNulls(child, childPath, nullablePaths);
+    }
+    return result;
+  }
+
+  return value;
+}
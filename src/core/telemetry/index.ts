@@ -0,0 +1,10 @@
+/**
+ * Telemetry Module
+ *
+ * OTLP/JSON export of pipeline traces
+ */
+
+export { TraceExporter, traceExporter } from './trace-exporter.js';
+export { toOtlpTraceRequest } from './otlp.js';
+
+export type { OtlpTraceRequest, OtlpSpan, OtlpKeyValue, OtlpAnyValue } from './otlp.js';
@@ -0,0 +1,145 @@
+/**
+ * OTLP/JSON Mapping
+ *
+ * Converts a PerformanceReport into an OTLP ExportTraceServiceRequest (JSON encoding),
+ * as accepted by an OpenTelemetry collector at /v1/traces or its otlpjsonfile receiver.
+ * LLM and tool span attributes are renamed to the gen_ai.* semantic conventions.
+ */
+
+import { randomBytes } from 'crypto';
+import type { PerformanceReport, Span } from '@/core/performance-tracker.js';
+
+// OTLP enums (opentelemetry/proto/trace/v1/trace.proto)
+const SPAN_KIND_INTERNAL = 1;
+const SPAN_KIND_CLIENT = 3;
+const STATUS_CODE_OK = 1;
+const STATUS_CODE_ERROR = 2;
+
+// Our LLM span attribute → GenAI semantic convention
+const GEN_AI_ATTRIBUTES: Record<string, string> = {
+  provider: 'gen_ai.system',
+  model: 'gen_ai.request.model',
+  responseModel: 'gen_ai.response.model',
+  maxTokens: 'gen_ai.request.max_tokens',
+  temperature: 'gen_ai.request.temperature',
+  promptTokens: 'gen_ai.usage.input_tokens',
+  completionTokens: 'gen_ai.usage.output_tokens',
+};
+
+// Recomputed from start/end times, so not repeated as attributes
+const DROPPED_ATTRIBUTES = new Set(['duration', 'error']);
+
+export interface OtlpAnyValue {
+  stringValue?: string;
+  intValue?: string;
+  doubleValue?: number;
+  boolValue?: boolean;
+  arrayValue?: { values: OtlpAnyValue[] };
+}
+
+export interface OtlpKeyValue {
+  key: string;
+  value: OtlpAnyValue;
+}
+
+export interface OtlpSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: number;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: OtlpKeyValue[];
+  status: { code: number };
+}
+
+export interface OtlpTraceRequest {
+  resourceSpans: Array<{
+    resource: { attributes: OtlpKeyValue[] };
+    scopeSpans: Array<{ scope: { name: string }; spans: OtlpSpan[] }>;
+  }>;
+}
+
+/**
+ * Build an OTLP/JSON trace export request for one pipeline turn
+ * Spans started without a parent (LLM calls, extractors, tools) are attached to the root span
+ */
+export function toOtlpTraceRequest(
+  report: PerformanceReport,
+  serviceName: string
+): OtlpTraceRequest {
+  // Internal span IDs aren't valid OTLP IDs; assign random 8-byte ones
+  const spanIds = new Map(report.spans.map((span) => [span.id, randomBytes(8).toString('hex')]));
+  const root = report.spans.find((span) => !span.parentId && span.name === 'pipeline.execute');
+
+  const spans = report.spans.map((span): OtlpSpan => {
+    const parentId = span.parentId ?? (root && span !== root ? root.id : undefined);
+    const endTime = span.endTime ?? span.startTime + (span.duration ?? 0);
+
+    return {
+      traceId: report.traceId,
+      spanId: spanIds.get(span.id)!,
+      ...(parentId && spanIds.has(parentId) ? { parentSpanId: spanIds.get(parentId) } : {}),
+      name: span.name,
+      kind: span.name.startsWith('llm.') ? SPAN_KIND_CLIENT : SPAN_KIND_INTERNAL,
+      startTimeUnixNano: toUnixNano(span.startTime),
+      endTimeUnixNano: toUnixNano(endTime),
+      attributes: toAttributes(span),
+      status: { code: span.attributes?.error ? STATUS_CODE_ERROR : STATUS_CODE_OK },
+    };
+  });
+
+  return {
+    resourceSpans: [
+      {
+        resource: { attributes: [keyValue('service.name', serviceName)] },
+        scopeSpans: [{ scope: { name: 'ai-assistant.pipeline' }, spans }],
+      },
+    ],
+  };
+}
+
+function toAttributes(span: Span): OtlpKeyValue[] {
+  const attributes: OtlpKeyValue[] = [];
+  const isLLM = span.name.startsWith('llm.');
+  const isTool = span.name.startsWith('tool.');
+
+  if (isLLM) attributes.push(keyValue('gen_ai.operation.name', 'chat'));
+  if (isTool) attributes.push(keyValue('gen_ai.operation.name', 'execute_tool'));
+
+  for (const [key, value] of Object.entries(span.attributes ?? {})) {
+    if (value === undefined || value === null || DROPPED_ATTRIBUTES.has(key)) continue;
+
+    if (isLLM && key === 'finishReason') {
+      attributes.push(keyValue('gen_ai.response.finish_reasons', [String(value)]));
+    } else if (isLLM && GEN_AI_ATTRIBUTES[key]) {
+      attributes.push(keyValue(GEN_AI_ATTRIBUTES[key], value));
+    } else if (isTool && key === 'tool') {
+      attributes.push(keyValue('gen_ai.tool.name', value));
+    } else {
+      attributes.push(keyValue(key, value));
+    }
+  }
+
+  return attributes;
+}
+
+function keyValue(key: string, value: unknown): OtlpKeyValue {
+  return { key, value: toAnyValue(value) };
+}
+
+function toAnyValue(value: unknown): OtlpAnyValue {
+  if (typeof value === 'boolean') return { boolValue: value };
+  if (typeof value === 'number') {
+    // int64 is a string in the JSON encoding
+    return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+  }
+  if (Array.isArray(value)) return { arrayValue: { values: value.map(toAnyValue) } };
+  if (typeof value === 'string') return { stringValue: value };
+  return { stringValue: JSON.stringify(value) };
+}
+
+function toUnixNano(ms: number): string {
+  return (BigInt(ms) * 1_000_000n).toString();
+}
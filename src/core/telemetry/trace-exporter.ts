@@ -0,0 +1,80 @@
+/**
+ * Trace Exporter
+ *
+ * Sends each finished pipeline trace as OTLP/JSON, either appended to a file
+ * (one export request per line) or POSTed to an OTLP/HTTP collector such as
+ * Jaeger's. Exports never fail a turn; errors are logged.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { config } from '@/config/index.js';
+import { logger } from '@/core/logger.js';
+import type { PerformanceReport } from '@/core/performance-tracker.js';
+import { toOtlpTraceRequest } from './otlp.js';
+
+const EXPORT_TIMEOUT_MS = 5000;
+
+export class TraceExporter {
+  private pending = new Set<Promise<void>>();
+
+  /**
+   * Check if traces are exported at all
+   */
+  isEnabled(): boolean {
+    return config.telemetry.exporter !== 'none';
+  }
+
+  /**
+   * Export one turn's trace in the background
+   */
+  export(report: PerformanceReport): void {
+    if (!this.isEnabled() || report.spans.length === 0) return;
+
+    const body = JSON.stringify(toOtlpTraceRequest(report, config.telemetry.serviceName));
+    const task = (config.telemetry.exporter === 'file' ? this.writeFile(body) : this.post(body))
+      .then(() => {
+        logger.debug(
+          { traceId: report.traceId, spans: report.spans.length },
+          'Telemetry: Trace exported'
+        );
+      })
+      .catch((error) => {
+        logger.warn(
+          { traceId: report.traceId, exporter: config.telemetry.exporter, error },
+          'Telemetry: Trace export failed'
+        );
+      })
+      .finally(() => this.pending.delete(task));
+
+    this.pending.add(task);
+  }
+
+  /**
+   * Wait for in-flight exports (call before the process exits)
+   */
+  async flush(): Promise<void> {
+    await Promise.all(this.pending);
+  }
+
+  private async writeFile(body: string): Promise<void> {
+    const filePath = config.telemetry.filePath;
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.appendFile(filePath, body + '\n');
+  }
+
+  private async post(body: string): Promise<void> {
+    const response = await fetch(`${config.telemetry.endpoint}/v1/traces`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body,
+      signal: AbortSignal.timeout(EXPORT_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Collector responded with ${response.status} ${response.statusText}`);
+    }
+  }
+}
+
+export const traceExporter = new TraceExporter();
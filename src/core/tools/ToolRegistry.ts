@@ -0,0 +1,179 @@
+// Tool Registry - Singleton registry for tools exposed to mode handlers
+import { logger } from '@/core/logger.js';
+import { performanceTracker } from '@/core/performance-tracker.js';
+import { toStrictJsonSchema, type StrictJsonSchema } from '@/core/structured-output.js';
+import type { LLMToolCall, LLMToolDefinition } from '@/core/providers/index.js';
+import type { ToolInvocation } from '@/types/index.js';
+import type { Tool, ToolContext, ToolSession } from './types.js';
+
+/**
+ * Singleton registry for managing tools
+ * Domains register their tools; handlers pick the ones they offer by name
+ */
+export class ToolRegistry {
+  private static instance: ToolRegistry;
+  private tools = new Map<string, { tool: Tool; parameters: StrictJsonSchema }>();
+
+  private constructor() {
+    // Private constructor for singleton pattern
+  }
+
+  /**
+   * Get the singleton instance
+   */
+  static getInstance(): ToolRegistry {
+    if (!ToolRegistry.instance) {
+      ToolRegistry.instance = new ToolRegistry();
+    }
+    return ToolRegistry.instance;
+  }
+
+  /**
+   * Register a tool
+   * @param tool - Tool to register; its Zod parameters are converted to a strict JSON schema
+   */
+  register(tool: Tool): void {
+    if (this.tools.has(tool.name)) {
+      logger.warn({ toolName: tool.name }, 'Replacing existing tool');
+    }
+
+    this.tools.set(tool.name, { tool, parameters: toStrictJsonSchema(tool.parameters) });
+
+    logger.info({ toolName: tool.name }, 'Tool registered');
+  }
+
+  /**
+   * Get a tool by name
+   * @returns Tool or null if not registered
+   */
+  getTool(name: string): Tool | null {
+    return this.tools.get(name)?.tool || null;
+  }
+
+  /**
+   * Check if a tool is registered
+   */
+  hasTool(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  /**
+   * Get definitions for the named tools, skipping any that aren't registered
+   */
+  getDefinitions(names: string[]): LLMToolDefinition[] {
+    return names
+      .filter((name) => this.tools.has(name))
+      .map((name) => {
+        const { tool, parameters } = this.tools.get(name)!;
+        return {
+          name: tool.name,
+          description: tool.description,
+          parameters: parameters.schema,
+          strict: true,
+        };
+      });
+  }
+
+  /**
+   * Offer the named tools for one LLM call, recording every invocation
+   */
+  createSession(names: string[], context: ToolContext): ToolSession {
+    const invocations: ToolInvocation[] = [];
+
+    return {
+      definitions: this.getDefinitions(names),
+      invocations,
+      execute: async (call) => {
+        const invocation = await this.invoke(call, context);
+        invocations.push(invocation);
+
+        // The model sees either the result or the error, as JSON
+        return JSON.stringify(
+          invocation.error !== undefined ? { error: invocation.error } : (invocation.result ?? null)
+        );
+      },
+    };
+  }
+
+  /**
+   * Validate arguments and run a tool call. Failures are returned, not thrown,
+   * so the model can see what went wrong and recover.
+   */
+  async invoke(call: LLMToolCall, context: ToolContext): Promise<ToolInvocation> {
+    const startTime = Date.now();
+    const toolSpan = performanceTracker.startSpan(`tool.${call.name}`);
+    const invocation: ToolInvocation = {
+      id: call.id,
+      name: call.name,
+      arguments: call.arguments,
+      durationMs: 0,
+    };
+
+    try {
+      const entry = this.tools.get(call.name);
+      if (!entry) {
+        throw new Error(`Unknown tool: ${call.name}`);
+      }
+
+      let rawArgs: unknown;
+      try {
+        rawArgs = JSON.parse(call.arguments || '{}');
+      } catch {
+        throw new Error('Arguments are not valid JSON');
+      }
+
+      const args = entry.parameters.normalize(rawArgs);
+      invocation.arguments = args;
+
+      const validation = entry.tool.parameters.safeParse(args);
+      if (!validation.success) {
+        throw new Error(
+          `Invalid arguments: ${validation.error.issues
+            .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+            .join('; ')}`
+        );
+      }
+
+      invocation.result = await entry.tool.execute(validation.data, context);
+    } catch (error) {
+      invocation.error = error instanceof Error ? error.message : String(error);
+    }
+
+    invocation.durationMs = Date.now() - startTime;
+    performanceTracker.endSpan(toolSpan, {
+      tool: call.name,
+      success: invocation.error === undefined,
+      duration: invocation.durationMs,
+    });
+
+    logger.info(
+      {
+        toolName: call.name,
+        conversationId: context.conversationId,
+        duration: invocation.durationMs,
+        error: invocation.error,
+      },
+      invocation.error === undefined ? 'Tool call complete' : 'Tool call failed'
+    );
+
+    return invocation;
+  }
+
+  /**
+   * Get names of all registered tools
+   */
+  getRegisteredToolNames(): string[] {
+    return Array.from(this.tools.keys());
+  }
+
+  /**
+   * Clear all registered tools
+   * Useful for testing
+   */
+  clear(): void {
+    this.tools.clear();
+  }
+}
+
+// Export singleton instance
+export const toolRegistry = ToolRegistry.getInstance();
@@ -0,0 +1,47 @@
+// Domain Data Tool - Lets the model look up what a domain has stored for the user
+import { z } from 'zod';
+import { domainRegistry } from '@/core/domains/registries/index.js';
+import { StorageFactory } from '@/core/domains/storage/index.js';
+import type { Tool } from './types.js';
+
+const queryDomainDataParameters = z.object({
+  domain: z.string().describe('Domain ID, e.g. "health" or "finance"'),
+  days: z.number().int().min(1).max(365).optional().describe('Only entries from the last N days'),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(50)
+    .optional()
+    .describe('Maximum entries to return (default 10)'),
+});
+
+export const queryDomainDataTool: Tool<z.infer<typeof queryDomainDataParameters>> = {
+  name: 'query_domain_data',
+  description:
+    "Look up the user's recorded data for a domain (health, finance, ...), newest first. " +
+    'Use this to answer questions about past entries instead of guessing.',
+  parameters: queryDomainDataParameters,
+
+  async execute(args, context) {
+    const domain = domainRegistry.getDomain(args.domain);
+    if (!domain?.config.storageConfig) {
+      const queryable = domainRegistry
+        .getActiveDomains()
+        .filter((d) => d.config.storageConfig)
+        .map((d) => d.id);
+      throw new Error(
+        `Domain "${args.domain}" has no stored data. Available: ${queryable.join(', ')}`
+      );
+    }
+
+    const storage = StorageFactory.create(domain.id, domain.config.storageConfig);
+    const entries = await storage.query({
+      userId: context.userId,
+      startDate: args.days ? new Date(Date.now() - args.days * 24 * 60 * 60 * 1000) : undefined,
+      limit: args.limit ?? 10,
+    });
+
+    return { domain: domain.id, count: entries.length, entries };
+  },
+};
@@ -0,0 +1,17 @@
+// Tools the model can call from mode handlers
+import { logger } from '@/core/logger.js';
+import { toolRegistry } from './ToolRegistry.js';
+import { queryDomainDataTool } from './domain-data.tool.js';
+
+export { ToolRegistry, toolRegistry } from './ToolRegistry.js';
+export { queryDomainDataTool } from './domain-data.tool.js';
+export type { Tool, ToolContext, ToolSession } from './types.js';
+
+/**
+ * Register tools that work across domains
+ * Domain-specific tools are registered by their domain (e.g. registerGoalDomain)
+ */
+export function registerCoreTools(): void {
+  toolRegistry.register(queryDomainDataTool);
+  logger.info('Core tools registered successfully');
+}
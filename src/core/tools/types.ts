@@ -0,0 +1,33 @@
+// Tool types - Functions the model can call from mode handlers
+import type { z } from 'zod';
+import type { ToolExecutor } from '@/core/llm.service.js';
+import type { ToolInvocation } from '@/types/index.js';
+
+/**
+ * Who the tool is acting for. Tools never take the user from model arguments.
+ */
+export interface ToolContext {
+  userId: string;
+  conversationId: string;
+}
+
+/**
+ * A callable tool. Arguments are validated against `parameters` before execute() runs;
+ * the returned value is serialized to JSON and shown to the model.
+ * Tools with side effects implement undo(), which reverts a successful invocation
+ * recorded in the reply's metadata when its turn is undone.
+ */
+export interface Tool<TArgs = Record<string, unknown>> {
+  name: string; // [a-zA-Z0-9_-], as the model sees it
+  description: string;
+  parameters: z.ZodType<TArgs>;
+  execute(args: TArgs, context: ToolContext): Promise<unknown>;
+  undo?(invocation: ToolInvocation, context: ToolContext): Promise<void>;
+}
+
+/**
+ * Tools offered to one LLM call, plus the invocations made through it
+ */
+export interface ToolSession extends ToolExecutor {
+  invocations: ToolInvocation[];
+}
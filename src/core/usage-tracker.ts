@@ -0,0 +1,111 @@
+/**
+ * Token Usage Tracker
+ *
+ * Collects token usage for every LLM call made during a pipeline turn,
+ * attributed by stage and model, so the Save stage can persist it on the
+ * assistant message. Records are kept per request context.
+ */
+
+import { logger } from './logger.js';
+import { getRequestContext } from './request-context.js';
+import { estimateCost } from '@/config/pricing.js';
+import type { LLMStage, StageUsage } from '@/types/index.js';
+import type { LLMUsage } from './providers/index.js';
+
+export interface UsageRecord {
+  stage: LLMStage;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+export interface UsageSummary {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  byStage: Partial<Record<LLMStage, StageUsage>>;
+  byModel: Record<string, StageUsage>;
+}
+
+export class UsageTracker {
+  // Read when no request context is active; stays empty, as nothing is recorded outside one
+  private fallbackRecords: UsageRecord[] = [];
+
+  /**
+   * Records of the current request
+   */
+  private get records(): UsageRecord[] {
+    return getRequestContext()?.usage ?? this.fallbackRecords;
+  }
+
+  /**
+   * Record usage for one completed LLM call (ignored outside a request context)
+   */
+  record(stage: LLMStage, model: string, usage: LLMUsage | undefined): void {
+    if (!usage || !getRequestContext()) return;
+
+    const record: UsageRecord = {
+      stage,
+      model,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      totalTokens: usage.totalTokens,
+      costUsd: estimateCost(model, usage.promptTokens, usage.completionTokens),
+    };
+    this.records.push(record);
+
+    logger.debug(record, 'Usage: LLM call recorded');
+  }
+
+  /**
+   * Totals for the current turn, broken down by stage and model
+   */
+  getSummary(): UsageSummary {
+    const summary: UsageSummary = {
+      ...emptyUsage(),
+      byStage: {},
+      byModel: {},
+    };
+
+    for (const record of this.records) {
+      addUsage(summary, record);
+      addUsage((summary.byStage[record.stage] ||= emptyUsage()), record);
+      addUsage((summary.byModel[record.model] ||= emptyUsage()), record);
+    }
+
+    return summary;
+  }
+
+  /**
+   * Model used by the most recent call, optionally restricted to one stage
+   */
+  getLastModel(stage?: LLMStage): string | undefined {
+    const matching = stage ? this.records.filter((r) => r.stage === stage) : this.records;
+    return matching[matching.length - 1]?.model;
+  }
+
+  /**
+   * Clear records for the current request
+   */
+  reset(): void {
+    this.records.length = 0;
+  }
+}
+
+function emptyUsage(): StageUsage {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 };
+}
+
+function addUsage(target: StageUsage, record: UsageRecord): void {
+  target.calls += 1;
+  target.promptTokens += record.promptTokens;
+  target.completionTokens += record.completionTokens;
+  target.totalTokens += record.totalTokens;
+  target.costUsd += record.costUsd;
+}
+
+export const usageTracker = new UsageTracker();
@@ -224,7 +224,221 @@ export async function initializeDatabase(): Promise<void> {
     CREATE INDEX IF NOT EXISTS idx_milestones_sequence ON goal_milestones(sequence);
   `);
 
+  // Create agent_states table (temporary domain states such as pending selections)
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS agent_states (
+      id TEXT PRIMARY KEY,
+      conversation_id TEXT NOT NULL,
+      domain_id TEXT NOT NULL,
+      state_type TEXT NOT NULL,
+      state_data TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      expires_at INTEGER NOT NULL,
+      resolved INTEGER NOT NULL DEFAULT 0,
+      FOREIGN KEY (conversation_id) REFERENCES conversations(id)
+    );
+  `);
+
+  sqlite.exec(`
+    CREATE INDEX IF NOT EXISTS idx_agent_states_conversation ON agent_states(conversation_id);
+    CREATE INDEX IF NOT EXISTS idx_agent_states_domain ON agent_states(domain_id);
+    CREATE INDEX IF NOT EXISTS idx_agent_states_expires ON agent_states(expires_at);
+  `);
+
+  // Create llm_cache table (content-addressed JSON-mode responses)
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS llm_cache (
+      key TEXT PRIMARY KEY,
+      model TEXT NOT NULL,
+      response TEXT NOT NULL,
+      hit_count INTEGER NOT NULL DEFAULT 0,
+      created_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+      last_hit_at INTEGER,
+      expires_at INTEGER NOT NULL
+    );
+  `);
+
+  sqlite.exec(`
+    CREATE INDEX IF NOT EXISTS idx_llm_cache_expires ON llm_cache(expires_at);
+  `);
+
+  // Create pipeline_traces table (per-turn debugging data for the trace command)
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS pipeline_traces (
+      id TEXT PRIMARY KEY,
+      message_id TEXT NOT NULL,
+      conversation_id TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      trace_id TEXT NOT NULL,
+      mode TEXT NOT NULL,
+      classification TEXT,
+      decision TEXT,
+      extractions TEXT,
+      steering TEXT,
+      performance TEXT,
+      created_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+      FOREIGN KEY (message_id) REFERENCES messages(id) ON DELETE CASCADE,
+      FOREIGN KEY (conversation_id) REFERENCES conversations(id) ON DELETE CASCADE
+    );
+  `);
+
+  // Added after pipeline_traces shipped
+  addColumnIfMissing(sqlite, 'pipeline_traces', 'retrieval', 'TEXT');
+
+  sqlite.exec(`
+    CREATE INDEX IF NOT EXISTS idx_pipeline_traces_message ON pipeline_traces(message_id);
+    CREATE INDEX IF NOT EXISTS idx_pipeline_traces_conversation ON pipeline_traces(conversation_id);
+  `);
+
+  // Create user_memories table (long-term memory across a user's conversations)
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS user_memories (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      key TEXT NOT NULL,
+      kind TEXT NOT NULL,
+      content TEXT NOT NULL,
+      source TEXT NOT NULL,
+      conversation_count INTEGER NOT NULL DEFAULT 1,
+      first_conversation_id TEXT NOT NULL,
+      last_conversation_id TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+  `);
+
+  sqlite.exec(`
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_user_memories_user_key ON user_memories(user_id, key);
+  `);
+
+  // Create forgotten_memories table (memory keys promotion must not bring back)
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS forgotten_memories (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      key TEXT NOT NULL,
+      forgotten_at INTEGER NOT NULL
+    );
+  `);
+
+  sqlite.exec(`
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_forgotten_memories_user_key ON forgotten_memories(user_id, key);
+  `);
+
+  // Create search_index (FTS5 over message content and flattened domain data)
+  // Triggers keep it in step with inserts and deletes; rows that predate it are backfilled once
+  const searchIndexExists = sqlite
+    .prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'search_index'`)
+    .get();
+
+  sqlite.exec(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS search_index USING fts5(
+      content,
+      source UNINDEXED,
+      source_id UNINDEXED,
+      user_id UNINDEXED,
+      conversation_id UNINDEXED,
+      domain_id UNINDEXED,
+      role UNINDEXED,
+      created_at UNINDEXED,
+      tokenize = 'porter unicode61'
+    );
+  `);
+
+  sqlite.exec(`
+    CREATE TRIGGER IF NOT EXISTS messages_search_insert AFTER INSERT ON messages BEGIN
+      INSERT INTO search_index (${SEARCH_COLUMNS}) ${searchMessageSelect('new')};
+    END;
+    CREATE TRIGGER IF NOT EXISTS messages_search_delete AFTER DELETE ON messages BEGIN
+      DELETE FROM search_index WHERE source = 'message' AND source_id = old.id;
+    END;
+    CREATE TRIGGER IF NOT EXISTS domain_data_search_insert AFTER INSERT ON domain_data BEGIN
+      INSERT INTO search_index (${SEARCH_COLUMNS}) ${searchDomainDataSelect('new')};
+    END;
+    CREATE TRIGGER IF NOT EXISTS domain_data_search_delete AFTER DELETE ON domain_data BEGIN
+      DELETE FROM search_index WHERE source = 'domain_data' AND source_id = old.id;
+    END;
+  `);
+
+  if (!searchIndexExists) {
+    sqlite.exec(`
+      INSERT INTO search_index (${SEARCH_COLUMNS}) ${searchMessageSelect('messages')};
+      INSERT INTO search_index (${SEARCH_COLUMNS}) ${searchDomainDataSelect('domain_data')};
+    `);
+  }
+
+  // Create embeddings table (semantic retrieval vectors, filled lazily from search_index)
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS embeddings (
+      source_id TEXT PRIMARY KEY,
+      source TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      conversation_id TEXT NOT NULL,
+      domain_id TEXT,
+      content TEXT NOT NULL,
+      model TEXT NOT NULL,
+      vector BLOB NOT NULL,
+      created_at INTEGER NOT NULL
+    );
+  `);
+
+  sqlite.exec(`
+    CREATE INDEX IF NOT EXISTS idx_embeddings_user ON embeddings(user_id);
+    CREATE TRIGGER IF NOT EXISTS messages_embeddings_delete AFTER DELETE ON messages BEGIN
+      DELETE FROM embeddings WHERE source_id = old.id;
+    END;
+    CREATE TRIGGER IF NOT EXISTS domain_data_embeddings_delete AFTER DELETE ON domain_data BEGIN
+      DELETE FROM embeddings WHERE source_id = old.id;
+    END;
+  `);
+
   logger.info('Database schema initialized (MVP v4 - Track Progress)');
 }
 
+/**
+ * Add a column to a table created by an earlier version of the schema
+ */
+function addColumnIfMissing(
+  sqlite: Database.Database,
+  table: string,
+  column: string,
+  definition: string
+): void {
+  const columns = sqlite.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  if (!columns.some((c) => c.name === column)) {
+    sqlite.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+const SEARCH_COLUMNS =
+  'content, source, source_id, user_id, conversation_id, domain_id, role, created_at';
+
+/**
+ * search_index row for a message (`new` in a trigger, or the messages table for backfill)
+ */
+function searchMessageSelect(row: string): string {
+  const from = row === 'new' ? '' : `FROM ${row}`;
+  return `
+    SELECT ${row}.content, 'message', ${row}.id,
+      (SELECT user_id FROM conversations WHERE id = ${row}.conversation_id),
+      ${row}.conversation_id, NULL, ${row}.role, ${row}.timestamp
+    ${from}`;
+}
+
+/**
+ * search_index row for domain data, flattened to "sleep hours: 4; ..." without ownership fields
+ */
+function searchDomainDataSelect(row: string): string {
+  const from = row === 'new' ? '' : `FROM ${row}`;
+  return `
+    SELECT (
+        SELECT group_concat(replace(substr(fullkey, 3), '.', ' ') || ': ' || atom, '; ')
+        FROM json_tree(${row}.data)
+        WHERE atom IS NOT NULL AND key NOT IN ('userId', 'conversationId', 'confidence')
+      ),
+      'domain_data', ${row}.id, ${row}.user_id, ${row}.conversation_id, ${row}.domain_id, NULL,
+      ${row}.extracted_at
+    ${from}`;
+}
+
 export default getDatabase;
@@ -1,10 +1,49 @@
 // Conversation Repository
-import { eq, and, desc } from 'drizzle-orm';
+import { eq, and, asc, desc, gte, inArray, like, lte, or, sql, type SQL } from 'drizzle-orm';
 import { getDatabase } from '@/database/client.js';
-import { conversations } from '@/database/schema.js';
+import {
+  agentStates,
+  conversations,
+  conversationStates,
+  domainData,
+  goalMilestones,
+  goals,
+  messages,
+  pipelineTraces,
+  progressEntries,
+  type Conversation as ConversationRow,
+  type ConversationStateRow,
+  type DomainDataRow,
+  type Goal,
+  type GoalMilestone,
+  type Message as MessageRow,
+  type ProgressEntry,
+} from '@/database/schema.js';
 import type { Conversation, CreateConversationDto, ConversationStatus } from '@/types/index.js';
 import { DatabaseError } from '@/types/index.js';
 
+export interface ConversationFilters {
+  userId?: string;
+  status?: ConversationStatus;
+  since?: Date; // Last activity on or after
+  until?: Date; // Last activity on or before
+  limit?: number;
+}
+
+/**
+ * A conversation with every stored row that belongs to it, as used by export and import
+ * Goals are those created in the conversation or with progress logged in it.
+ */
+export interface ConversationRows {
+  conversation: ConversationRow;
+  messages: MessageRow[];
+  states: ConversationStateRow[];
+  domainData: DomainDataRow[];
+  goals: Goal[];
+  milestones: GoalMilestone[];
+  progressEntries: ProgressEntry[];
+}
+
 export class ConversationRepository {
   private db = getDatabase();
 
@@ -71,6 +110,77 @@ export class ConversationRepository {
     }
   }
 
+  /**
+   * All of a user's conversations, most recently active first
+   */
+  async findByUserId(userId: string, limit: number = 50): Promise<Conversation[]> {
+    try {
+      const results = await this.db
+        .select()
+        .from(conversations)
+        .where(eq(conversations.userId, userId))
+        .orderBy(desc(conversations.lastActivityAt))
+        .limit(limit);
+
+      return results.map((row) => ({
+        ...row,
+        status: row.status as ConversationStatus,
+        metadata: row.metadata as Record<string, unknown> | undefined,
+      }));
+    } catch (error) {
+      throw new DatabaseError('find conversations by user', error as Error);
+    }
+  }
+
+  /**
+   * Conversations matching all given filters, most recently active first
+   */
+  async findMany(filters: ConversationFilters = {}): Promise<Conversation[]> {
+    try {
+      const conditions: SQL[] = [];
+      if (filters.userId) conditions.push(eq(conversations.userId, filters.userId));
+      if (filters.status) conditions.push(eq(conversations.status, filters.status));
+      if (filters.since) conditions.push(gte(conversations.lastActivityAt, filters.since));
+      if (filters.until) conditions.push(lte(conversations.lastActivityAt, filters.until));
+
+      const results = await this.db
+        .select()
+        .from(conversations)
+        .where(and(...conditions))
+        .orderBy(desc(conversations.lastActivityAt))
+        .limit(filters.limit ?? 50);
+
+      return results.map((row) => ({
+        ...row,
+        status: row.status as ConversationStatus,
+        metadata: row.metadata as Record<string, unknown> | undefined,
+      }));
+    } catch (error) {
+      throw new DatabaseError('find conversations', error as Error);
+    }
+  }
+
+  /**
+   * Conversations whose ID starts with the prefix (at most `limit`, to detect ambiguity)
+   */
+  async findByIdPrefix(prefix: string, limit: number = 2): Promise<Conversation[]> {
+    try {
+      const results = await this.db
+        .select()
+        .from(conversations)
+        .where(like(conversations.id, `${prefix.replace(/[%_]/g, '')}%`))
+        .limit(limit);
+
+      return results.map((row) => ({
+        ...row,
+        status: row.status as ConversationStatus,
+        metadata: row.metadata as Record<string, unknown> | undefined,
+      }));
+    } catch (error) {
+      throw new DatabaseError('find conversations by id prefix', error as Error);
+    }
+  }
+
   async updateActivity(id: string): Promise<void> {
     try {
       await this.db
@@ -98,6 +208,122 @@ export class ConversationRepository {
       throw new DatabaseError('update conversation status', error as Error);
     }
   }
+
+  /**
+   * Delete a conversation and the rows that belong to it
+   * Foreign keys aren't enforced, so this applies the schema's ON DELETE rules itself:
+   * messages, states, domain data, agent states and traces go; goals and progress
+   * entries are kept and unlinked.
+   */
+  async delete(id: string): Promise<void> {
+    try {
+      this.db.transaction((tx) => {
+        tx.delete(messages).where(eq(messages.conversationId, id)).run();
+        tx.delete(conversationStates).where(eq(conversationStates.conversationId, id)).run();
+        tx.delete(domainData).where(eq(domainData.conversationId, id)).run();
+        tx.delete(agentStates).where(eq(agentStates.conversationId, id)).run();
+        tx.delete(pipelineTraces).where(eq(pipelineTraces.conversationId, id)).run();
+        tx.update(goals).set({ conversationId: null }).where(eq(goals.conversationId, id)).run();
+        tx.update(progressEntries)
+          .set({ conversationId: null })
+          .where(eq(progressEntries.conversationId, id))
+          .run();
+        tx.delete(conversations).where(eq(conversations.id, id)).run();
+      });
+    } catch (error) {
+      throw new DatabaseError('delete conversation', error as Error);
+    }
+  }
+
+  /**
+   * Load a conversation and its rows, oldest first
+   */
+  async findRows(id: string): Promise<ConversationRows | null> {
+    try {
+      const [conversation] = await this.db
+        .select()
+        .from(conversations)
+        .where(eq(conversations.id, id))
+        .limit(1);
+      if (!conversation) return null;
+
+      const progressRows = await this.db
+        .select()
+        .from(progressEntries)
+        .where(eq(progressEntries.conversationId, id))
+        .orderBy(asc(progressEntries.loggedAt));
+
+      const progressGoalIds = [...new Set(progressRows.map((entry) => entry.goalId))];
+      const goalRows = await this.db
+        .select()
+        .from(goals)
+        .where(
+          progressGoalIds.length > 0
+            ? or(eq(goals.conversationId, id), inArray(goals.id, progressGoalIds))
+            : eq(goals.conversationId, id)
+        )
+        .orderBy(asc(goals.createdAt));
+
+      const milestoneRows =
+        goalRows.length > 0
+          ? await this.db
+              .select()
+              .from(goalMilestones)
+              .where(
+                inArray(
+                  goalMilestones.goalId,
+                  goalRows.map((goal) => goal.id)
+                )
+              )
+              .orderBy(asc(goalMilestones.sequence))
+          : [];
+
+      return {
+        conversation,
+        messages: await this.db
+          .select()
+          .from(messages)
+          .where(eq(messages.conversationId, id))
+          .orderBy(asc(messages.timestamp), asc(sql`rowid`)),
+        states: await this.db
+          .select()
+          .from(conversationStates)
+          .where(eq(conversationStates.conversationId, id))
+          .orderBy(asc(conversationStates.createdAt), asc(sql`rowid`)),
+        domainData: await this.db
+          .select()
+          .from(domainData)
+          .where(eq(domainData.conversationId, id))
+          .orderBy(asc(domainData.extractedAt)),
+        goals: goalRows,
+        milestones: milestoneRows,
+        progressEntries: progressRows,
+      };
+    } catch (error) {
+      throw new DatabaseError('find conversation rows', error as Error);
+    }
+  }
+
+  /**
+   * Insert a conversation and its rows in one transaction; IDs are used as given
+   */
+  async insertRows(rows: ConversationRows): Promise<void> {
+    try {
+      this.db.transaction((tx) => {
+        tx.insert(conversations).values(rows.conversation).run();
+        if (rows.messages.length > 0) tx.insert(messages).values(rows.messages).run();
+        if (rows.states.length > 0) tx.insert(conversationStates).values(rows.states).run();
+        if (rows.domainData.length > 0) tx.insert(domainData).values(rows.domainData).run();
+        if (rows.goals.length > 0) tx.insert(goals).values(rows.goals).run();
+        if (rows.milestones.length > 0) tx.insert(goalMilestones).values(rows.milestones).run();
+        if (rows.progressEntries.length > 0) {
+          tx.insert(progressEntries).values(rows.progressEntries).run();
+        }
+      });
+    } catch (error) {
+      throw new DatabaseError('insert conversation rows', error as Error);
+    }
+  }
 }
 
 export const conversationRepository = new ConversationRepository();
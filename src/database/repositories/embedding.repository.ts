@@ -0,0 +1,123 @@
+/**
+ * Embedding Repository
+ *
+ * Stores local TF-IDF vectors of user messages and domain data for semantic
+ * retrieval. Rows to embed are read from search_index, which already holds
+ * message text and flattened domain data; deleting a message or domain_data
+ * row deletes its embedding through a trigger.
+ */
+
+import { and, desc, eq, sql } from 'drizzle-orm';
+import { getDatabase } from '../client.js';
+import { embeddings } from '../schema.js';
+import { DatabaseError, type RetrievalSource } from '@/types/index.js';
+
+export interface EmbeddingSource {
+  source: RetrievalSource;
+  sourceId: string;
+  userId: string;
+  conversationId: string;
+  domainId: string | null;
+  content: string;
+  createdAt: Date;
+}
+
+export interface StoredEmbedding extends EmbeddingSource {
+  vector: Float32Array;
+}
+
+interface SourceRow {
+  source: RetrievalSource;
+  source_id: string;
+  user_id: string;
+  conversation_id: string;
+  domain_id: string | null;
+  content: string;
+  created_at: number;
+}
+
+export class EmbeddingRepository {
+  private db = getDatabase();
+
+  /**
+   * A user's messages and domain data not yet embedded with this model
+   * Assistant messages are skipped - retrieval is for what the user shared
+   */
+  async findUnembedded(userId: string, model: string, limit: number): Promise<EmbeddingSource[]> {
+    try {
+      const rows = this.db.all<SourceRow>(sql`
+        SELECT source, source_id, user_id, conversation_id, domain_id, content, created_at
+        FROM search_index s
+        WHERE user_id = ${userId}
+          AND (source = 'domain_data' OR role = 'user')
+          AND content IS NOT NULL AND content != ''
+          AND NOT EXISTS (
+            SELECT 1 FROM embeddings e WHERE e.source_id = s.source_id AND e.model = ${model}
+          )
+        LIMIT ${limit}
+      `);
+
+      return rows.map((row) => ({
+        source: row.source,
+        sourceId: row.source_id,
+        userId: row.user_id,
+        conversationId: row.conversation_id,
+        domainId: row.domain_id,
+        content: row.content,
+        createdAt: new Date(row.created_at * 1000),
+      }));
+    } catch (error) {
+      throw new DatabaseError('find unembedded rows', error as Error);
+    }
+  }
+
+  /**
+   * Insert embeddings, replacing ones made with another model
+   */
+  async upsertMany(model: string, items: StoredEmbedding[]): Promise<void> {
+    if (items.length === 0) return;
+
+    try {
+      this.db.transaction((tx) => {
+        for (const item of items) {
+          const values = {
+            ...item,
+            model,
+            vector: Buffer.from(item.vector.buffer, item.vector.byteOffset, item.vector.byteLength),
+          };
+          tx.insert(embeddings)
+            .values(values)
+            .onConflictDoUpdate({ target: embeddings.sourceId, set: values })
+            .run();
+        }
+      });
+    } catch (error) {
+      throw new DatabaseError('upsert embeddings', error as Error);
+    }
+  }
+
+  /**
+   * A user's embeddings made with this model, newest first
+   */
+  async findByUserId(userId: string, model: string, limit: number): Promise<StoredEmbedding[]> {
+    try {
+      const rows = await this.db
+        .select()
+        .from(embeddings)
+        .where(and(eq(embeddings.userId, userId), eq(embeddings.model, model)))
+        .orderBy(desc(embeddings.createdAt))
+        .limit(limit);
+
+      return rows.map(({ model: _model, vector, ...row }) => ({
+        ...row,
+        source: row.source as RetrievalSource,
+        // Copy: the driver's buffer may not be aligned for a Float32Array view
+        vector: new Float32Array(new Uint8Array(vector).buffer),
+      }));
+    } catch (error) {
+      throw new DatabaseError('find embeddings', error as Error);
+    }
+  }
+}
+
+export const embeddingRepository = new EmbeddingRepository();
@@ -1,6 +1,15 @@
 // Repository exports
-export { ConversationRepository, conversationRepository } from './conversation.repository.js';
-export { MessageRepository, messageRepository } from './message.repository.js';
+export {
+  ConversationRepository,
+  conversationRepository,
+  type ConversationFilters,
+  type ConversationRows,
+} from './conversation.repository.js';
+export {
+  MessageRepository,
+  messageRepository,
+  type MessageUsageRecord,
+} from './message.repository.js';
 export { StateRepository, stateRepository } from './state.repository.js';
 
 // MVP v4: Track Progress repositories
@@ -13,3 +22,29 @@ export {
 
 // Agent State repository
 export { AgentStateRepository, agentStateRepository } from './agent-state.repository.js';
+
+// LLM response cache repository
+export { LLMCacheRepository, llmCacheRepository } from './llm-cache.repository.js';
+
+// Pipeline trace repository
+export { PipelineTraceRepository, pipelineTraceRepository } from './pipeline-trace.repository.js';
+
+// Full-text search repository
+export {
+  SearchRepository,
+  searchRepository,
+  type SearchFilters,
+  type SearchHit,
+  type SearchSource,
+} from './search.repository.js';
+
+// Long-term user memory repository
+export { MemoryRepository, memoryRepository } from './memory.repository.js';
+
+// Semantic retrieval embedding repository
+export {
+  EmbeddingRepository,
+  embeddingRepository,
+  type EmbeddingSource,
+  type StoredEmbedding,
+} from './embedding.repository.js';
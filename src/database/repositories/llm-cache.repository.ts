@@ -0,0 +1,93 @@
+/**
+ * LLM Cache Repository
+ *
+ * Stores LLM responses by content hash so identical JSON-mode requests
+ * (classifiers, extractors) can be answered without another API call.
+ */
+
+import { eq, and, gt, lt, sql } from 'drizzle-orm';
+import { getDatabase } from '../client.js';
+import { llmCache } from '../schema.js';
+import type { LLMCacheEntry } from '../schema.js';
+import { DatabaseError } from '@/types/index.js';
+
+export class LLMCacheRepository {
+  private db = getDatabase();
+
+  /**
+   * Get an unexpired entry and count the hit
+   */
+  async get(key: string): Promise<LLMCacheEntry | null> {
+    try {
+      const now = new Date();
+
+      const [entry] = await this.db
+        .select()
+        .from(llmCache)
+        .where(and(eq(llmCache.key, key), gt(llmCache.expiresAt, now)))
+        .limit(1);
+
+      if (!entry) return null;
+
+      await this.db
+        .update(llmCache)
+        .set({ hitCount: sql`${llmCache.hitCount} + 1`, lastHitAt: now })
+        .where(eq(llmCache.key, key));
+
+      return entry;
+    } catch (error) {
+      throw new DatabaseError('get llm cache entry', error as Error);
+    }
+  }
+
+  /**
+   * Store a response, replacing any previous (possibly expired) entry for the key
+   */
+  async set(key: string, model: string, response: string, ttlSeconds: number): Promise<void> {
+    try {
+      const now = new Date();
+      const entry = {
+        key,
+        model,
+        response,
+        hitCount: 0,
+        createdAt: now,
+        lastHitAt: null,
+        expiresAt: new Date(now.getTime() + ttlSeconds * 1000),
+      };
+
+      await this.db
+        .insert(llmCache)
+        .values(entry)
+        .onConflictDoUpdate({ target: llmCache.key, set: entry });
+    } catch (error) {
+      throw new DatabaseError('set llm cache entry', error as Error);
+    }
+  }
+
+  /**
+   * Delete expired entries
+   */
+  async cleanupExpired(): Promise<number> {
+    try {
+      const result = await this.db.delete(llmCache).where(lt(llmCache.expiresAt, new Date()));
+      return result.changes;
+    } catch (error) {
+      throw new DatabaseError('cleanup llm cache', error as Error);
+    }
+  }
+
+  /**
+   * Delete all entries
+   */
+  async clear(): Promise<number> {
+    try {
+      const result = await this.db.delete(llmCache);
+      return result.changes;
+    } catch (error) {
+      throw new DatabaseError('clear llm cache', error as Error);
+    }
+  }
+}
+
+export const llmCacheRepository = new LLMCacheRepository();
@@ -0,0 +1,147 @@
+/**
+ * Memory Repository
+ *
+ * Stores long-term user memories: facts, preferences and concerns kept across
+ * conversations, one row per user and memory key, and the keys a user asked to forget.
+ */
+
+import { and, desc, eq, sql } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase } from '../client.js';
+import { forgottenMemories, userMemories, type UserMemoryRow } from '../schema.js';
+import {
+  DatabaseError,
+  type MemoryCandidate,
+  type MemoryKind,
+  type UserMemory,
+} from '@/types/index.js';
+
+export class MemoryRepository {
+  private db = getDatabase();
+
+  /**
+   * Insert a memory, or refresh the user's memory with the same key
+   * The conversation count only grows when the memory comes up in another conversation
+   */
+  async upsert(
+    userId: string,
+    conversationId: string,
+    source: string,
+    candidate: MemoryCandidate
+  ): Promise<void> {
+    try {
+      const now = new Date();
+
+      await this.db
+        .insert(userMemories)
+        .values({
+          id: uuidv4(),
+          userId,
+          key: candidate.key,
+          kind: candidate.kind,
+          content: candidate.content,
+          source,
+          conversationCount: 1,
+          firstConversationId: conversationId,
+          lastConversationId: conversationId,
+          createdAt: now,
+          updatedAt: now,
+        })
+        .onConflictDoUpdate({
+          target: [userMemories.userId, userMemories.key],
+          set: {
+            kind: candidate.kind,
+            content: candidate.content,
+            source,
+            conversationCount: sql`CASE WHEN ${userMemories.lastConversationId} = ${conversationId}
+              THEN ${userMemories.conversationCount}
+              ELSE ${userMemories.conversationCount} + 1 END`,
+            lastConversationId: conversationId,
+            updatedAt: now,
+          },
+        });
+    } catch (error) {
+      throw new DatabaseError('upsert user memory', error as Error);
+    }
+  }
+
+  /**
+   * A user's memories, most recurring first
+   */
+  async findByUserId(userId: string, limit: number = 100): Promise<UserMemory[]> {
+    try {
+      const rows = await this.db
+        .select()
+        .from(userMemories)
+        .where(eq(userMemories.userId, userId))
+        .orderBy(desc(userMemories.conversationCount), desc(userMemories.updatedAt))
+        .limit(limit);
+
+      return rows.map((row) => this.toMemory(row));
+    } catch (error) {
+      throw new DatabaseError('find user memories', error as Error);
+    }
+  }
+
+  async deleteById(userId: string, id: string): Promise<void> {
+    try {
+      await this.db
+        .delete(userMemories)
+        .where(and(eq(userMemories.userId, userId), eq(userMemories.id, id)));
+    } catch (error) {
+      throw new DatabaseError('delete user memory', error as Error);
+    }
+  }
+
+  /**
+   * @returns Number of memories deleted
+   */
+  async deleteByUserId(userId: string): Promise<number> {
+    try {
+      const result = await this.db.delete(userMemories).where(eq(userMemories.userId, userId));
+      return result.changes;
+    } catch (error) {
+      throw new DatabaseError('delete user memories', error as Error);
+    }
+  }
+
+  /**
+   * Record keys as forgotten so later turns don't promote them again
+   */
+  async markForgotten(userId: string, keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+
+    try {
+      const now = new Date();
+
+      await this.db
+        .insert(forgottenMemories)
+        .values(keys.map((key) => ({ id: uuidv4(), userId, key, forgottenAt: now })))
+        .onConflictDoNothing({ target: [forgottenMemories.userId, forgottenMemories.key] });
+    } catch (error) {
+      throw new DatabaseError('mark memories forgotten', error as Error);
+    }
+  }
+
+  async findForgottenKeys(userId: string): Promise<Set<string>> {
+    try {
+      const rows = await this.db
+        .select({ key: forgottenMemories.key })
+        .from(forgottenMemories)
+        .where(eq(forgottenMemories.userId, userId));
+
+      return new Set(rows.map((row) => row.key));
+    } catch (error) {
+      throw new DatabaseError('find forgotten memories', error as Error);
+    }
+  }
+
+  private toMemory(row: UserMemoryRow): UserMemory {
+    return {
+      ...row,
+      kind: row.kind as MemoryKind,
+    };
+  }
+}
+
+export const memoryRepository = new MemoryRepository();
@@ -1,7 +1,7 @@
 // Message Repository
-import { eq, desc } from 'drizzle-orm';
+import { eq, desc, and, count, gte, inArray, isNotNull, sql } from 'drizzle-orm';
 import { getDatabase } from '@/database/client.js';
-import { messages } from '@/database/schema.js';
+import { messages, conversations } from '@/database/schema.js';
 import type { Message, CreateMessageDto, MessageMetadata } from '@/types/index.js';
 import { DatabaseError, MessageRole } from '@/types/index.js';
 
@@ -16,7 +16,7 @@ export class MessageRepository {
         role: data.role,
         content: data.content,
         timestamp: data.timestamp,
-        metadata: data.metadata ? JSON.stringify(data.metadata) : null,
+        metadata: data.metadata || null, // Let Drizzle handle JSON serialization
         createdAt: new Date(),
       };
 
@@ -37,7 +37,7 @@ export class MessageRepository {
         .select()
         .from(messages)
         .where(eq(messages.conversationId, conversationId))
-        .orderBy(desc(messages.timestamp))
+        .orderBy(desc(messages.timestamp), desc(sql`rowid`)) // A turn's messages share a second
         .limit(limit);
 
       return results.map((row) => ({
@@ -56,7 +56,7 @@ export class MessageRepository {
         .select()
         .from(messages)
         .where(eq(messages.conversationId, conversationId))
-        .orderBy(desc(messages.timestamp))
+        .orderBy(desc(messages.timestamp), desc(sql`rowid`))
         .limit(count);
 
       // Return in chronological order with proper typing
@@ -71,6 +71,104 @@ export class MessageRepository {
       throw new DatabaseError('get recent messages', error as Error);
     }
   }
+
+  /**
+   * Messages in conversation order, skipping the first `offset`
+   */
+  async getMessageRange(conversationId: string, offset: number, count: number): Promise<Message[]> {
+    try {
+      const result = await this.db
+        .select()
+        .from(messages)
+        .where(eq(messages.conversationId, conversationId))
+        .orderBy(messages.timestamp, sql`rowid`)
+        .limit(count)
+        .offset(offset);
+
+      return result.map((row) => ({
+        ...row,
+        role: row.role as MessageRole,
+        metadata: row.metadata as MessageMetadata | undefined,
+      }));
+    } catch (error) {
+      throw new DatabaseError('get message range', error as Error);
+    }
+  }
+
+  /**
+   * Message count per conversation; conversations without messages are absent
+   */
+  async countByConversationIds(conversationIds: string[]): Promise<Map<string, number>> {
+    if (conversationIds.length === 0) return new Map();
+
+    try {
+      const rows = await this.db
+        .select({ conversationId: messages.conversationId, count: count() })
+        .from(messages)
+        .where(inArray(messages.conversationId, conversationIds))
+        .groupBy(messages.conversationId);
+
+      return new Map(rows.map((row) => [row.conversationId, row.count]));
+    } catch (error) {
+      throw new DatabaseError('count messages by conversation', error as Error);
+    }
+  }
+
+  async deleteByIds(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    try {
+      await this.db.delete(messages).where(inArray(messages.id, ids));
+    } catch (error) {
+      throw new DatabaseError('delete messages', error as Error);
+    }
+  }
+
+  /**
+   * Assistant messages carrying usage metadata, with the owning user
+   * Used by usage reporting; filters are optional and combined with AND
+   */
+  async findUsageRecords(
+    filters: { userId?: string; conversationId?: string; since?: Date } = {}
+  ): Promise<MessageUsageRecord[]> {
+    try {
+      const conditions = [eq(messages.role, MessageRole.ASSISTANT), isNotNull(messages.metadata)];
+
+      if (filters.userId) conditions.push(eq(conversations.userId, filters.userId));
+      if (filters.conversationId) {
+        conditions.push(eq(messages.conversationId, filters.conversationId));
+      }
+      if (filters.since) conditions.push(gte(messages.timestamp, filters.since));
+
+      const rows = await this.db
+        .select({
+          messageId: messages.id,
+          conversationId: messages.conversationId,
+          userId: conversations.userId,
+          timestamp: messages.timestamp,
+          metadata: messages.metadata,
+        })
+        .from(messages)
+        .innerJoin(conversations, eq(messages.conversationId, conversations.id))
+        .where(and(...conditions))
+        .orderBy(messages.timestamp);
+
+      return rows.map((row) => ({
+        ...row,
+        metadata: row.metadata as MessageMetadata,
+      }));
+    } catch (error) {
+      throw new DatabaseError('find message usage records', error as Error);
+    }
+  }
+}
+
+export interface MessageUsageRecord {
+  messageId: string;
+  conversationId: string;
+  userId: string;
+  timestamp: Date;
+  metadata: MessageMetadata;
 }
 
 export const messageRepository = new MessageRepository();
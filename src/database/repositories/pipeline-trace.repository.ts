@@ -0,0 +1,93 @@
+/**
+ * Pipeline Trace Repository
+ *
+ * Stores what each turn's stages decided (classification, arbiter decision,
+ * extractions, steering) with its performance report, keyed by the assistant
+ * message, so a reply can be explained after the fact.
+ */
+
+import { eq, asc, sql } from 'drizzle-orm';
+import { getDatabase } from '../client.js';
+import { pipelineTraces } from '../schema.js';
+import type { PipelineTraceRow } from '../schema.js';
+import {
+  DatabaseError,
+  type ArbiterDecision,
+  type ConversationMode,
+  type CreatePipelineTraceDto,
+  type PipelineTrace,
+  type RetrievedFact,
+  type TraceExtraction,
+  type TracePerformance,
+  type TraceSteering,
+} from '@/types/index.js';
+import type { UnifiedClassificationResult } from '@/core/classifiers/index.js';
+
+export class PipelineTraceRepository {
+  private db = getDatabase();
+
+  async create(data: CreatePipelineTraceDto): Promise<void> {
+    try {
+      await this.db.insert(pipelineTraces).values({
+        ...data,
+        createdAt: new Date(),
+      });
+    } catch (error) {
+      throw new DatabaseError('create pipeline trace', error as Error);
+    }
+  }
+
+  async findByMessageId(messageId: string): Promise<PipelineTrace | null> {
+    try {
+      const [row] = await this.db
+        .select()
+        .from(pipelineTraces)
+        .where(eq(pipelineTraces.messageId, messageId))
+        .limit(1);
+
+      return row ? this.toTrace(row) : null;
+    } catch (error) {
+      throw new DatabaseError('find pipeline trace by message', error as Error);
+    }
+  }
+
+  /**
+   * All traces of a conversation, oldest turn first
+   */
+  async findByConversationId(conversationId: string): Promise<PipelineTrace[]> {
+    try {
+      const rows = await this.db
+        .select()
+        .from(pipelineTraces)
+        .where(eq(pipelineTraces.conversationId, conversationId))
+        .orderBy(asc(pipelineTraces.createdAt), asc(sql`rowid`)); // Same-second turns
+
+      return rows.map((row) => this.toTrace(row));
+    } catch (error) {
+      throw new DatabaseError('find pipeline traces by conversation', error as Error);
+    }
+  }
+
+  async deleteByMessageId(messageId: string): Promise<void> {
+    try {
+      await this.db.delete(pipelineTraces).where(eq(pipelineTraces.messageId, messageId));
+    } catch (error) {
+      throw new DatabaseError('delete pipeline trace', error as Error);
+    }
+  }
+
+  private toTrace(row: PipelineTraceRow): PipelineTrace {
+    return {
+      ...row,
+      mode: row.mode as ConversationMode,
+      classification: row.classification as UnifiedClassificationResult | null,
+      decision: row.decision as ArbiterDecision | null,
+      extractions: (row.extractions as TraceExtraction[] | null) ?? [],
+      steering: (row.steering as TraceSteering[] | null) ?? [],
+      retrieval: (row.retrieval as RetrievedFact[] | null) ?? [],
+      performance: row.performance as TracePerformance | null,
+    };
+  }
+}
+
+export const pipelineTraceRepository = new PipelineTraceRepository();
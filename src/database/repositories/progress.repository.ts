@@ -177,6 +177,46 @@ export class ProgressRepository {
     }
   }
 
+  /**
+   * Remove a progress entry and take its value back off the goal, in one transaction
+   * A goal the entry completed becomes active again once it is short of its target
+   * @param id - Progress entry ID
+   * @param goalId - Goal the entry must belong to
+   * @returns The removed entry, or null if it was already gone
+   */
+  async revertEntry(id: string, goalId: string): Promise<ProgressEntry | null> {
+    try {
+      return this.db.transaction((tx) => {
+        const entry = tx
+          .select()
+          .from(progressEntries)
+          .where(and(eq(progressEntries.id, id), eq(progressEntries.goalId, goalId)))
+          .get();
+        if (!entry) return null;
+
+        tx.delete(progressEntries).where(eq(progressEntries.id, id)).run();
+
+        const goal = tx.select().from(goals).where(eq(goals.id, goalId)).get();
+        if (goal) {
+          const currentValue = (goal.currentValue || 0) - entry.value;
+          const reopened =
+            goal.status === 'completed' && !!goal.targetValue && currentValue < goal.targetValue;
+
+          tx.update(goals)
+            .set({ currentValue, ...(reopened ? { status: 'active', completedAt: null } : {}) })
+            .where(eq(goals.id, goalId))
+            .run();
+        }
+
+        logger.info({ entryId: id, goalId, value: entry.value }, 'Progress entry reverted');
+        return entry;
+      });
+    } catch (error) {
+      logger.error({ error, entryId: id, goalId }, 'Failed to revert progress entry');
+      throw new DatabaseError('revert progress entry', error as Error);
+    }
+  }
+
   // ============================================================
   // Milestone Methods
   // ============================================================
@@ -0,0 +1,103 @@
+// Search Repository - Full-text queries over the search_index FTS5 table
+import { sql, type SQL } from 'drizzle-orm';
+import { getDatabase } from '@/database/client.js';
+import { DatabaseError } from '@/types/index.js';
+
+export type SearchSource = 'message' | 'domain_data';
+
+export interface SearchFilters {
+  userId?: string;
+  domainId?: string; // Only domain data from this domain
+  source?: SearchSource;
+  excludeConversationId?: string;
+  excludeSourceIds?: string[];
+  since?: Date;
+  until?: Date;
+  matchAny?: boolean; // OR the terms instead of requiring all of them
+  limit?: number;
+}
+
+export interface SearchHit {
+  source: SearchSource;
+  sourceId: string; // Message ID or domain_data ID
+  userId: string;
+  conversationId: string;
+  domainId: string | null;
+  role: string | null; // Message role; null for domain data
+  content: string;
+  snippet: string; // Matching excerpt, terms wrapped in [ ]
+  createdAt: Date;
+}
+
+interface SearchRow {
+  source: SearchSource;
+  source_id: string;
+  user_id: string;
+  conversation_id: string;
+  domain_id: string | null;
+  role: string | null;
+  content: string;
+  snippet: string;
+  created_at: number;
+}
+
+export class SearchRepository {
+  private db = getDatabase();
+
+  /**
+   * Best matches first (bm25); terms are matched as whole words after stemming
+   */
+  async search(terms: string[], filters: SearchFilters = {}): Promise<SearchHit[]> {
+    if (terms.length === 0) return [];
+
+    try {
+      // Quoted terms can't be parsed as FTS5 operators
+      const match = terms
+        .map((term) => `"${term.replace(/"/g, '""')}"`)
+        .join(filters.matchAny ? ' OR ' : ' ');
+
+      const conditions: SQL[] = [sql`search_index MATCH ${match}`];
+      if (filters.userId) conditions.push(sql`user_id = ${filters.userId}`);
+      if (filters.domainId) conditions.push(sql`domain_id = ${filters.domainId}`);
+      if (filters.source) conditions.push(sql`source = ${filters.source}`);
+      if (filters.excludeConversationId) {
+        conditions.push(sql`conversation_id != ${filters.excludeConversationId}`);
+      }
+      if (filters.excludeSourceIds?.length) {
+        const ids = filters.excludeSourceIds.map((id) => sql`${id}`);
+        conditions.push(sql`source_id NOT IN (${sql.join(ids, sql`, `)})`);
+      }
+      if (filters.since) conditions.push(sql`created_at >= ${toSeconds(filters.since)}`);
+      if (filters.until) conditions.push(sql`created_at <= ${toSeconds(filters.until)}`);
+
+      const rows = this.db.all<SearchRow>(sql`
+        SELECT source, source_id, user_id, conversation_id, domain_id, role, content, created_at,
+          snippet(search_index, 0, '[', ']', '…', 16) AS snippet
+        FROM search_index
+        WHERE ${sql.join(conditions, sql` AND `)}
+        ORDER BY bm25(search_index)
+        LIMIT ${filters.limit ?? 20}
+      `);
+
+      return rows.map((row) => ({
+        source: row.source,
+        sourceId: row.source_id,
+        userId: row.user_id,
+        conversationId: row.conversation_id,
+        domainId: row.domain_id,
+        role: row.role,
+        content: row.content,
+        snippet: row.snippet,
+        createdAt: new Date(row.created_at * 1000),
+      }));
+    } catch (error) {
+      throw new DatabaseError('search', error as Error);
+    }
+  }
+}
+
+function toSeconds(date: Date): number {
+  return Math.floor(date.getTime() / 1000);
+}
+
+export const searchRepository = new SearchRepository();
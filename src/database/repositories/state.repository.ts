@@ -1,5 +1,5 @@
 // State Repository - Manage conversation state snapshots
-import { eq, desc } from 'drizzle-orm';
+import { eq, desc, sql } from 'drizzle-orm';
 import { getDatabase } from '@/database/client.js';
 import { conversationStates } from '@/database/schema.js';
 import {
@@ -46,7 +46,7 @@ export class StateRepository {
         .select()
         .from(conversationStates)
         .where(eq(conversationStates.conversationId, conversationId))
-        .orderBy(desc(conversationStates.createdAt))
+        .orderBy(desc(conversationStates.createdAt), desc(sql`rowid`)) // Same-second snapshots
         .limit(1);
 
       const row = result[0];
@@ -57,6 +57,7 @@ export class StateRepository {
         ...element,
         createdAt: new Date(element.createdAt),
         lastAccessedAt: new Date(element.lastAccessedAt),
+        mentions: element.mentions?.map((mention) => new Date(mention)),
       }));
 
       return {
@@ -74,13 +75,21 @@ export class StateRepository {
     }
   }
 
+  async deleteById(id: string): Promise<void> {
+    try {
+      await this.db.delete(conversationStates).where(eq(conversationStates.id, id));
+    } catch (error) {
+      throw new DatabaseError('delete state', error as Error);
+    }
+  }
+
   async getStateHistory(conversationId: string, limit: number = 10): Promise<ConversationState[]> {
     try {
       const results = await this.db
         .select()
         .from(conversationStates)
         .where(eq(conversationStates.conversationId, conversationId))
-        .orderBy(desc(conversationStates.createdAt))
+        .orderBy(desc(conversationStates.createdAt), desc(sql`rowid`))
         .limit(limit);
 
       return results.map((row) => {
@@ -89,6 +98,7 @@ export class StateRepository {
           ...element,
           createdAt: new Date(element.createdAt),
           lastAccessedAt: new Date(element.lastAccessedAt),
+          mentions: element.mentions?.map((mention) => new Date(mention)),
         }));
 
         return {
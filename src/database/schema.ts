@@ -4,7 +4,15 @@
 // MVP v3: Added domain_data table for domains framework
 // MVP v4: Added goals, progress_entries, and goal_milestones tables for Track Progress
 
-import { sqliteTable, text, integer, real, index } from 'drizzle-orm/sqlite-core';
+import {
+  sqliteTable,
+  text,
+  integer,
+  real,
+  blob,
+  index,
+  uniqueIndex,
+} from 'drizzle-orm/sqlite-core';
 import { sql } from 'drizzle-orm';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -214,6 +222,119 @@ export const agentStates = sqliteTable(
   })
 );
 
+// ============================================================================
+// LLM Cache Table - Content-addressed responses for repeatable JSON-mode calls
+// ============================================================================
+
+export const llmCache = sqliteTable(
+  'llm_cache',
+  {
+    key: text('key').primaryKey(), // sha256 of model + messages + temperature + response format
+    model: text('model').notNull(),
+    response: text('response').notNull(),
+    hitCount: integer('hit_count').notNull().default(0),
+    createdAt: integer('created_at', { mode: 'timestamp' })
+      .notNull()
+      .$defaultFn(() => new Date()),
+    lastHitAt: integer('last_hit_at', { mode: 'timestamp' }),
+    expiresAt: integer('expires_at', { mode: 'timestamp' }).notNull(),
+  },
+  (table) => ({
+    expiresIdx: index('idx_llm_cache_expires').on(table.expiresAt),
+  })
+);
+
+// Pipeline traces - What each turn's stages decided and how long they took, for `trace`
+export const pipelineTraces = sqliteTable(
+  'pipeline_traces',
+  {
+    id: text('id').primaryKey(),
+    messageId: text('message_id')
+      .notNull()
+      .references(() => messages.id, { onDelete: 'cascade' }), // The assistant reply
+    conversationId: text('conversation_id')
+      .notNull()
+      .references(() => conversations.id, { onDelete: 'cascade' }),
+    userId: text('user_id').notNull(),
+    traceId: text('trace_id').notNull(), // Same ID as exported OTLP traces
+    mode: text('mode').notNull(),
+    classification: text('classification', { mode: 'json' }), // UnifiedClassificationResult
+    decision: text('decision', { mode: 'json' }), // ArbiterDecision
+    extractions: text('extractions', { mode: 'json' }), // Per relevant domain
+    steering: text('steering', { mode: 'json' }), // Per domain that produced hints
+    retrieval: text('retrieval', { mode: 'json' }), // Past facts added to the handler prompt
+    performance: text('performance', { mode: 'json' }), // PerformanceReport without raw metrics
+    createdAt: integer('created_at', { mode: 'timestamp' })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (table) => ({
+    messageIdx: index('idx_pipeline_traces_message').on(table.messageId),
+    conversationIdx: index('idx_pipeline_traces_conversation').on(table.conversationId),
+  })
+);
+
+// User memories - Facts, preferences and concerns remembered across a user's conversations
+export const userMemories = sqliteTable(
+  'user_memories',
+  {
+    id: text('id').primaryKey(),
+    userId: text('user_id').notNull(),
+    key: text('key').notNull(), // Unique per user; repeats update the same memory
+    kind: text('kind').notNull(), // 'fact', 'preference', 'concern'
+    content: text('content').notNull(),
+    source: text('source').notNull(), // 'context' or a domain ID
+    conversationCount: integer('conversation_count').notNull().default(1),
+    firstConversationId: text('first_conversation_id').notNull(),
+    lastConversationId: text('last_conversation_id').notNull(),
+    createdAt: integer('created_at', { mode: 'timestamp' })
+      .notNull()
+      .$defaultFn(() => new Date()),
+    updatedAt: integer('updated_at', { mode: 'timestamp' })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (table) => ({
+    userKeyIdx: uniqueIndex('idx_user_memories_user_key').on(table.userId, table.key),
+  })
+);
+
+// Forgotten Memories - Memory keys a user asked to forget; promotion skips them from then on
+export const forgottenMemories = sqliteTable(
+  'forgotten_memories',
+  {
+    id: text('id').primaryKey(),
+    userId: text('user_id').notNull(),
+    key: text('key').notNull(),
+    forgottenAt: integer('forgotten_at', { mode: 'timestamp' })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (table) => ({
+    userKeyIdx: uniqueIndex('idx_forgotten_memories_user_key').on(table.userId, table.key),
+  })
+);
+
+// Embeddings - Local TF-IDF vectors of user messages and domain data for semantic retrieval
+// Filled lazily from search_index; deleting the source row deletes its embedding (triggers)
+export const embeddings = sqliteTable(
+  'embeddings',
+  {
+    sourceId: text('source_id').primaryKey(), // Message ID or domain_data ID
+    source: text('source').notNull(), // 'message' or 'domain_data'
+    userId: text('user_id').notNull(),
+    conversationId: text('conversation_id').notNull(),
+    domainId: text('domain_id'),
+    content: text('content').notNull(),
+    model: text('model').notNull(), // Embedding method; rows of another model are re-embedded
+    vector: blob('vector', { mode: 'buffer' }).notNull(), // Float32 term frequencies per bucket
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull(), // Of the source row
+  },
+  (table) => ({
+    userIdx: index('idx_embeddings_user').on(table.userId),
+  })
+);
+
 // Type exports for insert and select
 export type Conversation = typeof conversations.$inferSelect;
 export type NewConversation = typeof conversations.$inferInsert;
@@ -235,3 +356,11 @@ export type NewGoalMilestone = typeof goalMilestones.$inferInsert;
 // Agent States type exports
 export type AgentState = typeof agentStates.$inferSelect;
 export type NewAgentState = typeof agentStates.$inferInsert;
+
+// LLM Cache type exports
+export type LLMCacheEntry = typeof llmCache.$inferSelect;
+export type NewLLMCacheEntry = typeof llmCache.$inferInsert;
+export type PipelineTraceRow = typeof pipelineTraces.$inferSelect;
+export type NewPipelineTraceRow = typeof pipelineTraces.$inferInsert;
+export type UserMemoryRow = typeof userMemories.$inferSelect;
+export type EmbeddingRow = typeof embeddings.$inferSelect;
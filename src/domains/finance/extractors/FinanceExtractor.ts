@@ -64,6 +64,14 @@ export class FinanceExtractor extends BaseExtractor {
       }
       const { accounts, pendingAmount, pendingDescription } = pendingState as PendingAccountState;
 
+      // A short glimpse of the conversation is enough to disambiguate the answer
+      const recentMessages = this.fitRecentMessages(
+        'extractor.finance.selection',
+        [message],
+        context.recentMessages ?? [],
+        { maxTokens: 60, itemMaxTokens: 25 }
+      );
+
       // Use LLM to understand if this is an account selection
       const selectionPrompt = `The user was asked about ACCOUNT SELECTION with this prompt:
 "💰 **Account Selection Required**
@@ -76,12 +84,9 @@ Please respond with the number or account name."
 The user responded: "${message}"
 
 ${
-  context.recentMessages?.length > 0
+  recentMessages.length > 0
     ? `Recent conversation context:
-${context.recentMessages
-  .slice(-2)
-  .map((m) => `${m.role}: ${m.content.substring(0, 100)}`)
-  .join('\n')}`
+${recentMessages.map((m) => `${m.role}: ${m.content}`).join('\n')}`
     : ''
 }
 
@@ -112,6 +117,7 @@ Return JSON with:
             },
           ],
           {
+            stage: 'extractor',
             responseFormat: { type: 'json_object' },
             temperature: 0.2,
             maxTokens: 200,
@@ -6,7 +6,7 @@ import {
 } from '@/core/domains/registries/index.js';
 import { FinanceExtractor } from './extractors/FinanceExtractor.js';
 import { BudgetGuidanceStrategy, GoalPlanningStrategy } from './strategies/index.js';
-import { financeExtractionSchema } from './schemas/finance.schema.js';
+import { financeExtractionSchema, getFinanceMemories } from './schemas/finance.schema.js';
 import { logger } from '@/core/logger.js';
 
 /**
@@ -49,6 +49,7 @@ export function registerFinanceDomain(): void {
           table: 'finance_records',
           retention: '730d', // Keep financial data for 2 years
         },
+        memories: getFinanceMemories,
       },
     });
 
@@ -1,5 +1,6 @@
 // Finance Domain Schema - Defines the structure of finance-related data
 import { z } from 'zod';
+import type { MemoryCandidate } from '@/types/index.js';
 
 /**
  * Schema for finance-related data extraction
@@ -212,3 +213,40 @@ export function getFinancialHealthScore(data: FinanceData): 'healthy' | 'moderat
   if (avgScore >= 1.5) return 'moderate';
   return 'concerning';
 }
+
+/**
+ * Long-term memories from finance data: recurring worries, debts and risk tolerance
+ * Individual transactions and balances are left to the time series
+ */
+export function getFinanceMemories(data: FinanceData): MemoryCandidate[] {
+  const slug = (text: string) => text.toLowerCase().trim().replace(/\s+/g, '_');
+  const memories: MemoryCandidate[] = [];
+
+  for (const concern of data.concerns ?? []) {
+    if (!concern.topic) continue;
+    memories.push({
+      key: `finance_concern:${slug(concern.topic)}`,
+      kind: 'concern',
+      content: `Worried about ${concern.topic}`,
+    });
+  }
+
+  for (const debt of data.debt ?? []) {
+    if (!debt.type) continue;
+    memories.push({
+      key: `debt:${slug(debt.type)}`,
+      kind: 'fact',
+      content: `Has ${debt.type} debt`,
+    });
+  }
+
+  if (data.investments?.riskTolerance) {
+    memories.push({
+      key: 'risk_tolerance',
+      kind: 'preference',
+      content: `${data.investments.riskTolerance} investment risk tolerance`,
+    });
+  }
+
+  return memories;
+}
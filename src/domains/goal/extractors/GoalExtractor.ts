@@ -72,6 +72,14 @@ export class GoalExtractor extends BaseExtractor {
       }
       const { goals, pendingValue } = pendingState as PendingGoalState;
 
+      // A short glimpse of the conversation is enough to disambiguate the answer
+      const recentMessages = this.fitRecentMessages(
+        'extractor.goal.selection',
+        [message],
+        context.recentMessages ?? [],
+        { maxTokens: 60, itemMaxTokens: 25 }
+      );
+
       // Use LLM to understand if this is a selection and which goal was selected
       const selectionPrompt = `The user was asked about GOAL SELECTION with this prompt:
 "📊 **Goal Selection Required**
@@ -84,12 +92,9 @@ Please respond with the number or a keyword from the goal."
 The user responded: "${message}"
 
 ${
-  context.recentMessages?.length > 0
+  recentMessages.length > 0
     ? `Recent conversation context:
-${context.recentMessages
-  .slice(-2)
-  .map((m) => `${m.role}: ${m.content.substring(0, 100)}`)
-  .join('\n')}`
+${recentMessages.map((m) => `${m.role}: ${m.content}`).join('\n')}`
     : ''
 }
 
@@ -128,6 +133,7 @@ If unsure or the message seems unrelated to goal selection, return JSON: {"isSel
             },
           ],
           {
+            stage: 'extractor',
             responseFormat: { type: 'json_object' },
             temperature: 0.2,
             maxTokens: 200,
@@ -190,10 +196,7 @@ If unsure or the message seems unrelated to goal selection, return JSON: {"isSel
 User message: "${message}"
 
 Recent conversation:
-${context.recentMessages
-  .slice(-3)
-  .map((m) => `${m.role}: ${m.content}`)
-  .join('\n')}
+${context.recentMessages.map((m) => `${m.role}: ${m.content}`).join('\n')}
 
 ${
   goalContext?.activeGoals
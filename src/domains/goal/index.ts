@@ -9,11 +9,13 @@
 import { GoalDataSchema } from './schemas/goal.schema.js';
 import { GoalExtractor } from './extractors/GoalExtractor.js';
 import { GoalSelectionStrategy } from './strategies/GoalSelectionStrategy.js';
+import { createGoalTool, logGoalProgressTool, listGoalsTool } from './tools/index.js';
 import {
   domainRegistry,
   extractorRegistry,
   steeringRegistry,
 } from '@/core/domains/registries/index.js';
+import { toolRegistry } from '@/core/tools/index.js';
 import { logger } from '@/core/logger.js';
 
 // Register the domain and its components
@@ -47,6 +49,11 @@ export function registerGoalDomain(): void {
     // Register steering strategy
     steeringRegistry.register(new GoalSelectionStrategy());
 
+    // Register tools handlers can offer to the model
+    toolRegistry.register(createGoalTool);
+    toolRegistry.register(logGoalProgressTool);
+    toolRegistry.register(listGoalsTool);
+
     logger.info('Goal domain registered successfully');
   } catch (error) {
     logger.error({ error }, 'Failed to register goal domain');
@@ -57,4 +64,5 @@ export function registerGoalDomain(): void {
 // Export components for direct use
 export { GoalExtractor } from './extractors/index.js';
 export { GoalSelectionStrategy } from './strategies/index.js';
+export { createGoalTool, logGoalProgressTool, listGoalsTool } from './tools/index.js';
 export * from './schemas/index.js';
@@ -12,6 +12,7 @@ import { agentStateService } from '@/services/agent-state.service.js';
 import type { Goal, ProgressEntry, NewGoal } from '@/database/schema.js';
 import type { GoalData } from '../schemas/goal.schema.js';
 import { logger } from '@/core/logger.js';
+import type { GoalChange } from '@/types/index.js';
 
 export interface GoalOperationResult {
   success: boolean;
@@ -381,6 +382,93 @@ export class GoalService {
     }
   }
 
+  /**
+   * Delete a goal with its progress, e.g. when the turn that created it is undone
+   * Deleting a goal that is already gone succeeds, so undo can be retried
+   */
+  async deleteGoal(userId: string, goalId: string): Promise<GoalOperationResult> {
+    try {
+      const goal = await goalRepository.findById(goalId);
+      if (!goal) {
+        return { success: true, message: 'Goal was already deleted.' };
+      }
+      if (goal.userId !== userId) {
+        return {
+          success: false,
+          message: 'Goal not found or access denied.',
+        };
+      }
+
+      await goalRepository.delete(goalId);
+
+      return {
+        success: true,
+        message: `Goal "${goal.title}" has been deleted.`,
+        data: { goal },
+      };
+    } catch (error) {
+      logger.error({ error, userId, goalId }, 'Failed to delete goal');
+      return {
+        success: false,
+        message: 'Failed to delete goal. Please try again.',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Take back a progress entry: delete it and subtract its value
+   * A goal it completed becomes active again if it is now short of its target;
+   * an entry that is already gone changes nothing, so undo can be retried
+   */
+  async revertProgress(
+    userId: string,
+    goalId: string,
+    progressEntryId: string
+  ): Promise<GoalOperationResult> {
+    try {
+      const goal = await goalRepository.findById(goalId);
+      if (goal && goal.userId !== userId) {
+        return {
+          success: false,
+          message: 'Goal not found or access denied.',
+        };
+      }
+
+      // Deleted together with its goal, or by an earlier attempt
+      const entry = goal && (await progressRepository.revertEntry(progressEntryId, goalId));
+      if (!goal || !entry) {
+        return { success: true, message: 'Progress was already removed.' };
+      }
+
+      return {
+        success: true,
+        message: `Progress of ${entry.value} removed from "${goal.title}".`,
+        data: { entry },
+      };
+    } catch (error) {
+      logger.error({ error, userId, goalId, progressEntryId }, 'Failed to revert progress');
+      return {
+        success: false,
+        message: 'Failed to revert progress. Please try again.',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Revert a goal change recorded with a turn (by a tool call or a goal extraction)
+   */
+  async revertChange(userId: string, change: GoalChange): Promise<GoalOperationResult> {
+    if (change.type === 'created') {
+      return this.deleteGoal(userId, change.goalId);
+    }
+    if (!change.progressEntryId) {
+      return { success: false, message: 'Progress change without an entry ID.' };
+    }
+    return this.revertProgress(userId, change.goalId, change.progressEntryId);
+  }
+
   // ============================================================================
   // Private Helper Methods
   // ============================================================================
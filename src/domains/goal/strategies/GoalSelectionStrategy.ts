@@ -136,6 +136,7 @@ If no goals are listed, return {"goals": []}.`;
           },
         ],
         {
+          stage: 'steering',
           responseFormat: { type: 'json_object' },
           temperature: 0.2,
           maxTokens: 400,
@@ -204,6 +205,7 @@ Examples:
           },
         ],
         {
+          stage: 'steering',
           responseFormat: { type: 'json_object' },
           temperature: 0.2,
           maxTokens: 100,
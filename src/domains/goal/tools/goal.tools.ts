@@ -0,0 +1,134 @@
+/**
+ * Goal Tools
+ *
+ * Goal operations exposed to the model as callable tools. Each tool is a
+ * thin wrapper over GoalService, so the same duplicate checks, completion
+ * handling and messages apply as for extractor-driven actions.
+ */
+
+import { z } from 'zod';
+import type { Tool } from '@/core/tools/index.js';
+import type { Goal } from '@/database/schema.js';
+import type { ToolInvocation } from '@/types/index.js';
+import { goalService, type GoalOperationResult } from '../services/index.js';
+
+/** Undo is best-effort per call, but a failure must not pass silently */
+function assertUndone(result: GoalOperationResult, invocation: ToolInvocation): void {
+  if (!result.success) {
+    throw new Error(`Could not undo ${invocation.name}: ${result.error || result.message}`);
+  }
+}
+
+/** Compact goal shape for the model - no internal columns */
+function summarizeGoal(goal: Goal) {
+  return {
+    id: goal.id,
+    title: goal.title,
+    currentValue: goal.currentValue,
+    targetValue: goal.targetValue,
+    unit: goal.unit,
+    status: goal.status,
+  };
+}
+
+const createGoalParameters = z.object({
+  title: z.string().describe('Short, specific goal title, e.g. "Read 20 books"'),
+  targetValue: z.number().optional().describe('Numeric target, e.g. 20'),
+  unit: z.string().optional().describe('Unit of the target, e.g. "books"'),
+  category: z.string().optional().describe('Category, e.g. "health", "learning"'),
+  targetDate: z.string().optional().describe('Deadline as an ISO date (YYYY-MM-DD)'),
+  baselineValue: z.number().optional().describe('Progress already made before tracking'),
+});
+
+export const createGoalTool: Tool<z.infer<typeof createGoalParameters>> = {
+  name: 'create_goal',
+  description:
+    'Create a new goal for the user. Only call this when the user clearly wants to start tracking a goal.',
+  parameters: createGoalParameters,
+
+  async execute(args, context) {
+    const result = await goalService.createGoal(context.userId, {
+      goalTitle: args.title,
+      targetValue: args.targetValue,
+      progressUnit: args.unit,
+      goalCategory: args.category,
+      targetDate: args.targetDate,
+      baselineValue: args.baselineValue,
+    });
+
+    return {
+      success: result.success,
+      message: result.message,
+      goal: result.data?.goal ? summarizeGoal(result.data.goal) : undefined,
+    };
+  },
+
+  async undo(invocation, context) {
+    const { goal } = (invocation.result ?? {}) as { goal?: { id?: string } };
+    if (!goal?.id) return; // Nothing was created, e.g. a similar goal already existed
+
+    assertUndone(
+      await goalService.revertChange(context.userId, { type: 'created', goalId: goal.id }),
+      invocation
+    );
+  },
+};
+
+const logGoalProgressParameters = z.object({
+  goalId: z.string().describe('ID of the goal, from list_goals'),
+  value: z.number().describe('Amount of progress to add, e.g. 2 for "read 2 more books"'),
+  notes: z.string().optional().describe('Optional note about this progress'),
+});
+
+export const logGoalProgressTool: Tool<z.infer<typeof logGoalProgressParameters>> = {
+  name: 'log_goal_progress',
+  description:
+    "Add progress to one of the user's goals. Call list_goals first if you don't know the goal ID.",
+  parameters: logGoalProgressParameters,
+
+  async execute(args, context) {
+    const result = await goalService.logProgress(
+      context.userId,
+      args.goalId,
+      args.value,
+      args.notes
+    );
+
+    return {
+      success: result.success,
+      message: result.message,
+      achieved: result.data?.achieved ?? false,
+      progressEntryId: result.data?.progressEntry?.id,
+    };
+  },
+
+  async undo(invocation, context) {
+    const { progressEntryId } = (invocation.result ?? {}) as { progressEntryId?: string };
+    if (!progressEntryId) return; // Nothing was logged
+
+    const { goalId } = invocation.arguments as z.infer<typeof logGoalProgressParameters>;
+    assertUndone(
+      await goalService.revertChange(context.userId, { type: 'progress', goalId, progressEntryId }),
+      invocation
+    );
+  },
+};
+
+const listGoalsParameters = z.object({
+  status: z.enum(['active', 'completed', 'all']).describe('Which goals to list'),
+});
+
+export const listGoalsTool: Tool<z.infer<typeof listGoalsParameters>> = {
+  name: 'list_goals',
+  description: "List the user's goals with their IDs and current progress.",
+  parameters: listGoalsParameters,
+
+  async execute(args, context) {
+    const result = await goalService.getGoals(context.userId, args.status);
+    if (!result.success) {
+      throw new Error(result.error || result.message);
+    }
+
+    return { goals: ((result.data?.goals ?? []) as Goal[]).map(summarizeGoal) };
+  },
+};
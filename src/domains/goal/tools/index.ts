@@ -0,0 +1,2 @@
+// Goal domain tools
+export { createGoalTool, logGoalProgressTool, listGoalsTool } from './goal.tools.js';
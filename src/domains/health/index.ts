@@ -6,7 +6,11 @@ import {
 } from '@/core/domains/registries/index.js';
 import { HealthExtractor } from './extractors/HealthExtractor.js';
 import { WellnessCheckStrategy, SymptomExplorationStrategy } from './strategies/index.js';
-import { healthExtractionSchema } from './schemas/health.schema.js';
+import {
+  healthExtractionSchema,
+  getHealthContextElements,
+  getHealthMemories,
+} from './schemas/health.schema.js';
 import { logger } from '@/core/logger.js';
 
 /**
@@ -49,6 +53,12 @@ export function registerHealthDomain(): void {
           table: 'health_records',
           retention: '365d', // Keep health data for 1 year
         },
+        memories: getHealthMemories,
+        // Symptoms outlast a conversation's topics and never quite drop out while it is open
+        contextTypes: {
+          symptom: { halfLifeHours: 72, floorWeight: 0.2, reinforcement: 1.3 },
+        },
+        contextElements: getHealthContextElements,
       },
     });
 
@@ -1,5 +1,7 @@
 // Health Domain Schema - Defines the structure of health-related data
 import { z } from 'zod';
+import type { DomainContextElement } from '@/core/domains/types.js';
+import type { MemoryCandidate } from '@/types/index.js';
 
 /**
  * Schema for health-related data extraction
@@ -157,3 +159,54 @@ export function getHealthSeverity(data: HealthData): 'normal' | 'moderate' | 'se
 
   return 'normal';
 }
+
+/**
+ * Long-term memories from health data: ongoing symptoms and sleep issues, medications
+ * One-off readings (mood, vitals, a night's sleep) are left to the time series
+ */
+export function getHealthMemories(data: HealthData): MemoryCandidate[] {
+  const slug = (text: string) => text.toLowerCase().trim().replace(/\s+/g, '_');
+  const memories: MemoryCandidate[] = [];
+
+  for (const symptom of data.symptoms ?? []) {
+    const where = symptom.bodyPart ? ` (${symptom.bodyPart})` : '';
+    memories.push({
+      key: `symptom:${slug(symptom.name)}`,
+      kind: 'concern',
+      content: `${symptom.name}${where}`,
+    });
+  }
+
+  for (const issue of data.sleep?.issues ?? []) {
+    memories.push({
+      key: `sleep_issue:${slug(issue)}`,
+      kind: 'concern',
+      content: `Sleep: ${issue}`,
+    });
+  }
+
+  for (const medication of data.medications ?? []) {
+    const details = [medication.dosage, medication.frequency].filter(Boolean).join(', ');
+    const reason = medication.reason ? ` for ${medication.reason}` : '';
+    memories.push({
+      key: `medication:${slug(medication.name)}`,
+      kind: 'fact',
+      content: `Takes ${medication.name}${details ? ` (${details})` : ''}${reason}`,
+    });
+  }
+
+  return memories;
+}
+
+/**
+ * Symptoms as `symptom` context elements, weighted by severity (1 → 0.55, 10 → 1.0)
+ * They fade on the symptom policy, slower than the topic the classifier may also have noted
+ */
+export function getHealthContextElements(data: HealthData): DomainContextElement[] {
+  return (data.symptoms ?? []).map((symptom) => ({
+    key: `symptom:${symptom.name.toLowerCase().trim().replace(/\s+/g, '_')}`,
+    value: symptom.bodyPart ? `${symptom.name} (${symptom.bodyPart})` : symptom.name,
+    contextType: 'symptom',
+    weight: symptom.severity ? 0.5 + symptom.severity / 20 : 0.8,
+  }));
+}
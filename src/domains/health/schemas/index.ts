@@ -1,3 +1,8 @@
 // Health domain schemas
-export { healthExtractionSchema, hasHealthContent, getHealthSeverity } from './health.schema.js';
+export {
+  healthExtractionSchema,
+  hasHealthContent,
+  getHealthSeverity,
+  getHealthMemories,
+} from './health.schema.js';
 export type { HealthData } from './health.schema.js';
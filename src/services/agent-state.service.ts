@@ -238,6 +238,9 @@ export class AgentStateService {
       },
       5 * 60 * 1000 // 5 minutes
     );
+
+    // Background housekeeping only - don't keep one-shot CLI commands alive
+    this.cleanupInterval.unref();
   }
 
   /**
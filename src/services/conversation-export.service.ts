@@ -0,0 +1,402 @@
+/**
+ * Conversation Export Service
+ *
+ * Moves conversations between databases. An export bundle holds the conversation
+ * row and everything stored for it: messages, state snapshots, domain data and
+ * the goals, milestones and progress entries logged in it. Bundles can also be
+ * rendered as a Markdown transcript or an OpenAI fine-tuning JSONL line.
+ */
+
+import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '@/core/logger.js';
+import { conversationRepository, type ConversationRows } from '@/database/repositories/index.js';
+import {
+  MessageRole,
+  type DomainRecordRef,
+  type GoalChange,
+  type ToolInvocation,
+} from '@/types/index.js';
+
+export type ExportFormat = 'md' | 'json' | 'jsonl';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['md', 'json', 'jsonl'];
+
+const BUNDLE_FORMAT = 'ai-assistant.conversation';
+const BUNDLE_VERSION = 1;
+
+export interface ConversationBundle extends ConversationRows {
+  format: typeof BUNDLE_FORMAT;
+  version: typeof BUNDLE_VERSION;
+  exportedAt: string;
+}
+
+export interface ImportOptions {
+  userId?: string; // Import under another user; defaults to the exported owner
+}
+
+export interface ImportResult {
+  conversationId: string;
+  userId: string;
+  counts: Record<Exclude<keyof ConversationRows, 'conversation'>, number>;
+}
+
+// Dates are ISO strings in JSON; JSON columns pass through untouched
+const date = z.coerce.date();
+const optionalDate = z.coerce.date().nullable();
+const json = z.unknown();
+
+const bundleSchema = z.object({
+  format: z.literal(BUNDLE_FORMAT),
+  version: z.literal(BUNDLE_VERSION),
+  exportedAt: z.string(),
+  conversation: z.object({
+    id: z.string(),
+    userId: z.string(),
+    startedAt: date,
+    lastActivityAt: date,
+    status: z.string(),
+    metadata: json,
+    createdAt: date,
+    updatedAt: date,
+  }),
+  messages: z.array(
+    z.object({
+      id: z.string(),
+      conversationId: z.string(),
+      role: z.string(),
+      content: z.string(),
+      timestamp: date,
+      metadata: json,
+      createdAt: date,
+    })
+  ),
+  states: z.array(
+    z.object({
+      id: z.string(),
+      conversationId: z.string(),
+      mode: z.string(),
+      contextElements: json,
+      goals: json,
+      lastActivityAt: date,
+      metadata: json,
+      createdAt: date,
+    })
+  ),
+  domainData: z.array(
+    z.object({
+      id: z.string(),
+      domainId: z.string(),
+      userId: z.string(),
+      conversationId: z.string(),
+      data: json,
+      confidence: z.number().nullable(),
+      extractedAt: date,
+      createdAt: date,
+    })
+  ),
+  goals: z.array(
+    z.object({
+      id: z.string(),
+      userId: z.string(),
+      conversationId: z.string().nullable(),
+      title: z.string(),
+      description: z.string().nullable(),
+      category: z.string().nullable(),
+      targetValue: z.number().nullable(),
+      currentValue: z.number().nullable(),
+      baselineValue: z.number().nullable(),
+      unit: z.string().nullable(),
+      status: z.string().nullable(),
+      createdAt: date,
+      targetDate: optionalDate,
+      completedAt: optionalDate,
+      lastProgressAt: optionalDate,
+      metadata: json,
+    })
+  ),
+  milestones: z.array(
+    z.object({
+      id: z.string(),
+      goalId: z.string(),
+      title: z.string(),
+      targetValue: z.number(),
+      sequence: z.number().int(),
+      achieved: z.number().nullable(),
+      achievedAt: optionalDate,
+      metadata: json,
+    })
+  ),
+  progressEntries: z.array(
+    z.object({
+      id: z.string(),
+      goalId: z.string(),
+      value: z.number(),
+      notes: z.string().nullable(),
+      loggedAt: date,
+      source: z.string().nullable(),
+      conversationId: z.string().nullable(),
+      metadata: json,
+    })
+  ),
+});
+
+export class ConversationExportService {
+  /**
+   * Collect a conversation and its rows into a bundle
+   * @throws Error if the conversation doesn't exist
+   */
+  async export(conversationId: string): Promise<ConversationBundle> {
+    const rows = await conversationRepository.findRows(conversationId);
+    if (!rows) {
+      throw new Error(`Conversation ${conversationId} not found`);
+    }
+
+    return {
+      format: BUNDLE_FORMAT,
+      version: BUNDLE_VERSION,
+      exportedAt: new Date().toISOString(),
+      ...rows,
+    };
+  }
+
+  /**
+   * Render a bundle in one of the export formats
+   */
+  format(bundle: ConversationBundle, format: ExportFormat): string {
+    switch (format) {
+      case 'json':
+        return JSON.stringify(bundle, null, 2) + '\n';
+      case 'jsonl':
+        return this.toFineTuningJsonl(bundle);
+      case 'md':
+        return this.toMarkdown(bundle);
+    }
+  }
+
+  /**
+   * Insert a bundle (parsed JSON) as a new conversation
+   * Every row gets a new ID and references are remapped, so a bundle can be imported
+   * into the database it came from, or several times, without collisions.
+   * @throws Error if the bundle is malformed
+   */
+  async import(input: unknown, options: ImportOptions = {}): Promise<ImportResult> {
+    const parsed = bundleSchema.safeParse(input);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      throw new Error(
+        `Invalid conversation export at ${issue.path.join('.') || '(root)'}: ${issue.message}`
+      );
+    }
+    const bundle = parsed.data;
+
+    const conversationId = uuidv4();
+    const userId = options.userId ?? bundle.conversation.userId;
+    const goalIds = new Map(bundle.goals.map((goal) => [goal.id, uuidv4()]));
+    const domainDataIds = new Map(bundle.domainData.map((entry) => [entry.id, uuidv4()]));
+    const progressIds = new Map(
+      bundle.progressEntries
+        .filter((entry) => goalIds.has(entry.goalId))
+        .map((entry) => [entry.id, uuidv4()])
+    );
+    // Replies record the rows their turn created, which /undo reverts
+    const rowIds = new Map([...goalIds, ...domainDataIds, ...progressIds]);
+
+    // Progress is always linked to this conversation; goals only if created in it
+    const relink = (id: string | null) => (id === bundle.conversation.id ? conversationId : null);
+
+    const rows: ConversationRows = {
+      conversation: { ...bundle.conversation, id: conversationId, userId },
+      messages: bundle.messages.map((message) => ({
+        ...message,
+        id: uuidv4(),
+        conversationId,
+        metadata: relinkMetadata(message.metadata, rowIds),
+      })),
+      states: bundle.states.map((state) => ({ ...state, id: uuidv4(), conversationId })),
+      domainData: bundle.domainData.map((entry) => ({
+        ...entry,
+        id: domainDataIds.get(entry.id)!,
+        userId,
+        conversationId,
+        data: relinkData(entry.data, userId, conversationId),
+      })),
+      goals: bundle.goals.map((goal) => ({
+        ...goal,
+        id: goalIds.get(goal.id)!,
+        userId,
+        conversationId: relink(goal.conversationId),
+      })),
+      milestones: bundle.milestones
+        .filter((milestone) => goalIds.has(milestone.goalId))
+        .map((milestone) => ({
+          ...milestone,
+          id: uuidv4(),
+          goalId: goalIds.get(milestone.goalId)!,
+        })),
+      progressEntries: bundle.progressEntries
+        .filter((entry) => goalIds.has(entry.goalId))
+        .map((entry) => ({
+          ...entry,
+          id: progressIds.get(entry.id)!,
+          goalId: goalIds.get(entry.goalId)!,
+          conversationId: relink(entry.conversationId),
+        })),
+    };
+
+    await conversationRepository.insertRows(rows);
+
+    const result: ImportResult = {
+      conversationId,
+      userId,
+      counts: {
+        messages: rows.messages.length,
+        states: rows.states.length,
+        domainData: rows.domainData.length,
+        goals: rows.goals.length,
+        milestones: rows.milestones.length,
+        progressEntries: rows.progressEntries.length,
+      },
+    };
+    logger.info(
+      { sourceConversationId: bundle.conversation.id, ...result },
+      'Conversation export: Imported'
+    );
+
+    return result;
+  }
+
+  /**
+   * Human-readable transcript followed by what was extracted and the latest state
+   */
+  toMarkdown(bundle: ConversationRows): string {
+    const { conversation } = bundle;
+    const lines = [
+      `# Conversation ${conversation.id}`,
+      '',
+      `- User: ${conversation.userId}`,
+      `- Started: ${conversation.startedAt.toISOString()}`,
+      `- Status: ${conversation.status}`,
+      `- Messages: ${bundle.messages.length}`,
+      `- State snapshots: ${bundle.states.length}`,
+      '',
+      '## Transcript',
+      '',
+    ];
+
+    for (const message of bundle.messages) {
+      const speaker = message.role === MessageRole.USER ? 'User' : 'Assistant';
+      lines.push(`### ${speaker} · ${message.timestamp.toISOString()}`, '', message.content, '');
+    }
+
+    if (bundle.domainData.length > 0) {
+      lines.push('## Extracted data', '');
+      for (const entry of bundle.domainData) {
+        lines.push(
+          `- ${entry.extractedAt.toISOString()} · ${entry.domainId}: \`${JSON.stringify(entry.data)}\``
+        );
+      }
+      lines.push('');
+    }
+
+    if (bundle.progressEntries.length > 0) {
+      const goalsById = new Map(bundle.goals.map((goal) => [goal.id, goal]));
+      lines.push('## Goal progress', '');
+      for (const entry of bundle.progressEntries) {
+        const goal = goalsById.get(entry.goalId);
+        const unit = goal?.unit ? ` ${goal.unit}` : '';
+        const notes = entry.notes ? ` - ${entry.notes}` : '';
+        lines.push(
+          `- ${entry.loggedAt.toISOString()} · ${goal?.title ?? entry.goalId}: ` +
+            `${entry.value}${unit}${notes}`
+        );
+      }
+      lines.push('');
+    }
+
+    const latest = bundle.states[bundle.states.length - 1];
+    if (latest) {
+      const elements = (latest.contextElements ?? []) as Array<{ key: string; value: string }>;
+      lines.push('## Latest state', '', `- Mode: ${latest.mode}`);
+      for (const element of elements) {
+        lines.push(`- ${element.key}: ${element.value}`);
+      }
+      lines.push('');
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * One training example per conversation in the OpenAI chat fine-tuning format
+   */
+  toFineTuningJsonl(bundle: ConversationRows): string {
+    const messages = bundle.messages
+      .filter((message) => message.content.trim())
+      .map((message) => ({ role: message.role, content: message.content }));
+
+    return JSON.stringify({ messages }) + '\n';
+  }
+}
+
+/**
+ * Extractors copy the owner into the stored data object; keep it in step with the row
+ */
+function relinkData(data: unknown, userId: string, conversationId: string): unknown {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return data;
+
+  const relinked = { ...(data as Record<string, unknown>) };
+  if ('userId' in relinked) relinked.userId = userId;
+  if ('conversationId' in relinked) relinked.conversationId = conversationId;
+  return relinked;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Point the row IDs a reply recorded (domain records, goal changes, tool call
+ * arguments and results) at the imported rows. IDs of rows the bundle doesn't
+ * hold are dropped, so undoing an imported turn never touches the source data.
+ */
+function relinkMetadata(metadata: unknown, rowIds: Map<string, string>): unknown {
+  if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) return metadata;
+
+  const relinked = { ...(metadata as Record<string, unknown>) };
+  if (Array.isArray(relinked.domainRecords)) {
+    relinked.domainRecords = (
+      relinkIds(relinked.domainRecords, rowIds) as DomainRecordRef[]
+    ).filter((record) => record.recordId);
+  }
+  if (Array.isArray(relinked.goalChanges)) {
+    relinked.goalChanges = (relinkIds(relinked.goalChanges, rowIds) as GoalChange[]).filter(
+      (change) => change.goalId && (change.type !== 'progress' || change.progressEntryId)
+    );
+  }
+  if (Array.isArray(relinked.toolInvocations)) {
+    relinked.toolInvocations = (relinked.toolInvocations as ToolInvocation[]).map((invocation) => ({
+      ...invocation,
+      arguments: relinkIds(invocation.arguments, rowIds),
+      result: relinkIds(invocation.result, rowIds),
+    }));
+  }
+  return relinked;
+}
+
+function relinkIds(value: unknown, rowIds: Map<string, string>): unknown {
+  if (typeof value === 'string') {
+    return UUID_PATTERN.test(value) ? rowIds.get(value) : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => relinkIds(item, rowIds)).filter((item) => item !== undefined);
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value)
+        .map(([key, item]) => [key, relinkIds(item, rowIds)])
+        .filter(([, item]) => item !== undefined)
+    );
+  }
+  return value;
+}
+
+export const conversationExportService = new ConversationExportService();
@@ -0,0 +1,185 @@
+/**
+ * Conversation Service
+ *
+ * Conversation-level operations outside the pipeline: browsing and resolving
+ * conversations and undoing the last turn.
+ */
+
+import { domainRegistry } from '@/core/domains/registries/index.js';
+import { StorageFactory } from '@/core/domains/storage/index.js';
+import { logger } from '@/core/logger.js';
+import { toolRegistry } from '@/core/tools/index.js';
+import { goalService } from '@/domains/goal/services/index.js';
+import {
+  conversationRepository,
+  messageRepository,
+  pipelineTraceRepository,
+  stateRepository,
+  type ConversationFilters,
+} from '@/database/repositories/index.js';
+import {
+  ConversationStatus,
+  MessageRole,
+  type Conversation,
+  type ConversationMode,
+  type Message,
+} from '@/types/index.js';
+
+export interface ConversationSummary {
+  conversation: Conversation;
+  messageCount: number;
+  lastMode: ConversationMode | null; // From the latest state snapshot
+  domains: string[]; // Domains with data extracted in this conversation
+}
+
+export interface UndoResult {
+  userMessage: Message | null;
+  assistantMessage: Message;
+}
+
+export class ConversationService {
+  /**
+   * Find a conversation by full ID or unique ID prefix (as shown by `conversations list`)
+   * @throws Error if nothing matches or the prefix is ambiguous
+   */
+  async resolve(idOrPrefix: string): Promise<Conversation> {
+    const exact = await conversationRepository.findById(idOrPrefix);
+    if (exact) return exact;
+
+    const matches = await conversationRepository.findByIdPrefix(idOrPrefix);
+    if (matches.length === 0) {
+      throw new Error(`No conversation matches "${idOrPrefix}"`);
+    }
+    if (matches.length > 1) {
+      throw new Error(`"${idOrPrefix}" matches several conversations; use more characters`);
+    }
+    return matches[0];
+  }
+
+  async list(filters: ConversationFilters = {}): Promise<ConversationSummary[]> {
+    const conversations = await conversationRepository.findMany(filters);
+    const counts = await messageRepository.countByConversationIds(conversations.map((c) => c.id));
+
+    return Promise.all(
+      conversations.map((conversation) =>
+        this.summarize(conversation, counts.get(conversation.id) ?? 0)
+      )
+    );
+  }
+
+  async getSummary(conversation: Conversation): Promise<ConversationSummary> {
+    const counts = await messageRepository.countByConversationIds([conversation.id]);
+    return this.summarize(conversation, counts.get(conversation.id) ?? 0);
+  }
+
+  /**
+   * Mark a conversation completed so the pipeline stops picking it as the active one
+   */
+  async close(conversationId: string): Promise<void> {
+    await conversationRepository.updateStatus(conversationId, ConversationStatus.COMPLETED);
+  }
+
+  /**
+   * Make a conversation active again, e.g. before resuming it
+   */
+  async reopen(conversationId: string): Promise<void> {
+    await conversationRepository.updateStatus(conversationId, ConversationStatus.ACTIVE);
+  }
+
+  async delete(conversationId: string): Promise<void> {
+    await conversationRepository.delete(conversationId);
+    logger.info({ conversationId }, 'Conversation: Deleted');
+  }
+
+  /**
+   * Remove the most recent turn: both messages, its state snapshot, its pipeline
+   * trace and the domain data extracted from it, and revert the goals it created or
+   * progressed, by tool call or from extracted goal data. The previous snapshot becomes
+   * the conversation's state again. Extractions, tool calls and goal changes are found
+   * through the reply's metadata; replies saved before it recorded them leave those in place.
+   * Every revert is attempted and each is safe to repeat, so a failed undo can be retried.
+   * @throws Error listing the reverts that failed; the turn's messages are then kept
+   * @returns The removed messages, or null if there is no assistant reply to undo
+   */
+  async undoLastTurn(conversationId: string): Promise<UndoResult | null> {
+    const recent = await messageRepository.findByConversationId(conversationId, 10);
+    const assistantMessage = recent.find((m) => m.role === MessageRole.ASSISTANT);
+    if (!assistantMessage) return null;
+
+    // Newest first, so the first user message after the reply is the one it answered
+    const userMessage =
+      recent.slice(recent.indexOf(assistantMessage) + 1).find((m) => m.role === MessageRole.USER) ??
+      null;
+
+    const conversation = await conversationRepository.findById(conversationId);
+    const toolContext = { userId: conversation?.userId ?? 'unknown', conversationId };
+    const failures: string[] = [];
+
+    // Newest first, so e.g. progress on a goal is reverted before the goal is deleted
+    const invocations = [...(assistantMessage.metadata?.toolInvocations ?? [])].reverse();
+    for (const invocation of invocations.filter((i) => i.error === undefined)) {
+      try {
+        await toolRegistry.getTool(invocation.name)?.undo?.(invocation, toolContext);
+      } catch (error) {
+        failures.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    const goalChanges = [...(assistantMessage.metadata?.goalChanges ?? [])].reverse();
+    for (const change of goalChanges) {
+      const result = await goalService.revertChange(toolContext.userId, change);
+      if (!result.success) {
+        failures.push(`Could not undo goal ${change.type}: ${result.error || result.message}`);
+      }
+    }
+
+    if (failures.length > 0) {
+      logger.warn({ conversationId, failures }, 'Conversation: Undo incomplete');
+      throw new Error(failures.join('; '));
+    }
+
+    await messageRepository.deleteByIds(
+      [assistantMessage.id, userMessage?.id].filter((id): id is string => !!id)
+    );
+    await pipelineTraceRepository.deleteByMessageId(assistantMessage.id);
+
+    // Each turn saves exactly one snapshot
+    const latestState = await stateRepository.getLatestByConversationId(conversationId);
+    if (latestState) {
+      await stateRepository.deleteById(latestState.id);
+    }
+
+    for (const record of assistantMessage.metadata?.domainRecords ?? []) {
+      const storageConfig = domainRegistry.getDomain(record.domainId)?.config.storageConfig;
+      if (!storageConfig) continue;
+      await StorageFactory.create(record.domainId, storageConfig).delete(record.recordId);
+    }
+
+    logger.info(
+      { conversationId, assistantMessageId: assistantMessage.id, userMessageId: userMessage?.id },
+      'Conversation: Last turn undone'
+    );
+
+    return { userMessage, assistantMessage };
+  }
+
+  private async summarize(
+    conversation: Conversation,
+    messageCount: number
+  ): Promise<ConversationSummary> {
+    const state = await stateRepository.getLatestByConversationId(conversation.id);
+
+    const domains: string[] = [];
+    for (const domain of domainRegistry.getAllDomains()) {
+      if (!domain.config.storageConfig) continue;
+      const storage = StorageFactory.create(domain.id, domain.config.storageConfig);
+      if (((await storage.count?.({ conversationId: conversation.id })) ?? 0) > 0) {
+        domains.push(domain.id);
+      }
+    }
+
+    return { conversation, messageCount, lastMode: state?.mode ?? null, domains };
+  }
+}
+
+export const conversationService = new ConversationService();
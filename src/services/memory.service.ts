@@ -0,0 +1,184 @@
+/**
+ * Memory Service
+ *
+ * Long-term memory across a user's conversations. After each turn, strong
+ * topic/preference context elements the turn mentioned and durable facts from
+ * domain extractions (each domain's `memories` hook) are promoted into
+ * user_memories. New conversations start with them as context elements, so
+ * `--new` no longer starts from nothing. Forgotten keys are never promoted again.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+
+import { config } from '@/config/index.js';
+import { domainRegistry } from '@/core/domains/registries/index.js';
+import { logger } from '@/core/logger.js';
+import type { DomainExtractionResult } from '@/core/pipeline-domain.service.js';
+import {
+  conversationRepository,
+  memoryRepository,
+  stateRepository,
+} from '@/database/repositories/index.js';
+import type {
+  ContextElement,
+  ConversationState,
+  MemoryCandidate,
+  UserMemory,
+} from '@/types/index.js';
+
+// Recalled memories are prominent at first but below the promotion weight
+const RECALLED_WEIGHT = 0.6;
+
+// Context elements that describe the conversation rather than the user
+const NOT_REMEMBERED = ['conversation_domain'];
+
+export class MemoryService {
+  /**
+   * Remember what a turn established
+   * Context elements count only if the turn added or reinforced them (mentioned since `turnStartedAt`),
+   * so an element left over from earlier turns can't bring back a memory forgotten in between
+   * @returns Number of memories created or refreshed
+   */
+  async promote(
+    userId: string,
+    conversationId: string,
+    state: ConversationState,
+    extractions: DomainExtractionResult[],
+    turnStartedAt: Date
+  ): Promise<number> {
+    const candidates = new Map<string, { source: string; candidate: MemoryCandidate }>();
+
+    for (const result of extractions) {
+      if (!result.extracted || !result.data) continue;
+
+      const toMemories = domainRegistry.getDomain(result.domainId)?.config.memories;
+      for (const candidate of toMemories?.(result.data.data) ?? []) {
+        candidates.set(candidate.key, { source: result.domainId, candidate });
+      }
+    }
+
+    // A domain memory describes a topic more precisely (e.g. as a symptom)
+    const fromDomains = new Set(
+      [...candidates.values()].map(({ candidate }) => candidate.content.toLowerCase())
+    );
+
+    for (const element of state.contextElements) {
+      if (element.lastAccessedAt < turnStartedAt) continue;
+      if (element.weight < config.memory.promotionWeight) continue;
+      if (element.key.startsWith('memory:') || NOT_REMEMBERED.includes(element.key)) continue;
+      if (fromDomains.has(element.value.toLowerCase())) continue;
+
+      if (element.contextType === 'topic' || element.contextType === 'preference') {
+        candidates.set(element.key, {
+          source: 'context',
+          candidate: {
+            key: element.key,
+            kind: element.contextType === 'topic' ? 'concern' : 'preference',
+            content: element.value,
+          },
+        });
+      }
+    }
+
+    const forgotten = await memoryRepository.findForgottenKeys(userId);
+    for (const key of forgotten) candidates.delete(key);
+
+    for (const { source, candidate } of candidates.values()) {
+      await memoryRepository.upsert(userId, conversationId, source, candidate);
+    }
+
+    if (candidates.size > 0) {
+      logger.debug(
+        { userId, conversationId, memories: [...candidates.keys()] },
+        'Memory: Promoted'
+      );
+    }
+
+    return candidates.size;
+  }
+
+  /**
+   * A user's memories as context elements for a new conversation
+   */
+  async recall(userId: string): Promise<ContextElement[]> {
+    const memories = await memoryRepository.findByUserId(userId, config.memory.recallLimit);
+    const now = new Date();
+
+    return memories.map((memory) => ({
+      key: `memory:${memory.key}`,
+      value: memory.content,
+      weight: RECALLED_WEIGHT,
+      contextType: memory.kind === 'concern' ? 'topic' : 'preference', // Facts fade slowly too
+      createdAt: now,
+      lastAccessedAt: now,
+    }));
+  }
+
+  async list(userId: string): Promise<UserMemory[]> {
+    return memoryRepository.findByUserId(userId);
+  }
+
+  /**
+   * Delete one memory by key or ID prefix (as shown by `memory list`)
+   * The key stays forgotten, and open conversations that recalled it stop seeing it
+   * @throws Error if nothing matches or the prefix is ambiguous
+   */
+  async forget(userId: string, keyOrId: string): Promise<UserMemory> {
+    const memories = await memoryRepository.findByUserId(userId, Number.MAX_SAFE_INTEGER);
+
+    const byKey = memories.find((memory) => memory.key === keyOrId);
+    const matches = byKey ? [byKey] : memories.filter((memory) => memory.id.startsWith(keyOrId));
+    if (matches.length === 0) {
+      throw new Error(`No memory "${keyOrId}" for user ${userId}`);
+    }
+    if (matches.length > 1) {
+      throw new Error(`"${keyOrId}" matches several memories; use more characters`);
+    }
+
+    await memoryRepository.markForgotten(userId, [matches[0].key]);
+    await memoryRepository.deleteById(userId, matches[0].id);
+    await this.removeRecalled(userId, (key) => key === `memory:${matches[0].key}`);
+    logger.info({ userId, key: matches[0].key }, 'Memory: Forgotten');
+
+    return matches[0];
+  }
+
+  /**
+   * @returns Number of memories deleted
+   */
+  async forgetAll(userId: string): Promise<number> {
+    const memories = await memoryRepository.findByUserId(userId, Number.MAX_SAFE_INTEGER);
+    await memoryRepository.markForgotten(
+      userId,
+      memories.map((memory) => memory.key)
+    );
+
+    const count = await memoryRepository.deleteByUserId(userId);
+    await this.removeRecalled(userId, (key) => key.startsWith('memory:'));
+    logger.info({ userId, count }, 'Memory: All forgotten');
+    return count;
+  }
+
+  /**
+   * Drop recalled memory elements from the user's active conversations
+   * States are snapshots, so each affected conversation gets a new one without them
+   */
+  private async removeRecalled(userId: string, matches: (key: string) => boolean): Promise<void> {
+    for (const conversation of await conversationRepository.findActiveByUserId(userId)) {
+      const state = await stateRepository.getLatestByConversationId(conversation.id);
+      if (!state?.contextElements.some((element) => matches(element.key))) continue;
+
+      await stateRepository.create({
+        id: uuidv4(),
+        conversationId: state.conversationId,
+        mode: state.mode,
+        contextElements: state.contextElements.filter((element) => !matches(element.key)),
+        goals: state.goals,
+        lastActivityAt: state.lastActivityAt,
+        metadata: state.metadata,
+      });
+    }
+  }
+}
+
+export const memoryService = new MemoryService();
@@ -0,0 +1,187 @@
+/**
+ * Retrieval Service
+ *
+ * Semantic retrieval of past facts for handler prompts, computed locally on the
+ * CPU. User messages and domain data are embedded as hashed term-frequency
+ * vectors (words and word pairs hashed into a fixed number of buckets) and
+ * stored in the embeddings table. At query time, inverse document frequencies
+ * are computed over the user's vectors, so both sides are compared as TF-IDF
+ * by cosine similarity.
+ */
+
+import { config } from '@/config/index.js';
+import { logger } from '@/core/logger.js';
+import { embeddingRepository, type StoredEmbedding } from '@/database/repositories/index.js';
+import { STOPWORDS } from '@/services/search.service.js';
+import type { RetrievedFact } from '@/types/index.js';
+
+export interface RetrieveOptions {
+  excludeSourceIds?: string[]; // Usually the loaded history - it is already in the prompt
+  limit?: number;
+}
+
+// Buckets per vector; collisions only blur rare pairs of unrelated terms
+const DIMENSIONS = 1024;
+
+// Stored with each row; changing the method re-embeds everything
+const MODEL = `hashed-tfidf-${DIMENSIONS}-v1`;
+
+// Rows embedded per retrieval, so a large backfill is spread over several turns
+const SYNC_BATCH = 500;
+
+// Newest vectors compared per retrieval
+const MAX_CANDIDATES = 2000;
+
+export class RetrievalService {
+  /**
+   * Past facts of the user most similar to a message, best first
+   * Failures are logged and yield no facts; retrieval never fails a turn.
+   */
+  async retrieve(
+    userId: string,
+    message: string,
+    options: RetrieveOptions = {}
+  ): Promise<RetrievedFact[]> {
+    if (!config.semanticRetrieval.enabled) return [];
+
+    try {
+      await this.sync(userId);
+
+      const query = embed(message);
+      if (!query.some((value) => value > 0)) return [];
+
+      const excluded = new Set(options.excludeSourceIds ?? []);
+      const candidates = (
+        await embeddingRepository.findByUserId(userId, MODEL, MAX_CANDIDATES)
+      ).filter((candidate) => !excluded.has(candidate.sourceId));
+      if (candidates.length === 0) return [];
+
+      const idf = inverseDocumentFrequencies(candidates);
+      const weightedQuery = weigh(query, idf);
+
+      const facts: RetrievedFact[] = [];
+      const seen = new Set<string>();
+      const ranked = candidates
+        .map((candidate) => ({
+          candidate,
+          score: cosine(weightedQuery, weigh(candidate.vector, idf)),
+        }))
+        .filter(({ score }) => score > 0 && score >= config.semanticRetrieval.minScore)
+        .sort((a, b) => b.score - a.score);
+
+      for (const { candidate, score } of ranked) {
+        // The same fact is often extracted or said more than once
+        if (seen.has(candidate.content)) continue;
+        seen.add(candidate.content);
+
+        facts.push({
+          source: candidate.source,
+          sourceId: candidate.sourceId,
+          conversationId: candidate.conversationId,
+          domainId: candidate.domainId,
+          content: candidate.content,
+          score: Math.round(score * 1000) / 1000,
+          createdAt: candidate.createdAt,
+        });
+        if (facts.length >= (options.limit ?? config.semanticRetrieval.topK)) break;
+      }
+
+      logger.debug(
+        { userId, candidates: candidates.length, facts: facts.length },
+        'Retrieval: Past facts retrieved'
+      );
+
+      return facts;
+    } catch (error) {
+      logger.warn({ error: (error as Error).message, userId }, 'Retrieval: Failed');
+      return [];
+    }
+  }
+
+  /**
+   * Embed the user's messages and domain data that have no vector yet
+   * @returns Number of rows embedded
+   */
+  async sync(userId: string): Promise<number> {
+    const sources = await embeddingRepository.findUnembedded(userId, MODEL, SYNC_BATCH);
+    if (sources.length === 0) return 0;
+
+    await embeddingRepository.upsertMany(
+      MODEL,
+      sources.map((source) => ({ ...source, vector: embed(source.content) }))
+    );
+
+    logger.debug({ userId, embedded: sources.length }, 'Retrieval: Embeddings synced');
+    return sources.length;
+  }
+}
+
+/**
+ * Sublinear term frequencies of words and adjacent word pairs, hashed into buckets
+ */
+function embed(text: string): Float32Array {
+  const terms = tokenize(text);
+  const features = [...terms, ...terms.slice(1).map((term, i) => `${terms[i]} ${term}`)];
+
+  const counts = new Float32Array(DIMENSIONS);
+  for (const feature of features) {
+    counts[hash(feature) % DIMENSIONS]! += 1;
+  }
+  return counts.map((count) => (count > 0 ? 1 + Math.log(count) : 0));
+}
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+    .filter((word) => word.length >= 2 && !STOPWORDS.has(word))
+    .map(stem);
+}
+
+/**
+ * Plural and common verb endings, so "pains" matches "pain" and "sleeping" matches "sleep"
+ */
+function stem(word: string): string {
+  if (word.length > 5 && word.endsWith('ing')) return word.slice(0, -3);
+  if (word.length > 4 && word.endsWith('ed')) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * 32-bit FNV-1a
+ */
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function inverseDocumentFrequencies(documents: StoredEmbedding[]): Float32Array {
+  const frequencies = new Float32Array(DIMENSIONS);
+  for (const { vector } of documents) {
+    for (let i = 0; i < DIMENSIONS; i++) {
+      if (vector[i]! > 0) frequencies[i]! += 1;
+    }
+  }
+  return frequencies.map((df) => Math.log((documents.length + 1) / (df + 1)) + 1);
+}
+
+function weigh(vector: Float32Array, idf: Float32Array): Float32Array {
+  return vector.map((value, i) => value * idf[i]!);
+}
+
+function cosine(a: Float32Array, b: Float32Array): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < DIMENSIONS; i++) {
+    dot += a[i]! * b[i]!;
+    normA += a[i]! * a[i]!;
+    normB += b[i]! * b[i]!;
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+export const retrievalService = new RetrievalService();
@@ -0,0 +1,97 @@
+/**
+ * Search Service
+ *
+ * Full-text search over conversation history: message content and flattened
+ * domain data, indexed by SQLite FTS5 (search_index). Backs the search command
+ * and the retrieval of past snippets for CONSULT replies.
+ */
+
+import { config } from '@/config/index.js';
+import { logger } from '@/core/logger.js';
+import {
+  searchRepository,
+  type SearchFilters,
+  type SearchHit,
+} from '@/database/repositories/index.js';
+
+export interface RetrievalOptions {
+  excludeConversationId?: string; // Usually the current one - its history is already in the prompt
+  excludeSourceIds?: string[]; // Rows the prompt already carries from another retrieval
+  limit?: number;
+}
+
+// Words too common to say what a message is about
+export const STOPWORDS = new Set(
+  (
+    'about after again also and any are been but can could did does doing don for from get got ' +
+    'had has have how just like more much not now really should some than that the them then ' +
+    'there these they this too very want was were what when where which while who why will with ' +
+    'would you your'
+  ).split(' ')
+);
+
+// Retrieval only needs the most telling words of a message
+const MAX_RETRIEVAL_TERMS = 12;
+
+export class SearchService {
+  /**
+   * Find messages and domain data containing every word of the query
+   */
+  async search(query: string, filters: Omit<SearchFilters, 'matchAny'> = {}): Promise<SearchHit[]> {
+    return searchRepository.search(tokenize(query), filters);
+  }
+
+  /**
+   * Past snippets relevant to a message, formatted for a prompt
+   * Matches any significant word, so a new message can recall older conversations.
+   * Failures are logged and yield no snippets; retrieval never fails a turn.
+   */
+  async retrieveSnippets(
+    userId: string,
+    message: string,
+    options: RetrievalOptions = {}
+  ): Promise<string[]> {
+    if (!config.search.retrievalEnabled) return [];
+
+    const terms = [...new Set(tokenize(message))]
+      .filter((term) => term.length >= 3 && !STOPWORDS.has(term))
+      .slice(0, MAX_RETRIEVAL_TERMS);
+    if (terms.length === 0) return [];
+
+    try {
+      const hits = await searchRepository.search(terms, {
+        userId,
+        excludeConversationId: options.excludeConversationId,
+        excludeSourceIds: options.excludeSourceIds,
+        matchAny: true,
+        limit: options.limit ?? config.search.retrievalLimit,
+      });
+
+      logger.debug(
+        { userId, terms: terms.length, snippets: hits.length },
+        'Search: Retrieved past snippets'
+      );
+
+      // Repeated facts (e.g. the same extraction twice) would only crowd the prompt
+      return [...new Set(hits.map(formatSnippet))];
+    } catch (error) {
+      logger.warn({ error: (error as Error).message, userId }, 'Search: Retrieval failed');
+      return [];
+    }
+  }
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+/**
+ * "2025-01-31 user said: my [knee] hurts after running"
+ */
+function formatSnippet(hit: SearchHit): string {
+  const date = hit.createdAt.toISOString().slice(0, 10);
+  const origin = hit.source === 'message' ? `${hit.role} said` : `${hit.domainId} data`;
+  return `${date} ${origin}: ${hit.snippet.replace(/[[\]]/g, '')}`;
+}
+
+export const searchService = new SearchService();
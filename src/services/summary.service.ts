@@ -0,0 +1,151 @@
+/**
+ * Summary Service
+ *
+ * Rolling summaries of long conversations. Only the last CONTEXT_MESSAGE_LIMIT
+ * messages are loaded as history; once enough older messages have fallen out
+ * of that window they are folded into a summary, along with one per domain
+ * declaring the `summarization` capability. The summary rides along in the
+ * state snapshot's metadata and is rendered into handler prompts.
+ */
+
+import { z } from 'zod';
+import { config } from '@/config/index.js';
+import { domainRegistry } from '@/core/domains/registries/index.js';
+import { StorageFactory } from '@/core/domains/storage/index.js';
+import { llmService } from '@/core/llm.service.js';
+import { logger } from '@/core/logger.js';
+import { messageRepository } from '@/database/repositories/index.js';
+import {
+  MessageRole,
+  type ConversationState,
+  type Message,
+  type RollingSummary,
+} from '@/types/index.js';
+
+export interface SummaryRefresh {
+  state: ConversationState;
+  historyLimit: number; // Recent messages to load so none is dropped before it is summarized
+}
+
+const summaryResponseSchema = z.object({
+  summary: z.string(),
+  domains: z.record(z.string(), z.string()).default({}),
+});
+
+// Stored extractions shown per domain - the latest say what still holds
+const DOMAIN_DATA_LIMIT = 5;
+
+export class SummaryService {
+  /**
+   * Fold messages that fell out of the history window into the state's summary
+   * Waits for SUMMARY_BATCH_MESSAGES of them, keeping them in history until then.
+   * Failures are logged and leave the previous summary; summaries never fail a turn.
+   */
+  async refresh(conversationId: string, state: ConversationState): Promise<SummaryRefresh> {
+    const windowSize = config.context.messageLimit;
+    if (!config.summary.enabled) return { state, historyLimit: windowSize };
+
+    const previous = state.metadata?.summary;
+    const summarized = previous?.messageCount ?? 0;
+    const total =
+      (await messageRepository.countByConversationIds([conversationId])).get(conversationId) ?? 0;
+    const pending = Math.max(total - windowSize - summarized, 0);
+
+    if (pending < config.summary.batchMessages) {
+      return { state, historyLimit: windowSize + pending };
+    }
+
+    try {
+      const messages = await messageRepository.getMessageRange(conversationId, summarized, pending);
+      const summary = await this.summarize(conversationId, previous, messages);
+
+      logger.info(
+        {
+          conversationId,
+          messagesSummarized: summary.messageCount,
+          domains: Object.keys(summary.domains),
+        },
+        'Summary: Rolling summary updated'
+      );
+
+      return {
+        state: { ...state, metadata: { ...state.metadata, summary } },
+        historyLimit: windowSize,
+      };
+    } catch (error) {
+      logger.warn(
+        { conversationId, error: (error as Error).message },
+        'Summary: Failed to update, keeping unsummarized messages in history'
+      );
+      return { state, historyLimit: windowSize + pending };
+    }
+  }
+
+  private async summarize(
+    conversationId: string,
+    previous: RollingSummary | undefined,
+    messages: Message[]
+  ): Promise<RollingSummary> {
+    const domains = domainRegistry
+      .getActiveDomains()
+      .filter((domain) => domain.capabilities.summarization);
+
+    const recorded: string[] = [];
+    for (const domain of domains) {
+      if (!domain.config.storageConfig) continue;
+
+      const storage = StorageFactory.create<Record<string, unknown>>(
+        domain.id,
+        domain.config.storageConfig
+      );
+      const entries = await storage.query({ conversationId, limit: DOMAIN_DATA_LIMIT });
+      for (const { userId: _userId, conversationId: _conversationId, ...data } of entries) {
+        recorded.push(`${domain.id}: ${JSON.stringify(data).slice(0, 300)}`);
+      }
+    }
+
+    const transcript = messages
+      .map((m) => `${m.role === MessageRole.USER ? 'User' : 'Assistant'}: ${m.content}`)
+      .join('\n');
+
+    const prompt = `Summarize the earlier part of a conversation between a user and an AI assistant.
+
+Previous summary: ${previous?.text || '(none)'}
+${Object.entries(previous?.domains ?? {})
+  .map(([domainId, text]) => `Previous ${domainId} summary: ${text}`)
+  .join('\n')}
+
+Messages to add:
+${transcript}
+${recorded.length > 0 ? `\nData recorded in this conversation:\n${recorded.join('\n')}\n` : ''}
+Respond with JSON: {"summary": string, "domains": {${domains.map((d) => `"${d.id}": string`).join(', ')}}}
+- summary: the previous summary updated with these messages, under 120 words. Keep facts the user shared, advice given, decisions and open questions.
+- domains: for each domain (${domains.map((d) => `${d.id}: ${d.name}`).join('; ')}), one or two sentences on what the user shared about it so far, or "" if nothing.`;
+
+    const response = await llmService.generateFromMessages([{ role: 'user', content: prompt }], {
+      stage: 'summarizer',
+      model: config.openai.classifierModel,
+      maxTokens: config.summary.maxTokens,
+      temperature: 0.2,
+      responseFormat: { type: 'json_object' },
+    });
+    const parsed = summaryResponseSchema.parse(JSON.parse(response));
+
+    // A domain the new messages don't mention keeps its earlier summary
+    const domainSummaries = { ...previous?.domains };
+    for (const [domainId, text] of Object.entries(parsed.domains)) {
+      if (text.trim() && domains.some((domain) => domain.id === domainId)) {
+        domainSummaries[domainId] = text.trim();
+      }
+    }
+
+    return {
+      text: parsed.summary.trim(),
+      domains: domainSummaries,
+      messageCount: (previous?.messageCount ?? 0) + messages.length,
+      updatedAt: new Date().toISOString(),
+    };
+  }
+}
+
+export const summaryService = new SummaryService();
@@ -0,0 +1,141 @@
+/**
+ * Usage Service
+ *
+ * Aggregates the token usage and estimated cost stored on assistant
+ * messages into reports grouped by user, conversation, stage or day.
+ */
+
+import {
+  messageRepository,
+  type MessageUsageRecord,
+} from '@/database/repositories/message.repository.js';
+import type { LLMStage, MessageMetadata, StageUsage } from '@/types/index.js';
+
+export type UsageGroupBy = 'user' | 'conversation' | 'stage' | 'day';
+
+export interface UsageReportFilters {
+  userId?: string;
+  conversationId?: string;
+  days?: number; // Only include the last N days
+}
+
+export interface UsageReportRow extends StageUsage {
+  key: string;
+  messages: number; // Assistant turns contributing to this row
+}
+
+export interface UsageReport {
+  groupBy: UsageGroupBy;
+  rows: UsageReportRow[];
+  totals: UsageReportRow;
+}
+
+export class UsageService {
+  /**
+   * Build a usage report from persisted message metadata
+   */
+  async getReport(groupBy: UsageGroupBy, filters: UsageReportFilters = {}): Promise<UsageReport> {
+    const since = filters.days
+      ? new Date(Date.now() - filters.days * 24 * 60 * 60 * 1000)
+      : undefined;
+
+    const records = await messageRepository.findUsageRecords({
+      userId: filters.userId,
+      conversationId: filters.conversationId,
+      since,
+    });
+
+    const rows = new Map<string, UsageReportRow>();
+    const totals = emptyRow('total');
+
+    for (const record of records) {
+      const metadata = parseMetadata(record.metadata);
+      if (!metadata?.tokensUsed) continue;
+
+      addTurn(totals, metadata);
+
+      if (groupBy === 'stage') {
+        // A turn contributes to every stage that made calls during it
+        for (const [stage, usage] of Object.entries(metadata.usageByStage || {})) {
+          const row = getRow(rows, stage as LLMStage);
+          addStage(row, usage);
+          row.messages += 1;
+        }
+        continue;
+      }
+
+      addTurn(getRow(rows, groupKey(groupBy, record)), metadata);
+    }
+
+    return {
+      groupBy,
+      rows: [...rows.values()].sort((a, b) => b.totalTokens - a.totalTokens),
+      totals,
+    };
+  }
+}
+
+function groupKey(groupBy: Exclude<UsageGroupBy, 'stage'>, record: MessageUsageRecord): string {
+  switch (groupBy) {
+    case 'user':
+      return record.userId;
+    case 'conversation':
+      return record.conversationId;
+    case 'day':
+      return record.timestamp.toISOString().substring(0, 10);
+  }
+}
+
+/**
+ * Rows written before metadata was stored as JSON come back as strings
+ */
+function parseMetadata(metadata: MessageMetadata | string | null): MessageMetadata | null {
+  if (!metadata) return null;
+  if (typeof metadata !== 'string') return metadata;
+
+  try {
+    return JSON.parse(metadata) as MessageMetadata;
+  } catch {
+    return null;
+  }
+}
+
+function emptyRow(key: string): UsageReportRow {
+  return {
+    key,
+    messages: 0,
+    calls: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    costUsd: 0,
+  };
+}
+
+function getRow(rows: Map<string, UsageReportRow>, key: string): UsageReportRow {
+  let row = rows.get(key);
+  if (!row) {
+    row = emptyRow(key);
+    rows.set(key, row);
+  }
+  return row;
+}
+
+function addTurn(row: UsageReportRow, metadata: MessageMetadata): void {
+  row.messages += 1;
+  row.calls += Object.values(metadata.usageByStage || {}).reduce((sum, u) => sum + u.calls, 0);
+  row.promptTokens += metadata.promptTokens || 0;
+  row.completionTokens += metadata.completionTokens || 0;
+  row.totalTokens += metadata.tokensUsed || 0;
+  row.costUsd += metadata.costUsd || 0;
+}
+
+function addStage(row: UsageReportRow, usage: StageUsage): void {
+  row.calls += usage.calls;
+  row.promptTokens += usage.promptTokens;
+  row.completionTokens += usage.completionTokens;
+  row.totalTokens += usage.totalTokens;
+  row.costUsd += usage.costUsd;
+}
+
+export const usageService = new UsageService();
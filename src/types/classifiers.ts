@@ -115,6 +115,7 @@ export interface ArbiterInput {
   safetyResult: SafetyResult;
   intentResult: IntentResult;
   currentMode: ConversationMode;
+  forcedMode?: ConversationMode; // Chosen by the user (chat /mode); replaces the suggested mode
 }
 
 export interface ArbiterDecision {
@@ -1,6 +1,12 @@
 // Core type definitions for AI Assistant
 // MVP v1: Simplified types for basic message processing
 
+import type { PerformanceReport } from '@/core/performance-tracker.js';
+import type { UnifiedClassificationResult } from '@/core/classifiers/unified.classifier.js';
+import type { ConversationMode } from './modes.js';
+import type { ArbiterDecision, SafetyLevel } from './classifiers.js';
+import type { RetrievedFact } from './retrieval.js';
+
 export enum MessageRole {
   USER = 'user',
   ASSISTANT = 'assistant',
@@ -26,6 +32,54 @@ export interface MessageMetadata {
   tokensUsed?: number;
   processingTimeMs?: number;
   model?: string;
+  promptTokens?: number;
+  completionTokens?: number;
+  costUsd?: number; // Estimated from the pricing table, all LLM calls for the turn
+  usageByStage?: Partial<Record<LLMStage, StageUsage>>;
+  toolInvocations?: ToolInvocation[]; // Tools the model called while writing this reply
+  domainRecords?: DomainRecordRef[]; // Domain data extracted from this turn's user message
+  goalChanges?: GoalChange[]; // Goals created or progressed from this turn's extracted goal data
+}
+
+// A goal created, or a progress entry logged, outside a tool call
+export interface GoalChange {
+  type: 'created' | 'progress';
+  goalId: string;
+  progressEntryId?: string; // Set for 'progress'
+}
+
+// A stored domain_data row, by domain
+export interface DomainRecordRef {
+  domainId: string;
+  recordId: string;
+}
+
+// A tool call made by the model during a handler turn
+export interface ToolInvocation {
+  id: string;
+  name: string;
+  arguments: unknown; // Parsed arguments, or the raw string if they were not valid JSON
+  result?: unknown;
+  error?: string;
+  durationMs: number;
+}
+
+// Pipeline area an LLM call belongs to, for usage attribution
+export type LLMStage =
+  | 'classifier'
+  | 'extractor'
+  | 'steering'
+  | 'handler'
+  | 'orchestrator'
+  | 'summarizer'
+  | 'other';
+
+export interface StageUsage {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
 }
 
 export interface Conversation {
@@ -44,6 +98,7 @@ export interface PipelineContext {
   message: string;
   timestamp: Date;
   forceNewConversation?: boolean; // If true, ignore existing active conversations and create new
+  forceMode?: ConversationMode; // Skip intent routing and use this mode (safety rules still apply)
 }
 
 export interface PipelineResult {
@@ -51,6 +106,15 @@ export interface PipelineResult {
   processingTime: number;
   messageId: string;
   conversationId: string;
+  mode: ConversationMode; // Final mode after arbitration
+  safetyLevel: SafetyLevel;
+  extractions: TraceExtraction[]; // One per relevant domain
+  performance: PerformanceReport; // Spans and metrics for this turn only
+}
+
+// Streaming pipeline result: iterate for response tokens, await `result` for the saved turn
+export interface StreamingPipelineResult extends AsyncIterable<string> {
+  result: Promise<PipelineResult>;
 }
 
 // Database DTOs
@@ -71,16 +135,66 @@ export interface CreateMessageDto {
   metadata?: MessageMetadata;
 }
 
+// Pipeline trace - persisted per assistant message for the trace command
+export interface PipelineTrace {
+  id: string;
+  messageId: string;
+  conversationId: string;
+  userId: string;
+  traceId: string;
+  mode: ConversationMode;
+  classification: UnifiedClassificationResult | null;
+  decision: ArbiterDecision | null;
+  extractions: TraceExtraction[];
+  steering: TraceSteering[];
+  retrieval: RetrievedFact[]; // Past facts added to the handler prompt
+  performance: TracePerformance | null;
+  createdAt: Date;
+}
+
+// One relevant domain's extraction outcome
+export interface TraceExtraction {
+  domainId: string;
+  extracted: boolean;
+  data?: unknown;
+  confidence?: number;
+  error?: string;
+}
+
+export interface TraceSteering {
+  domainId: string;
+  suggestions: string[];
+  priority?: number;
+  error?: string;
+}
+
+// Raw metrics duplicate the spans, so they aren't stored
+export type TracePerformance = Omit<PerformanceReport, 'metrics'>;
+
+export type CreatePipelineTraceDto = Omit<PipelineTrace, 'createdAt'>;
+
 // Configuration types
 export interface AppConfig {
   openai: {
+    provider: 'openai' | 'local' | 'scripted';
     apiKey: string;
+    baseUrl?: string; // OpenAI-compatible endpoint override (required for local)
+    scriptPath?: string; // Script file for the scripted provider
+    cassetteMode: 'off' | 'record' | 'replay'; // Record/replay layer over the provider
+    cassettePath: string;
     model: string;
     classifierModel: string; // Model for all classifiers
     extractorModel: string; // Model for domain extractors
     maxTokens: number;
     temperature: number;
     timeout: number;
+    retry: {
+      maxRetries: number;
+      baseDelayMs: number;
+      maxDelayMs: number;
+    };
+    fallbackModels: string[]; // Tried in order after the requested model fails
+    structuredOutputs: boolean; // Extractors request json_schema instead of json_object
   };
   database: {
     path: string;
@@ -94,11 +208,56 @@ export interface AppConfig {
   context: {
     messageLimit: number;
   };
+  promptBudget: {
+    handler: number; // Tokens for system prompt, context, history and message in mode handlers
+    classifier: number;
+    extractor: number;
+  };
+  llmCache: {
+    enabled: boolean;
+    ttlSeconds: number;
+  };
   domainHistory: {
     enabled: boolean;
     days: number;
     limit: number;
   };
+  search: {
+    retrievalEnabled: boolean; // CONSULT replies see matching snippets from other conversations
+    retrievalLimit: number;
+  };
+  decay: {
+    configPath?: string; // JSON file of decay policies; defaults apply when unset
+  };
+  semanticRetrieval: {
+    enabled: boolean; // Handlers see the past facts most similar to the message
+    topK: number;
+    minScore: number; // Minimum cosine similarity of a retrieved fact
+  };
+  memory: {
+    enabled: boolean; // Promote memories after each turn and recall them in new conversations
+    promotionWeight: number; // Minimum topic/preference context element weight to remember
+    recallLimit: number; // Memories loaded into a new conversation
+  };
+  summary: {
+    enabled: boolean; // Summarize turns that fall out of the context message window
+    batchMessages: number; // Unsummarized messages past the window that trigger a summary
+    maxTokens: number;
+  };
+  pipelineTraces: {
+    enabled: boolean; // Save a pipeline_traces row per assistant message
+  };
+  telemetry: {
+    exporter: 'none' | 'file' | 'otlp'; // Where finished pipeline traces are sent
+    endpoint: string; // OTLP/HTTP collector base URL
+    filePath: string; // One OTLP/JSON request per line
+    serviceName: string;
+  };
+  api: {
+    port: number;
+    host: string;
+    corsOrigin?: string; // Access-Control-Allow-Origin; unset disables CORS headers
+  };
 }
 
 // Error types
@@ -123,7 +282,9 @@ export class DatabaseError extends Error {
   }
 }
 
-// Re-export mode, state, and classifier types
+// Re-export mode, state, classifier, memory, and retrieval types
 export * from './modes.js';
 export * from './state.js';
 export * from './classifiers.js';
+export * from './memory.js';
+export * from './retrieval.js';
@@ -0,0 +1,23 @@
+// Long-term user memory types - what is remembered across conversations
+
+export type MemoryKind = 'fact' | 'preference' | 'concern';
+
+/**
+ * Something worth remembering, before it is stored for a user
+ */
+export interface MemoryCandidate {
+  key: string; // Stable per user (e.g. "symptom:knee_pain"); repeats reinforce one memory
+  kind: MemoryKind;
+  content: string; // Shown to the model and in `memory list`, e.g. "Knee pain"
+}
+
+export interface UserMemory extends MemoryCandidate {
+  id: string;
+  userId: string;
+  source: string; // "context" or the domain whose extraction produced it
+  conversationCount: number; // Distinct conversations it came up in
+  firstConversationId: string;
+  lastConversationId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
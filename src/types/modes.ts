@@ -1,6 +1,7 @@
 // Mode types and enums for conversation modes
 
 import type { ClassificationContext } from './classifiers.js';
+import type { GoalChange, ToolInvocation } from './index.js';
 
 export enum ConversationMode {
   CONSULT = 'consult', // Seeking advice, help with problems, health questions
@@ -23,15 +24,20 @@ export interface HandlerContext {
   currentMode: ConversationMode;
   state: Record<string, unknown>; // Will be properly typed when we add ConversationState
   classification?: ClassificationContext; // MVP v3: Safety and intent classification results
+  retrievedSnippets?: string[]; // Full-text matches from the user's other conversations (Consult)
 }
 
 export interface HandlerResult {
   response: string;
   newMode?: ConversationMode; // If mode should change
   stateUpdates?: Record<string, unknown>; // Updates to conversation state
+  toolInvocations?: ToolInvocation[]; // Tools called while generating the response
+  goalChanges?: GoalChange[]; // Goal data the handler changed without a tool call
 }
 
 export interface IModeHandler {
   readonly mode: ConversationMode;
   handle(context: HandlerContext): Promise<HandlerResult>;
+  // Optional streaming variant: yields response tokens, returns the final result
+  handleStream?(context: HandlerContext): AsyncGenerator<string, HandlerResult>;
 }
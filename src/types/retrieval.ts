@@ -0,0 +1,16 @@
+// Semantic retrieval types - past facts matched to the current message
+
+export type RetrievalSource = 'message' | 'domain_data';
+
+/**
+ * A past user message or domain data row relevant to the current message
+ */
+export interface RetrievedFact {
+  source: RetrievalSource;
+  sourceId: string; // Message ID or domain_data ID
+  conversationId: string;
+  domainId: string | null; // Domain data only
+  content: string; // Message text, or domain data flattened as in search_index
+  score: number; // Cosine similarity of the TF-IDF vectors, 0-1
+  createdAt: Date;
+}
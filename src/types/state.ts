@@ -2,16 +2,32 @@
 
 import type { ConversationMode } from './modes.js';
 import type { ExtractedData, SteeringHints, DomainContext } from '@/core/domains/types.js';
+import type { RetrievedFact } from './retrieval.js';
 
-export type ContextType = 'crisis' | 'emotional' | 'topic' | 'preference' | 'general';
+export type BuiltinContextType = 'crisis' | 'emotional' | 'topic' | 'preference' | 'general';
+
+// Domains can register further types with their own decay policy (DomainConfig.contextTypes)
+export type ContextType = BuiltinContextType | (string & {});
 
 export interface ContextElement {
   key: string; // e.g., "user_health_concern", "topic", "emotional_state"
   value: string;
   weight: number; // 0-1, decreases with time
   contextType?: ContextType; // Type determines decay rate
-  createdAt: Date;
-  lastAccessedAt: Date;
+  createdAt: Date; // First seen
+  lastAccessedAt: Date; // Last seen; decay counts from here
+  mentionCount?: number; // Times seen in this conversation; absent means once
+  mentions?: Date[]; // Most recent mention times, oldest first (capped)
+}
+
+/**
+ * Summary of the turns that no longer fit in the context message window
+ */
+export interface RollingSummary {
+  text: string;
+  domains: Record<string, string>; // Per domain with the summarization capability
+  messageCount: number; // Oldest messages covered, in conversation order
+  updatedAt: string; // ISO timestamp
 }
 
 export interface ConversationGoal {
@@ -34,6 +50,7 @@ export interface ConversationState {
     extractionTimestamp?: Date;
     steeringApplied?: string[];
     activeDomains?: string[];
+    summary?: RollingSummary; // Persisted with the state snapshot
   };
 
   // New fields for domain framework
@@ -58,6 +75,7 @@ export interface ConversationState {
     content: string;
   }>;
   userId?: string;
+  retrievedFacts?: RetrievedFact[]; // For this turn's handler only, never persisted
 }
 
 // DTOs for state operations
@@ -79,14 +97,19 @@ export interface UpdateStateDto {
   metadata?: Record<string, unknown>;
 }
 
+// How a context element of one type fades
+export interface DecayPolicy {
+  halfLifeHours: number; // Hours without access until weight is halved
+  floorWeight: number; // Weight never decays below this (0 = no floor)
+  reinforcement: number; // Weight multiplier on the first re-mention, smaller on later ones; capped at 1.0
+  expiryHours?: number; // Removed this long after creation, whatever its weight
+}
+
 // Decay configuration
 export interface DecayConfig {
-  // Context type-specific half-lives (hours until weight reduced by 50%)
-  crisisHalfLife: number; // Crisis/safety contexts - should last longest
-  emotionalHalfLife: number; // Emotional states - moderate duration
-  topicHalfLife: number; // Discussion topics - normal duration
-  preferenceHalfLife: number; // User preferences - long retention
-  generalHalfLife: number; // Everything else - default duration
+  // Policies by context type; partial entries inherit from the domain's policy, then general
+  policies: { general: DecayPolicy } & Record<string, Partial<DecayPolicy>>;
+  removeBelowWeight: number; // Elements lighter than this are dropped
 
   // Existing configs
   goalExpiryDays: number; // Days until goals marked for review
@@ -94,12 +117,15 @@ export interface DecayConfig {
 }
 
 export const DEFAULT_DECAY_CONFIG = {
-  // Type-specific half-lives
-  crisisHalfLife: 72, // 72 hours (3 days) - crisis awareness should linger
-  emotionalHalfLife: 48, // 48 hours (2 days) - emotional states moderate
-  topicHalfLife: 24, // 24 hours - normal conversation topics
-  preferenceHalfLife: 168, // 168 hours (7 days) - preferences long-lasting
-  generalHalfLife: 24, // 24 hours - default for untyped elements
+  // Type-specific half-lives; mentioning an element again boosts it by 20%
+  policies: {
+    crisis: { halfLifeHours: 72, floorWeight: 0, reinforcement: 1.2 }, // Should linger
+    emotional: { halfLifeHours: 48, floorWeight: 0, reinforcement: 1.2 }, // Moderate
+    topic: { halfLifeHours: 24, floorWeight: 0, reinforcement: 1.2 }, // Normal duration
+    preference: { halfLifeHours: 168, floorWeight: 0, reinforcement: 1.2 }, // Long-lasting
+    general: { halfLifeHours: 24, floorWeight: 0, reinforcement: 1.2 }, // Untyped elements
+  },
+  removeBelowWeight: 0.1,
 
   // Existing defaults
   goalExpiryDays: 7, // 7 days
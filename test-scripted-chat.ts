@@ -0,0 +1,124 @@
+/**
+ * Scripted chat scenario
+ *
+ * Runs real pipeline turns offline with the scripted provider and a throwaway
+ * database: a greeting answered from the provider's built-in defaults, a health
+ * message with a scripted classification and extraction, and an undo of that turn.
+ *
+ * Run with: npx tsx test-scripted-chat.ts
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// Config is read on import, so the environment is set before loading the app
+const workDir = mkdtempSync(join(tmpdir(), 'scripted-chat-'));
+const scriptPath = join(workDir, 'script.json');
+
+writeFileSync(
+  scriptPath,
+  JSON.stringify({
+    default: 'Sorry to hear that. How long has it been going on?',
+    rules: [
+      {
+        match: 'Classify message[\\s\\S]*Message: "[^"]*headache',
+        response: JSON.stringify({
+          safety: { level: 'safe', signals: [] },
+          intent: { primary: 'share_problem', suggestedMode: 'CONSULT', entities: [] },
+          relevantDomains: ['health'],
+          confidence: 0.9,
+        }),
+      },
+      {
+        match: 'health information extractor',
+        response: JSON.stringify({ symptoms: [{ name: 'Headache', severity: 5 }] }),
+      },
+    ],
+  })
+);
+
+process.env.LLM_PROVIDER = 'scripted';
+process.env.LLM_SCRIPT_PATH = scriptPath;
+process.env.DATABASE_PATH = join(workDir, 'test.db');
+process.env.LOG_FILE_PATH = join(workDir, 'app.log');
+process.env.CONSOLE_LOG_LEVEL ??= 'silent';
+
+const { initializeDatabase, closeDatabase } = await import('./src/database/client.js');
+const { pipeline } = await import('./src/core/pipeline.js');
+const { registerHealthDomain } = await import('./src/domains/health/index.js');
+const { stateRepository } = await import('./src/database/repositories/index.js');
+const { conversationService } = await import('./src/services/conversation.service.js');
+
+let failures = 0;
+
+function check(label: string, passed: boolean, detail?: unknown) {
+  if (passed) {
+    console.log(`   ✓ ${label}`);
+  } else {
+    failures++;
+    console.log(`   ✗ ${label}${detail !== undefined ? `: ${JSON.stringify(detail)}` : ''}`);
+  }
+}
+
+async function testScriptedChat() {
+  const userId = 'scripted-user';
+
+  console.log('🧪 Starting scripted chat scenario...\n');
+  await initializeDatabase();
+  registerHealthDomain();
+
+  // 1. No rule matches: the built-in defaults classify it as small talk
+  console.log('💬 "Hello there!"');
+  const greeting = await pipeline.execute({
+    userId,
+    message: 'Hello there!',
+    timestamp: new Date(),
+  });
+  check('answered in smalltalk mode', greeting.mode === 'smalltalk', greeting.mode);
+  check('safety level is safe', greeting.safetyLevel === 'safe', greeting.safetyLevel);
+  check('reply is not empty', greeting.response.length > 0);
+
+  // 2. Scripted classification and health extraction
+  console.log('\n💬 "I\'ve had a headache since Monday"');
+  const symptom = await pipeline.execute({
+    conversationId: greeting.conversationId,
+    userId,
+    message: "I've had a headache since Monday",
+    timestamp: new Date(),
+  });
+  const health = symptom.extractions.find((e) => e.domainId === 'health');
+  check('answered in consult mode', symptom.mode === 'consult', symptom.mode);
+  check('health data extracted', !!health?.extracted, health);
+
+  const state = await stateRepository.getLatestByConversationId(symptom.conversationId);
+  const element = state?.contextElements.find((e) => e.key === 'symptom:headache');
+  check('headache kept as a symptom context element', element?.contextType === 'symptom', element);
+
+  const conversation = await conversationService.resolve(symptom.conversationId);
+  const before = await conversationService.getSummary(conversation);
+  check('health data stored', before.domains.includes('health'), before.domains);
+
+  // 3. Undo removes the turn and the data extracted from it
+  console.log('\n↩️  Undo last turn');
+  const undone = await conversationService.undoLastTurn(symptom.conversationId);
+  check('removed the headache message', undone?.userMessage?.content.includes('headache') ?? false);
+
+  const after = await conversationService.getSummary(conversation);
+  check('two messages left', after.messageCount === 2, after.messageCount);
+  check('health data removed', !after.domains.includes('health'), after.domains);
+
+  console.log(failures === 0 ? '\n✅ Scenario passed!\n' : `\n❌ ${failures} check(s) failed\n`);
+}
+
+// Run the scenario
+testScriptedChat()
+  .catch((error) => {
+    console.error('❌ Scenario failed:', error);
+    failures++;
+  })
+  .finally(() => {
+    closeDatabase();
+    rmSync(workDir, { recursive: true, force: true });
+    process.exit(failures === 0 ? 0 : 1);
+  });